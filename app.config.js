@@ -24,6 +24,7 @@ export default {
         "expo-router",
         "expo-font",
         "expo-web-browser",
+        "./plugins/withWordWidget",
         [
           "expo-notifications",
           {
@@ -52,7 +53,7 @@ export default {
         },
         permissions: {
           notifications: {
-            description: "This app will send you a daily word notification at 9 AM.",
+            description: "This app will send you a daily word notification at the time you choose.",
           },
         },
       },
@@ -0,0 +1,176 @@
+import React, { useEffect, useRef, useState } from "react";
+import { View, Text, StyleSheet, ActivityIndicator, FlatList, TouchableOpacity, useColorScheme } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { dayKeyToUTCDate } from "../../services/dates";
+import { getArchiveDays, getWordDay, getWordsForDays, type DatedWord } from "../../services/wordService";
+
+const PAGE_SIZE = 30;
+
+function formatDay(day: string): string {
+  // Day keys map to UTC midnights, so format in UTC to keep the label on the right day.
+  return dayKeyToUTCDate(day).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export default function ArchiveScreen() {
+  const router = useRouter();
+  const [entries, setEntries] = useState<DatedWord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+  const nextOffset = useRef(0);
+  // Pinned for the session so paging stays stable across midnight.
+  const today = useRef(getWordDay());
+  const loadingRef = useRef(false);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === "dark";
+
+  const loadPage = async () => {
+    if (loadingRef.current || done) return;
+    loadingRef.current = true;
+    setLoading(true);
+    setError(null);
+    try {
+      const days = getArchiveDays(today.current, nextOffset.current, PAGE_SIZE);
+      const page = await getWordsForDays(days);
+      nextOffset.current += days.length;
+      setEntries((prev) => [...prev, ...page]);
+      if (days.length < PAGE_SIZE) setDone(true);
+    } catch (error) {
+      console.error("Error fetching archive:", error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      loadingRef.current = false;
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPage();
+  }, []);
+
+  return (
+    <SafeAreaView edges={["top"]} style={[styles.safeArea, isDarkMode && styles.darkContainer]}>
+      <Text style={[styles.screenTitle, isDarkMode && styles.darkText, isDarkMode && styles.darkScreenTitle]}>Archive</Text>
+      <FlatList
+        data={entries}
+        keyExtractor={(item) => item.day}
+        onEndReached={loadPage}
+        onEndReachedThreshold={0.5}
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            style={[styles.row, isDarkMode && styles.darkRow]}
+            onPress={() => router.push(`/word/${item.day}`)}
+          >
+            <Text style={[styles.date, isDarkMode && styles.darkSecondaryText]}>{formatDay(item.day)}</Text>
+            <Text style={[styles.word, isDarkMode && styles.darkText]}>{item.word.word}</Text>
+            <Text style={[styles.partOfSpeech, isDarkMode && styles.darkSecondaryText]}>{item.word.part_of_speech}</Text>
+          </TouchableOpacity>
+        )}
+        ListEmptyComponent={
+          !loading && !error ? (
+            <Text style={[styles.empty, isDarkMode && styles.darkSecondaryText]}>
+              No past words yet. Check back tomorrow!
+            </Text>
+          ) : null
+        }
+        ListFooterComponent={
+          <View style={styles.footer}>
+            {loading && <ActivityIndicator color={isDarkMode ? "#fff" : "#000"} />}
+            {error && (
+              <>
+                <Text style={[styles.error, isDarkMode && styles.darkText]}>Error: {error}</Text>
+                <TouchableOpacity style={styles.retryButton} onPress={loadPage}>
+                  <Text style={styles.retryButtonText}>Retry</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: "#ffffff",
+  },
+  screenTitle: {
+    fontSize: 20,
+    fontWeight: "600",
+    textAlign: "center",
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "#ccc",
+  },
+  darkScreenTitle: {
+    borderBottomColor: "#333",
+  },
+  darkContainer: {
+    backgroundColor: "#121212",
+  },
+  row: {
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "#ddd",
+  },
+  darkRow: {
+    borderBottomColor: "#333",
+  },
+  date: {
+    fontSize: 13,
+    color: "#666",
+    marginBottom: 2,
+  },
+  word: {
+    fontSize: 20,
+    fontWeight: "bold",
+  },
+  partOfSpeech: {
+    fontSize: 14,
+    fontStyle: "italic",
+    color: "#666",
+  },
+  darkSecondaryText: {
+    color: "#bbbbbb",
+  },
+  empty: {
+    marginTop: 40,
+    fontSize: 16,
+    textAlign: "center",
+    color: "#666",
+  },
+  footer: {
+    paddingVertical: 20,
+    alignItems: "center",
+  },
+  error: {
+    fontSize: 16,
+    color: "red",
+  },
+  darkText: {
+    color: "#ffffff",
+  },
+  retryButton: {
+    marginTop: 15,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    backgroundColor: "#1E90FF",
+    borderRadius: 5,
+  },
+  retryButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+});
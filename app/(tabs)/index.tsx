@@ -1,17 +1,26 @@
-import React, { useRef, useState, useEffect } from "react";
-import { View, Text, StyleSheet, ActivityIndicator, ScrollView, useColorScheme, Animated, TouchableOpacity, Share, FlatList, Dimensions, AppState } from "react-native";
+import React, { useCallback, useRef, useState, useEffect } from "react";
+import { View, Text, StyleSheet, ActivityIndicator, ScrollView, useColorScheme, Animated, TouchableOpacity, Share, AppState } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect, useRouter } from "expo-router";
 import * as Notifications from "expo-notifications";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { requestNotificationPermissions, rescheduleUpcomingNotifications } from "../../notifications";
-import { getDailyWord } from "../../services/wordService";
+import { getCachedDailyWord } from "../../services/wordCache";
+import { recordWordViewed } from "../../services/reviewStore";
+import { recordActivity } from "../../services/activityLog";
+import { updateWidgetData } from "../../services/widgetData";
+import { getWordDay, getWordLink, type Word } from "../../services/wordService";
+import { getTrackWords } from "../../services/wordRotation";
+import { WordCard } from "../../components/WordCard";
+import { ShareSheet } from "../../components/ShareSheet";
 import {} from "react-native";
 import { createContext, useContext } from "react";
 
 const LAST_OPENED_KEY = "@vocabudaily/lastOpenedDate";
 
 async function maybeRescheduleNotifications() {
-  const today = new Date().toDateString();
+  const today = getWordDay();
   const lastOpened = await AsyncStorage.getItem(LAST_OPENED_KEY);
   if (lastOpened === today) return;
 
@@ -22,24 +31,34 @@ async function maybeRescheduleNotifications() {
 
 
 const APP_DOWNLOAD_LINK = "https://apps.apple.com/app/id6758642231";
-const SCREEN_WIDTH = Dimensions.get("window").width;
-const CARD_WIDTH = SCREEN_WIDTH * 0.90; // 85% of screen width
 const WordContext = createContext();
 
 export const WordProvider = ({ children }) => {
-  const [wordData, setWordData] = useState(null);
+  const [wordData, setWordData] = useState<Word | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(null);
   const lastFetchDate = useRef<string | null>(null);
+  const lastFetchTrack = useRef<string | null>(null);
   const appState = useRef(AppState.currentState);
 
+  const showWord = (data: Word) => {
+    setWordData(data);
+    recordWordViewed(data).catch((error) => console.warn("Recording word view failed:", error));
+    // The cache now holds the prefetched upcoming days too.
+    updateWidgetData(data).catch((error) => console.warn("Widget update failed:", error));
+  };
+
   const fetchWord = async () => {
     setLoading(true);
     setError(null);
     try {
-      const data = await getDailyWord();
-      setWordData(data);
-      lastFetchDate.current = new Date().toDateString();
+      // Cache first, so the word still shows offline; a background refresh
+      // swaps in the row again if it was edited server-side or an override
+      // was scheduled.
+      const data = await getCachedDailyWord(new Date(), showWord);
+      lastFetchDate.current = getWordDay();
+      lastFetchTrack.current = getTrackWords().track;
+      showWord(data);
     } catch (error) {
       console.error("Error fetching word:", error);
       setError(error.message);
@@ -49,21 +68,32 @@ export const WordProvider = ({ children }) => {
   };
 
   useEffect(() => {
-    const today = new Date().toDateString();
+    const today = getWordDay();
     if (!wordData || lastFetchDate.current !== today) {
       fetchWord();
     }
   }, []);
 
+  // The word track was switched in Settings since the word was fetched.
+  useFocusEffect(
+    useCallback(() => {
+      if (lastFetchTrack.current !== null && lastFetchTrack.current !== getTrackWords().track) {
+        fetchWord();
+      }
+    }, [])
+  );
+
   useEffect(() => {
     const subscription = AppState.addEventListener("change", (nextAppState) => {
       const wasBackground = appState.current.match(/inactive|background/);
       if (wasBackground && nextAppState === "active") {
-        const today = new Date().toDateString();
+        // A new word day started while the app was in the background.
+        const today = getWordDay();
         if (lastFetchDate.current !== today) {
           fetchWord();
         }
         maybeRescheduleNotifications();
+        recordActivity("open");
       }
       appState.current = nextAppState;
     });
@@ -79,8 +109,9 @@ export const WordProvider = ({ children }) => {
 
 
 const HomeScreen = () => {
-  const [activeIndex, setActiveIndex] = useState(0); // Track active example index
   const { wordData, loading, error, fetchWord } = useContext(WordContext);
+  const router = useRouter();
+  const [shareSheetVisible, setShareSheetVisible] = useState(false);
   
   // Detect system theme (light/dark)
   const colorScheme = useColorScheme();
@@ -92,6 +123,7 @@ const HomeScreen = () => {
     fetchWord();
 
     maybeRescheduleNotifications();
+    recordActivity("open");
 
     return () => controller.abort();
   }, []);
@@ -100,7 +132,7 @@ const HomeScreen = () => {
     if (!wordData) return;
   
     try {
-      const message = `📖 Today's Word: "${wordData.word}"\n\nExpand your vocabulary with VocabuDaily! Get the app here: ${APP_DOWNLOAD_LINK}`;
+      const message = `📖 Today's Word: "${wordData.word}"\n${getWordLink(wordData.word)}\n\nExpand your vocabulary with VocabuDaily! Get the app here: ${APP_DOWNLOAD_LINK}`;
   
       await Share.share({
         message,
@@ -132,54 +164,38 @@ const HomeScreen = () => {
 
   return (
     <SafeAreaView edges={["top"]} style={[styles.safeArea, isDarkMode && styles.darkContainer]}>
-      <Text style={[styles.screenTitle, isDarkMode && styles.darkText, isDarkMode && styles.darkScreenTitle]}>Word of the Day</Text>
+      <View style={[styles.titleBar, isDarkMode && styles.darkScreenTitle]}>
+        <TouchableOpacity style={[styles.titleButton, styles.titleButtonLeft]} onPress={() => router.push("/stats")} accessibilityLabel="Stats" hitSlop={10}>
+          <Ionicons name="flame-outline" size={24} color={isDarkMode ? "#fff" : "#000"} />
+        </TouchableOpacity>
+        <Text style={[styles.screenTitle, isDarkMode && styles.darkText]}>Word of the Day</Text>
+        <TouchableOpacity style={[styles.titleButton, styles.titleButtonSecondRight]} onPress={() => router.push("/settings")} accessibilityLabel="Settings" hitSlop={10}>
+          <Ionicons name="settings-outline" size={24} color={isDarkMode ? "#fff" : "#000"} />
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.titleButton, styles.titleButtonRight]} onPress={() => router.push("/account")} accessibilityLabel="Account" hitSlop={10}>
+          <Ionicons name="person-circle-outline" size={26} color={isDarkMode ? "#fff" : "#000"} />
+        </TouchableOpacity>
+      </View>
       <ScrollView contentContainerStyle={[styles.container, isDarkMode && styles.darkContainer]}>
       {wordData ? (
         <>
-          {/* Display Word */}
-          <View style={styles.wordContainer}>
-            <Text style={[styles.word, isDarkMode && styles.darkText]}>{wordData.word || "No word available"}</Text>
-          </View>
-
-          {/* Display Pronunciation (if available) */}
-          {wordData.phonetic && (
-            <Text style={[styles.pronunciation, isDarkMode && styles.darkSecondaryText]}>
-              [{wordData.phonetic}]
-            </Text>
-          )}
-
-          {/* Display Part of Speech (if available) */}
-          {wordData.part_of_speech && (
-            <Text style={[styles.partOfSpeech, isDarkMode && styles.darkSecondaryText]}>
-              {wordData.part_of_speech}
-            </Text>
-          )}
-
-          {/* Display Definition */}
-          <Text style={[styles.definition, isDarkMode && styles.darkText]}>
-          <Text style={[styles.definitionTitle, isDarkMode && styles.darkText]}>Definition: </Text>
-            {wordData.definition || "Definition not available."}
-          </Text>
-
-          {/* Display Word Origin */}
-          {wordData.origin && <Text style={[styles.note, isDarkMode && styles.darkText]}>Origin: {wordData.origin}</Text>}
-
-          {/* Display an Example Sentence */}
-          {wordData.examples?.length > 0 && (
-            <View style={[styles.exampleContainer, isDarkMode && styles.darkExampleContainer]}>
-              <Text style={[styles.exampleTitle, isDarkMode && styles.darkText]}>Example:</Text>
-              <Text style={[styles.exampleText, isDarkMode && styles.darkText]}>{wordData.examples[0]}</Text>
-            </View>
-          )}
+          <WordCard word={wordData} />
 
           <View style={styles.shareContainer}>
             <Text
               style={[styles.shareTitle, isDarkMode && styles.darkText]}
-              onPress={shareWord}
+              onPress={() => setShareSheetVisible(true)}
             >
               Love this word? <Text style={styles.shareClickableText}>Share it with friends!</Text> 📤
             </Text>
           </View>
+
+          <ShareSheet
+            word={wordData}
+            visible={shareSheetVisible}
+            onClose={() => setShareSheetVisible(false)}
+            onShareText={shareWord}
+          />
         </>
       ) : (
         <Text style={[styles.error, isDarkMode && styles.darkText]}>No word data available.</Text>
@@ -194,13 +210,29 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: "#ffffff",
   },
+  titleBar: {
+    justifyContent: "center",
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "#ccc",
+  },
   screenTitle: {
     fontSize: 20,
     fontWeight: "600",
     textAlign: "center",
     paddingVertical: 12,
-    borderBottomWidth: StyleSheet.hairlineWidth,
-    borderBottomColor: "#ccc",
+  },
+  titleButton: {
+    position: "absolute",
+    zIndex: 1,
+  },
+  titleButtonLeft: {
+    left: 16,
+  },
+  titleButtonRight: {
+    right: 16,
+  },
+  titleButtonSecondRight: {
+    right: 52,
   },
   darkScreenTitle: {
     borderBottomColor: "#333",
@@ -215,33 +247,6 @@ const styles = StyleSheet.create({
   darkContainer: {
     backgroundColor: "#121212", // Dark background for dark mode
   },
-  word: {
-    fontSize: 40, // Bigger for emphasis
-    fontWeight: "bold",
-    marginBottom: 8,
-  },
-  wordContainer: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    marginBottom: 10,
-  },
-  pronunciation: {
-    fontSize: 18,
-    color: "#666",
-    marginBottom: 4,
-    textAlign: "center",
-  },
-  partOfSpeech: {
-    fontSize: 16,
-    fontStyle: "italic",
-    color: "#666",
-    marginBottom: 10,
-    textAlign: "center",
-  },
-  darkSecondaryText: {
-    color: "#bbbbbb",
-  },
   shareContainer: {
     marginTop: 20,
     alignItems: "center",
@@ -259,52 +264,6 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     textDecorationLine: "underline", // Underline for clarity
   },
-  definitionTitle: {
-    fontSize: 18,
-    textAlign: "center",
-    fontStyle: "italic",
-    fontWeight: "bold",
-    color: "#555", // Softer color for readability
-  },
-  definition: {
-    fontSize: 18,
-    textAlign: "center",
-    fontStyle: "italic",
-    color: "#555", // Softer color for readability
-  },
-  note: {
-    marginTop: 14,
-    fontSize: 16,
-    fontStyle: "italic",
-    marginBottom: 10,
-    color: "#555",
-  },
-  exampleContainer: {
-    width: CARD_WIDTH, // Ensures proper centering
-    minHeight: 160,
-    padding: 15,
-    backgroundColor: "#f0f0f0",
-    borderRadius: 10,
-    shadowColor: "#000",
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.2,
-    shadowRadius: 4,
-    elevation: 3,
-    justifyContent: "center",
-    marginHorizontal: 10, // Adds spacing between cards
-  },
-  darkExampleContainer: {
-    backgroundColor: "#333",
-  },
-  exampleTitle: {
-    fontWeight: "bold",
-    fontSize: 16,
-    marginBottom: 5,
-  },
-  exampleText: {
-    fontSize: 16,
-    textAlign: "center",
-  },
   error: {
     fontSize: 16,
     color: "red",
@@ -0,0 +1,173 @@
+import React, { useCallback, useState } from "react";
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator, useColorScheme } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useFocusEffect, useRouter } from "expo-router";
+import { getPackProgress, getPacks, type Pack, type PackProgress } from "../../services/packs";
+
+export default function PacksScreen() {
+  const router = useRouter();
+  const [packs, setPacks] = useState<Pack[]>([]);
+  const [progress, setProgress] = useState<PackProgress>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === "dark";
+
+  const loadPacks = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setPacks(await getPacks());
+    } catch (error) {
+      console.error("Error fetching packs:", error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Progress changes while stepping through a pack, so it's reread on focus.
+  useFocusEffect(
+    useCallback(() => {
+      getPackProgress().then(setProgress);
+      if (packs.length === 0) loadPacks();
+    }, [packs.length])
+  );
+
+  return (
+    <SafeAreaView edges={["top"]} style={[styles.safeArea, isDarkMode && styles.darkContainer]}>
+      <Text style={[styles.screenTitle, isDarkMode && styles.darkText, isDarkMode && styles.darkScreenTitle]}>Packs</Text>
+      <FlatList
+        data={packs}
+        keyExtractor={(item) => item.slug}
+        renderItem={({ item }) => {
+          const seen = Math.min(progress[item.id]?.length ?? 0, item.word_count);
+          return (
+            <TouchableOpacity
+              style={[styles.row, isDarkMode && styles.darkRow]}
+              onPress={() => router.push(`/pack/${item.slug}`)}
+              accessibilityHint={`${seen} of ${item.word_count} words learned`}
+            >
+              <Text style={[styles.title, isDarkMode && styles.darkText]}>{item.title}</Text>
+              <Text style={[styles.description, isDarkMode && styles.darkSecondaryText]} numberOfLines={2}>
+                {item.description}
+              </Text>
+              <View style={[styles.progressTrack, isDarkMode && styles.darkProgressTrack]}>
+                <View style={[styles.progressFill, { width: `${item.word_count ? (seen / item.word_count) * 100 : 0}%` }]} />
+              </View>
+              <Text style={[styles.count, isDarkMode && styles.darkSecondaryText]}>
+                {seen === item.word_count && seen > 0 ? "Complete" : `${seen} / ${item.word_count} words`}
+              </Text>
+            </TouchableOpacity>
+          );
+        }}
+        ListEmptyComponent={
+          loading ? (
+            <ActivityIndicator style={styles.empty} size="large" color={isDarkMode ? "#fff" : "#000"} />
+          ) : error ? (
+            <View style={styles.centered}>
+              <Text style={[styles.error, isDarkMode && styles.darkText]}>Error: {error}</Text>
+              <TouchableOpacity style={styles.retryButton} onPress={loadPacks}>
+                <Text style={styles.retryButtonText}>Retry</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <Text style={[styles.empty, isDarkMode && styles.darkSecondaryText]}>No packs yet.</Text>
+          )
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: "#ffffff",
+  },
+  screenTitle: {
+    fontSize: 20,
+    fontWeight: "600",
+    textAlign: "center",
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "#ccc",
+  },
+  darkScreenTitle: {
+    borderBottomColor: "#333",
+  },
+  darkContainer: {
+    backgroundColor: "#121212",
+  },
+  row: {
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "#ddd",
+  },
+  darkRow: {
+    borderBottomColor: "#333",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  description: {
+    fontSize: 14,
+    color: "#666",
+    marginTop: 2,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    marginTop: 10,
+    backgroundColor: "#e0e0e0",
+    overflow: "hidden",
+  },
+  darkProgressTrack: {
+    backgroundColor: "#333",
+  },
+  progressFill: {
+    height: "100%",
+    backgroundColor: "#1E90FF",
+  },
+  count: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 4,
+  },
+  centered: {
+    alignItems: "center",
+    marginTop: 40,
+  },
+  error: {
+    fontSize: 16,
+    color: "red",
+  },
+  retryButton: {
+    marginTop: 15,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    backgroundColor: "#1E90FF",
+    borderRadius: 5,
+  },
+  retryButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  empty: {
+    marginTop: 40,
+    paddingHorizontal: 20,
+    fontSize: 16,
+    textAlign: "center",
+    color: "#666",
+  },
+  darkSecondaryText: {
+    color: "#bbbbbb",
+  },
+  darkText: {
+    color: "#ffffff",
+  },
+});
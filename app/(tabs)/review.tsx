@@ -0,0 +1,274 @@
+import React, { useCallback, useState } from "react";
+import { View, Text, StyleSheet, ActivityIndicator, ScrollView, TouchableOpacity, useColorScheme } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useFocusEffect, useRouter } from "expo-router";
+import { recordActivity } from "../../services/activityLog";
+import { GRADES, previewInterval, type Grade } from "../../services/reviewScheduler";
+import { getDueReviews, getNextReviewDate, gradeReview, type ReviewItem } from "../../services/reviewStore";
+
+const GRADE_LABELS: Record<Grade, string> = {
+  again: "Again",
+  hard: "Hard",
+  good: "Good",
+  easy: "Easy",
+};
+
+const GRADE_COLORS: Record<Grade, string> = {
+  again: "#E5484D",
+  hard: "#F5A623",
+  good: "#1E90FF",
+  easy: "#30A46C",
+};
+
+export default function ReviewScreen() {
+  const router = useRouter();
+  const [queue, setQueue] = useState<ReviewItem[]>([]);
+  const [revealed, setRevealed] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [nextReview, setNextReview] = useState<Date | null>(null);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === "dark";
+
+  const loadQueue = async () => {
+    setLoading(true);
+    const [due, next] = await Promise.all([getDueReviews(), getNextReviewDate()]);
+    setQueue(due);
+    setNextReview(next);
+    setRevealed(false);
+    setLoading(false);
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadQueue();
+    }, [])
+  );
+
+  const grade = async (value: Grade) => {
+    const [current, ...rest] = queue;
+    const card = await gradeReview(current.card.wordId, value);
+    recordActivity("learn");
+    // Failed cards come back at the end of this session.
+    setQueue(value === "again" ? [...rest, { ...current, card }] : rest);
+    setReviewedCount((count) => count + 1);
+    setRevealed(false);
+    if (rest.length === 0 && value !== "again") setNextReview(await getNextReviewDate());
+  };
+
+  const current = queue[0];
+
+  return (
+    <SafeAreaView edges={["top"]} style={[styles.safeArea, isDarkMode && styles.darkContainer]}>
+      <Text style={[styles.screenTitle, isDarkMode && styles.darkText, isDarkMode && styles.darkScreenTitle]}>Review</Text>
+      <ScrollView contentContainerStyle={[styles.container, isDarkMode && styles.darkContainer]}>
+        {loading ? (
+          <ActivityIndicator size="large" color={isDarkMode ? "#fff" : "#000"} />
+        ) : !current ? (
+          <View style={styles.centered}>
+            <Text style={[styles.doneTitle, isDarkMode && styles.darkText]}>All caught up!</Text>
+            <Text style={[styles.doneText, isDarkMode && styles.darkSecondaryText]}>
+              {reviewedCount > 0 ? `You reviewed ${reviewedCount} card${reviewedCount === 1 ? "" : "s"}. ` : ""}
+              {nextReview
+                ? `Next review: ${nextReview.toLocaleString(undefined, { weekday: "short", hour: "numeric", minute: "2-digit" })}.`
+                : "Words you view will show up here the next day."}
+            </Text>
+          </View>
+        ) : (
+          <>
+            <Text style={[styles.remaining, isDarkMode && styles.darkSecondaryText]}>
+              {queue.length} due
+            </Text>
+            <View style={[styles.card, isDarkMode && styles.darkCard]}>
+              <Text style={[styles.word, isDarkMode && styles.darkText]}>{current.word.word}</Text>
+              {current.word.phonetic && (
+                <Text style={[styles.pronunciation, isDarkMode && styles.darkSecondaryText]}>
+                  [{current.word.phonetic}]
+                </Text>
+              )}
+              {revealed && (
+                <>
+                  <Text style={[styles.partOfSpeech, isDarkMode && styles.darkSecondaryText]}>
+                    {current.word.part_of_speech}
+                  </Text>
+                  <Text style={[styles.definition, isDarkMode && styles.darkText]}>{current.word.definition}</Text>
+                  {current.word.examples.map((example) => (
+                    <Text key={example} style={[styles.example, isDarkMode && styles.darkSecondaryText]}>
+                      “{example}”
+                    </Text>
+                  ))}
+                </>
+              )}
+            </View>
+
+            {revealed ? (
+              <View style={styles.gradeRow}>
+                {GRADES.map((value) => (
+                  <TouchableOpacity
+                    key={value}
+                    style={[styles.gradeButton, { backgroundColor: GRADE_COLORS[value] }]}
+                    onPress={() => grade(value)}
+                  >
+                    <Text style={styles.gradeText}>{GRADE_LABELS[value]}</Text>
+                    <Text style={styles.gradeInterval}>{previewInterval(current.card, value)}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ) : (
+              <TouchableOpacity style={styles.revealButton} onPress={() => setRevealed(true)}>
+                <Text style={styles.revealButtonText}>Show answer</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+
+        {!loading && (
+          <TouchableOpacity style={styles.quizLink} onPress={() => router.push("/quiz")}>
+            <Text style={styles.quizLinkText}>Quiz yourself →</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: "#ffffff",
+  },
+  screenTitle: {
+    fontSize: 20,
+    fontWeight: "600",
+    textAlign: "center",
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "#ccc",
+  },
+  darkScreenTitle: {
+    borderBottomColor: "#333",
+  },
+  container: {
+    flexGrow: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+    backgroundColor: "#ffffff",
+  },
+  darkContainer: {
+    backgroundColor: "#121212",
+  },
+  centered: {
+    alignItems: "center",
+  },
+  doneTitle: {
+    fontSize: 24,
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  doneText: {
+    fontSize: 16,
+    color: "#666",
+    textAlign: "center",
+  },
+  remaining: {
+    fontSize: 14,
+    color: "#666",
+    marginBottom: 10,
+  },
+  card: {
+    width: "100%",
+    minHeight: 240,
+    padding: 20,
+    backgroundColor: "#f0f0f0",
+    borderRadius: 10,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 3,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  darkCard: {
+    backgroundColor: "#333",
+  },
+  word: {
+    fontSize: 36,
+    fontWeight: "bold",
+    marginBottom: 6,
+  },
+  pronunciation: {
+    fontSize: 18,
+    color: "#666",
+    marginBottom: 4,
+  },
+  partOfSpeech: {
+    fontSize: 16,
+    fontStyle: "italic",
+    color: "#666",
+    marginTop: 10,
+    marginBottom: 6,
+  },
+  definition: {
+    fontSize: 18,
+    textAlign: "center",
+    marginBottom: 10,
+  },
+  example: {
+    fontSize: 15,
+    fontStyle: "italic",
+    textAlign: "center",
+    color: "#555",
+    marginTop: 6,
+  },
+  darkSecondaryText: {
+    color: "#bbbbbb",
+  },
+  darkText: {
+    color: "#ffffff",
+  },
+  revealButton: {
+    marginTop: 20,
+    paddingVertical: 12,
+    paddingHorizontal: 30,
+    backgroundColor: "#1E90FF",
+    borderRadius: 5,
+  },
+  revealButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  gradeRow: {
+    flexDirection: "row",
+    marginTop: 20,
+  },
+  gradeButton: {
+    flex: 1,
+    marginHorizontal: 4,
+    paddingVertical: 10,
+    borderRadius: 5,
+    alignItems: "center",
+  },
+  gradeText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  quizLink: {
+    marginTop: 30,
+    padding: 10,
+  },
+  quizLinkText: {
+    color: "#1E90FF",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  gradeInterval: {
+    color: "#ffffff",
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
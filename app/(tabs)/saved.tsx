@@ -0,0 +1,183 @@
+import React, { useCallback, useMemo, useState } from "react";
+import { View, Text, StyleSheet, FlatList, TextInput, TouchableOpacity, useColorScheme } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useFocusEffect, useRouter } from "expo-router";
+import { useAuth } from "../../components/AuthProvider";
+import { useFavorites } from "../../hooks/useFavorites";
+import { filterFavorites, syncFavorites, type FavoriteSort } from "../../services/favorites";
+
+const SORT_LABELS: Record<FavoriteSort, string> = {
+  recent: "Recently saved",
+  alphabetical: "A–Z",
+};
+
+export default function SavedScreen() {
+  const router = useRouter();
+  const { favorites } = useFavorites();
+  const { isAnonymous } = useAuth();
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<FavoriteSort>("recent");
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === "dark";
+
+  useFocusEffect(
+    useCallback(() => {
+      syncFavorites().catch((error) => console.warn("Favorites sync failed:", error));
+    }, [])
+  );
+
+  const visible = useMemo(() => filterFavorites(favorites, query, sort), [favorites, query, sort]);
+
+  return (
+    <SafeAreaView edges={["top"]} style={[styles.safeArea, isDarkMode && styles.darkContainer]}>
+      <Text style={[styles.screenTitle, isDarkMode && styles.darkText, isDarkMode && styles.darkScreenTitle]}>Saved</Text>
+      <View style={styles.controls}>
+        <TextInput
+          style={[styles.search, isDarkMode && styles.darkSearch]}
+          placeholder="Search saved words"
+          placeholderTextColor={isDarkMode ? "#888" : "#999"}
+          value={query}
+          onChangeText={setQuery}
+          autoCapitalize="none"
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+        />
+        <View style={styles.sortRow}>
+          {(Object.keys(SORT_LABELS) as FavoriteSort[]).map((key) => (
+            <TouchableOpacity
+              key={key}
+              style={[styles.sortButton, sort === key && styles.sortButtonActive]}
+              onPress={() => setSort(key)}
+            >
+              <Text style={[styles.sortText, isDarkMode && styles.darkText, sort === key && styles.sortTextActive]}>
+                {SORT_LABELS[key]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {isAnonymous && favorites.length > 0 && (
+          <TouchableOpacity onPress={() => router.push("/account")}>
+            <Text style={styles.syncHint}>Add your email to keep saved words across devices →</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <FlatList
+        data={visible}
+        keyExtractor={(item) => String(item.id)}
+        keyboardShouldPersistTaps="handled"
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            style={[styles.row, isDarkMode && styles.darkRow]}
+            onPress={() => router.push(`/saved/${item.id}`)}
+          >
+            <Text style={[styles.word, isDarkMode && styles.darkText]}>{item.word.word}</Text>
+            <Text style={[styles.definition, isDarkMode && styles.darkSecondaryText]} numberOfLines={2}>
+              {item.word.definition}
+            </Text>
+          </TouchableOpacity>
+        )}
+        ListEmptyComponent={
+          <Text style={[styles.empty, isDarkMode && styles.darkSecondaryText]}>
+            {favorites.length === 0
+              ? "Tap the star on a word to save it here."
+              : `No saved words match "${query}".`}
+          </Text>
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: "#ffffff",
+  },
+  screenTitle: {
+    fontSize: 20,
+    fontWeight: "600",
+    textAlign: "center",
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "#ccc",
+  },
+  darkScreenTitle: {
+    borderBottomColor: "#333",
+  },
+  darkContainer: {
+    backgroundColor: "#121212",
+  },
+  controls: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  search: {
+    fontSize: 16,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: "#f0f0f0",
+    color: "#000",
+  },
+  darkSearch: {
+    backgroundColor: "#333",
+    color: "#fff",
+  },
+  sortRow: {
+    flexDirection: "row",
+    marginVertical: 10,
+  },
+  sortButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    marginRight: 8,
+  },
+  sortButtonActive: {
+    backgroundColor: "#1E90FF",
+  },
+  sortText: {
+    fontSize: 14,
+  },
+  sortTextActive: {
+    color: "#ffffff",
+    fontWeight: "bold",
+  },
+  syncHint: {
+    color: "#1E90FF",
+    fontSize: 14,
+    marginBottom: 10,
+  },
+  row: {
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "#ddd",
+  },
+  darkRow: {
+    borderBottomColor: "#333",
+  },
+  word: {
+    fontSize: 20,
+    fontWeight: "bold",
+  },
+  definition: {
+    fontSize: 14,
+    color: "#666",
+    marginTop: 2,
+  },
+  darkSecondaryText: {
+    color: "#bbbbbb",
+  },
+  empty: {
+    marginTop: 40,
+    paddingHorizontal: 20,
+    fontSize: 16,
+    textAlign: "center",
+    color: "#666",
+  },
+  darkText: {
+    color: "#ffffff",
+  },
+});
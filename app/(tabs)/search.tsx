@@ -0,0 +1,217 @@
+import React, { useEffect, useRef, useState } from "react";
+import { View, Text, StyleSheet, FlatList, TextInput, TouchableOpacity, ActivityIndicator, useColorScheme } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { useDebouncedValue } from "../../hooks/useDebouncedValue";
+import { searchWords, type Word } from "../../services/wordService";
+
+const PAGE_SIZE = 20;
+const DEBOUNCE_MS = 300;
+
+export default function SearchScreen() {
+  const router = useRouter();
+  const [query, setQuery] = useState("");
+  const debouncedQuery = useDebouncedValue(query.trim(), DEBOUNCE_MS);
+  const [results, setResults] = useState<Word[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Responses for a query the user has already typed past are dropped.
+  const latestQuery = useRef("");
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === "dark";
+
+  const loadPage = async (searchQuery: string, offset: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await searchWords(searchQuery, { limit: PAGE_SIZE, offset });
+      if (latestQuery.current !== searchQuery) return;
+      setResults((prev) => (offset === 0 ? page : [...prev, ...page]));
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (error) {
+      if (latestQuery.current !== searchQuery) return;
+      console.error("Error searching words:", error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      if (latestQuery.current === searchQuery) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    latestQuery.current = debouncedQuery;
+    setResults([]);
+    setHasMore(false);
+    if (debouncedQuery) {
+      loadPage(debouncedQuery, 0);
+    } else {
+      setLoading(false);
+      setError(null);
+    }
+  }, [debouncedQuery]);
+
+  const loadMore = () => {
+    if (loading || !hasMore || error) return;
+    loadPage(debouncedQuery, results.length);
+  };
+
+  const emptyText = !debouncedQuery
+    ? "Search all words by spelling, meaning or origin."
+    : `No words match "${debouncedQuery}".`;
+
+  return (
+    <SafeAreaView edges={["top"]} style={[styles.safeArea, isDarkMode && styles.darkContainer]}>
+      <Text style={[styles.screenTitle, isDarkMode && styles.darkText, isDarkMode && styles.darkScreenTitle]}>Search</Text>
+      <View style={styles.controls}>
+        <TextInput
+          style={[styles.search, isDarkMode && styles.darkSearch]}
+          placeholder="Search the dictionary"
+          placeholderTextColor={isDarkMode ? "#888" : "#999"}
+          value={query}
+          onChangeText={setQuery}
+          autoCapitalize="none"
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+          returnKeyType="search"
+        />
+      </View>
+      <FlatList
+        data={results}
+        keyExtractor={(item) => String(item.id)}
+        keyboardShouldPersistTaps="handled"
+        keyboardDismissMode="on-drag"
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            style={[styles.row, isDarkMode && styles.darkRow]}
+            onPress={() => router.push(`/word/${encodeURIComponent(item.word)}`)}
+          >
+            <Text style={[styles.word, isDarkMode && styles.darkText]}>{item.word}</Text>
+            <Text style={[styles.definition, isDarkMode && styles.darkSecondaryText]} numberOfLines={2}>
+              {item.definition}
+            </Text>
+          </TouchableOpacity>
+        )}
+        ListEmptyComponent={
+          loading ? null : error ? (
+            <View style={styles.centered}>
+              <Text style={[styles.error, isDarkMode && styles.darkText]}>Error: {error}</Text>
+              <TouchableOpacity style={styles.retryButton} onPress={() => loadPage(debouncedQuery, 0)}>
+                <Text style={styles.retryButtonText}>Retry</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <Text style={[styles.empty, isDarkMode && styles.darkSecondaryText]}>{emptyText}</Text>
+          )
+        }
+        ListFooterComponent={
+          loading ? (
+            <ActivityIndicator style={styles.footer} color={isDarkMode ? "#fff" : "#000"} />
+          ) : error && results.length > 0 ? (
+            <TouchableOpacity style={styles.footer} onPress={() => loadPage(debouncedQuery, results.length)}>
+              <Text style={styles.loadMoreError}>Couldn&apos;t load more. Tap to retry.</Text>
+            </TouchableOpacity>
+          ) : null
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: "#ffffff",
+  },
+  screenTitle: {
+    fontSize: 20,
+    fontWeight: "600",
+    textAlign: "center",
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "#ccc",
+  },
+  darkScreenTitle: {
+    borderBottomColor: "#333",
+  },
+  darkContainer: {
+    backgroundColor: "#121212",
+  },
+  controls: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  search: {
+    fontSize: 16,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: "#f0f0f0",
+    color: "#000",
+  },
+  darkSearch: {
+    backgroundColor: "#333",
+    color: "#fff",
+  },
+  row: {
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "#ddd",
+  },
+  darkRow: {
+    borderBottomColor: "#333",
+  },
+  word: {
+    fontSize: 20,
+    fontWeight: "bold",
+  },
+  definition: {
+    fontSize: 14,
+    color: "#666",
+    marginTop: 2,
+  },
+  centered: {
+    alignItems: "center",
+    marginTop: 40,
+  },
+  footer: {
+    paddingVertical: 20,
+    alignItems: "center",
+  },
+  loadMoreError: {
+    color: "#1E90FF",
+    fontSize: 14,
+  },
+  error: {
+    fontSize: 16,
+    color: "red",
+  },
+  retryButton: {
+    marginTop: 15,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    backgroundColor: "#1E90FF",
+    borderRadius: 5,
+  },
+  retryButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  empty: {
+    marginTop: 40,
+    paddingHorizontal: 20,
+    fontSize: 16,
+    textAlign: "center",
+    color: "#666",
+  },
+  darkSecondaryText: {
+    color: "#bbbbbb",
+  },
+  darkText: {
+    color: "#ffffff",
+  },
+});
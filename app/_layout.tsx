@@ -1,22 +1,47 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
-import { Stack } from 'expo-router';
+import * as Notifications from 'expo-notifications';
+import { router, Stack } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
 import { useEffect } from 'react';
 import 'react-native-reanimated';
 
+import { AuthProvider } from '@/components/AuthProvider';
 import { useColorScheme } from '@/hooks/useColorScheme';
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
 
+// Opens the word a tapped notification points at, including the tap that
+// launched the app. Waits for the navigator to mount before routing.
+function useNotificationObserver(ready: boolean) {
+  useEffect(() => {
+    if (!ready) return;
+
+    const redirect = (notification: Notifications.Notification) => {
+      const url = notification.request.content.data?.url;
+      if (typeof url === 'string') router.push(url);
+    };
+
+    const response = Notifications.getLastNotificationResponse();
+    if (response) redirect(response.notification);
+
+    const subscription = Notifications.addNotificationResponseReceivedListener((response) => {
+      redirect(response.notification);
+    });
+    return () => subscription.remove();
+  }, [ready]);
+}
+
 export default function RootLayout() {
   const colorScheme = useColorScheme();
   const [loaded] = useFonts({
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
 
+  useNotificationObserver(loaded);
+
   useEffect(() => {
     if (loaded) {
       SplashScreen.hideAsync();
@@ -28,12 +53,24 @@ export default function RootLayout() {
   }
 
   return (
-    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="+not-found" />
-      </Stack>
-      <StatusBar style="auto" />
-    </ThemeProvider>
+    <AuthProvider>
+      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+        <Stack>
+          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+          <Stack.Screen name="word/[key]" options={{ headerBackTitle: 'Back' }} />
+          <Stack.Screen name="saved/[id]" options={{ headerBackTitle: 'Saved' }} />
+          <Stack.Screen name="pack/[slug]" options={{ headerBackTitle: 'Packs' }} />
+          <Stack.Screen name="root/[root]" options={{ headerBackTitle: 'Back' }} />
+          <Stack.Screen name="quiz" options={{ headerBackTitle: 'Review' }} />
+          <Stack.Screen name="stats" options={{ headerBackTitle: 'Back' }} />
+          <Stack.Screen name="settings" options={{ title: 'Settings', headerBackTitle: 'Back' }} />
+          <Stack.Screen name="track" options={{ title: 'Word Track', headerBackTitle: 'Settings' }} />
+          <Stack.Screen name="account" options={{ title: 'Account', headerBackTitle: 'Back' }} />
+          <Stack.Screen name="auth/callback" options={{ headerShown: false }} />
+          <Stack.Screen name="+not-found" />
+        </Stack>
+        <StatusBar style="auto" />
+      </ThemeProvider>
+    </AuthProvider>
   );
 }
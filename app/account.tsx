@@ -0,0 +1,213 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet, ActivityIndicator, ScrollView, TextInput, TouchableOpacity, useColorScheme } from "react-native";
+import { useAuth } from "../components/AuthProvider";
+import { sendMagicLink, setPassword, signInWithPassword, signOut, upgradeWithEmail } from "../services/auth";
+
+type Mode = "upgrade" | "sign-in";
+
+export default function AccountScreen() {
+  const { user, loading, isAnonymous } = useAuth();
+  const [mode, setMode] = useState<Mode>("upgrade");
+  const [email, setEmail] = useState("");
+  const [password, setPasswordValue] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === "dark";
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+      setMessage(success);
+      setPasswordValue("");
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) return (
+    <View style={[styles.container, isDarkMode && styles.darkContainer]}>
+      <ActivityIndicator size="large" color={isDarkMode ? "#fff" : "#000"} />
+    </View>
+  );
+
+  const inputStyle = [styles.input, isDarkMode && styles.darkInput];
+  const placeholderColor = isDarkMode ? "#888" : "#999";
+
+  return (
+    <ScrollView contentContainerStyle={[styles.container, isDarkMode && styles.darkContainer]} keyboardShouldPersistTaps="handled">
+      {isAnonymous ? (
+        <>
+          <Text style={[styles.title, isDarkMode && styles.darkText]}>
+            {mode === "upgrade" ? "Keep your progress" : "Sign in"}
+          </Text>
+          <Text style={[styles.body, isDarkMode && styles.darkSecondaryText]}>
+            {mode === "upgrade"
+              ? "You're using VocabuDaily as a guest. Add your email so your saved words survive a reinstall or a new phone."
+              : "Sign in to an account you created on another device."}
+          </Text>
+
+          <TextInput
+            style={inputStyle}
+            placeholder="Email"
+            placeholderTextColor={placeholderColor}
+            value={email}
+            onChangeText={setEmail}
+            autoCapitalize="none"
+            autoComplete="email"
+            keyboardType="email-address"
+          />
+          {mode === "sign-in" && (
+            <TextInput
+              style={inputStyle}
+              placeholder="Password (optional)"
+              placeholderTextColor={placeholderColor}
+              value={password}
+              onChangeText={setPasswordValue}
+              secureTextEntry
+            />
+          )}
+
+          <TouchableOpacity
+            style={[styles.primaryButton, (busy || !email.trim()) && styles.disabled]}
+            disabled={busy || !email.trim()}
+            onPress={() =>
+              mode === "upgrade"
+                ? run(() => upgradeWithEmail(email), "Check your inbox for a confirmation link.")
+                : password
+                  ? run(() => signInWithPassword(email, password), "Signed in.")
+                  : run(() => sendMagicLink(email), "Check your inbox for a sign-in link.")
+            }
+          >
+            <Text style={styles.primaryButtonText}>
+              {mode === "upgrade" ? "Save my account" : password ? "Sign in" : "Email me a sign-in link"}
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity onPress={() => setMode(mode === "upgrade" ? "sign-in" : "upgrade")}>
+            <Text style={styles.link}>
+              {mode === "upgrade" ? "Already have an account? Sign in" : "New here? Save this device's account"}
+            </Text>
+          </TouchableOpacity>
+        </>
+      ) : (
+        <>
+          <Text style={[styles.title, isDarkMode && styles.darkText]}>Account</Text>
+          <Text style={[styles.body, isDarkMode && styles.darkSecondaryText]}>Signed in as {user?.email}</Text>
+          {user?.new_email && (
+            <Text style={[styles.body, isDarkMode && styles.darkSecondaryText]}>
+              Waiting for you to confirm {user.new_email}.
+            </Text>
+          )}
+
+          <TextInput
+            style={inputStyle}
+            placeholder="New password"
+            placeholderTextColor={placeholderColor}
+            value={password}
+            onChangeText={setPasswordValue}
+            secureTextEntry
+          />
+          <TouchableOpacity
+            style={[styles.primaryButton, (busy || password.length < 6) && styles.disabled]}
+            disabled={busy || password.length < 6}
+            onPress={() => run(() => setPassword(password), "Password updated.")}
+          >
+            <Text style={styles.primaryButtonText}>Set password</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity disabled={busy} onPress={() => run(signOut, "Signed out.")}>
+            <Text style={[styles.link, styles.destructive]}>Sign out</Text>
+          </TouchableOpacity>
+        </>
+      )}
+
+      {busy && <ActivityIndicator style={styles.status} color={isDarkMode ? "#fff" : "#000"} />}
+      {message && <Text style={[styles.status, styles.message, isDarkMode && styles.darkText]}>{message}</Text>}
+      {error && <Text style={[styles.status, styles.error]}>Error: {error}</Text>}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    alignItems: "stretch",
+    padding: 20,
+    backgroundColor: "#ffffff",
+  },
+  darkContainer: {
+    backgroundColor: "#121212",
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  body: {
+    fontSize: 16,
+    color: "#555",
+    marginBottom: 16,
+  },
+  input: {
+    fontSize: 16,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: "#f0f0f0",
+    color: "#000",
+    marginBottom: 10,
+  },
+  darkInput: {
+    backgroundColor: "#333",
+    color: "#fff",
+  },
+  primaryButton: {
+    marginTop: 5,
+    paddingVertical: 12,
+    backgroundColor: "#1E90FF",
+    borderRadius: 5,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  link: {
+    marginTop: 20,
+    color: "#1E90FF",
+    fontSize: 16,
+    textAlign: "center",
+  },
+  destructive: {
+    color: "#E5484D",
+  },
+  status: {
+    marginTop: 20,
+    textAlign: "center",
+  },
+  message: {
+    fontSize: 16,
+  },
+  error: {
+    fontSize: 16,
+    color: "red",
+  },
+  darkSecondaryText: {
+    color: "#bbbbbb",
+  },
+  darkText: {
+    color: "#ffffff",
+  },
+});
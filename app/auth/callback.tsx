@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, StyleSheet, ActivityIndicator, useColorScheme } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { completeEmailLink } from "../../services/auth";
+
+// Landing route for magic links and email confirmations (AUTH_REDIRECT_URL).
+export default function AuthCallbackScreen() {
+  const router = useRouter();
+  const { code, error_description } = useLocalSearchParams<{ code?: string; error_description?: string }>();
+  const [error, setError] = useState<string | null>(error_description ?? null);
+  const isDarkMode = useColorScheme() === "dark";
+
+  useEffect(() => {
+    if (!code) {
+      setError((prev) => prev ?? "This sign-in link is invalid or has expired.");
+      return;
+    }
+    completeEmailLink(code)
+      .then(() => router.replace("/account"))
+      .catch((error) => setError(error instanceof Error ? error.message : String(error)));
+  }, [code]);
+
+  return (
+    <View style={[styles.container, isDarkMode && styles.darkContainer]}>
+      {error ? (
+        <Text style={[styles.error, isDarkMode && styles.darkText]}>Error: {error}</Text>
+      ) : (
+        <ActivityIndicator size="large" color={isDarkMode ? "#fff" : "#000"} />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+    backgroundColor: "#ffffff",
+  },
+  darkContainer: {
+    backgroundColor: "#121212",
+  },
+  error: {
+    fontSize: 16,
+    color: "red",
+    textAlign: "center",
+  },
+  darkText: {
+    color: "#ffffff",
+  },
+});
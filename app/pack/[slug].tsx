@@ -0,0 +1,260 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, StyleSheet, ActivityIndicator, ScrollView, TouchableOpacity, useColorScheme } from "react-native";
+import { Stack, useLocalSearchParams } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { WordCard } from "../../components/WordCard";
+import { recordWordViewed } from "../../services/reviewStore";
+import {
+  countSeen,
+  getPack,
+  getPackProgress,
+  getPackWords,
+  markPackWordSeen,
+  resetPackProgress,
+  resumeIndex,
+  type PackWithWordIds,
+} from "../../services/packs";
+import type { Word } from "../../services/wordService";
+import NotFoundScreen from "../+not-found";
+
+// Words are fetched this many at a time from the one being shown.
+const WORD_PAGE_SIZE = 10;
+
+// Steps through a pack one word at a time, picking up at the first word not
+// seen yet. Every word shown counts towards the pack's progress.
+export default function PackScreen() {
+  const { slug } = useLocalSearchParams<{ slug: string }>();
+  const [pack, setPack] = useState<PackWithWordIds | null>(null);
+  const [words, setWords] = useState<Record<number, Word>>({});
+  const [index, setIndex] = useState(0);
+  const [seen, setSeen] = useState<number[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === "dark";
+
+  const fetchPack = async () => {
+    setLoading(true);
+    setError(null);
+    setNotFound(false);
+    try {
+      const [data, progress] = await Promise.all([getPack(slug), getPackProgress()]);
+      if (!data || data.wordIds.length === 0) {
+        setNotFound(true);
+        return;
+      }
+      const packSeen = progress[data.id] ?? [];
+      setPack(data);
+      setWords({});
+      setSeen(packSeen);
+      setIndex(resumeIndex(data.wordIds, packSeen));
+    } catch (error) {
+      console.error("Error fetching pack:", error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPack();
+  }, [slug]);
+
+  const wordId = pack?.wordIds[index];
+  const word = wordId === undefined ? undefined : words[wordId];
+
+  useEffect(() => {
+    if (!pack || wordId === undefined || words[wordId]) return;
+    let cancelled = false;
+    const page = pack.wordIds.slice(index, index + WORD_PAGE_SIZE).filter((id) => !words[id]);
+    getPackWords(page)
+      .then((loaded) => {
+        if (cancelled) return;
+        setWords((current) => ({ ...current, ...Object.fromEntries(loaded.map((w) => [w.id, w])) }));
+      })
+      .catch((error) => {
+        console.error("Error fetching pack words:", error);
+        if (!cancelled) setError(error instanceof Error ? error.message : String(error));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pack, wordId]);
+
+  useEffect(() => {
+    if (!pack || !word) return;
+    markPackWordSeen(pack.id, word.id)
+      .then(setSeen)
+      .catch((error) => console.warn("Saving pack progress failed:", error));
+    recordWordViewed(word).catch((error) => console.warn("Recording word view failed:", error));
+  }, [pack, word]);
+
+  const startOver = async () => {
+    if (!pack) return;
+    try {
+      await resetPackProgress(pack.id);
+      // Moving to the first word marks it seen; if it's already showing (a
+      // one-word pack), mark it here.
+      if (index === 0 && word) {
+        setSeen(await markPackWordSeen(pack.id, word.id));
+      } else {
+        setSeen([]);
+        setIndex(0);
+      }
+    } catch (error) {
+      console.warn("Resetting pack progress failed:", error);
+    }
+  };
+
+  if (notFound) return <NotFoundScreen />;
+
+  const total = pack?.wordIds.length ?? 0;
+  const learned = pack ? countSeen(pack, seen) : 0;
+  const isLast = index === total - 1;
+  const iconColor = isDarkMode ? "#fff" : "#000";
+
+  return (
+    <>
+      <Stack.Screen options={{ title: pack?.title ?? "Pack" }} />
+      <ScrollView contentContainerStyle={[styles.container, isDarkMode && styles.darkContainer]}>
+        {loading || (pack && !word && !error) ? (
+          <ActivityIndicator size="large" color={iconColor} />
+        ) : error ? (
+          <View style={styles.centered}>
+            <Text style={[styles.error, isDarkMode && styles.darkText]}>Error: {error}</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={fetchPack}>
+              <Text style={styles.retryButtonText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : pack && word ? (
+          <>
+            <View style={styles.progress}>
+              <Text style={[styles.progressText, isDarkMode && styles.darkSecondaryText]}>
+                Word {index + 1} of {total} · {learned === total ? "pack complete" : `${learned} seen`}
+              </Text>
+              <View style={[styles.progressTrack, isDarkMode && styles.darkProgressTrack]}>
+                <View style={[styles.progressFill, { width: `${(learned / total) * 100}%` }]} />
+              </View>
+            </View>
+
+            <WordCard key={word.id} word={word} />
+
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                style={[styles.stepButton, index === 0 && styles.disabled]}
+                onPress={() => setIndex(index - 1)}
+                disabled={index === 0}
+                accessibilityLabel="Previous word"
+              >
+                <Ionicons name="chevron-back" size={22} color={iconColor} />
+                <Text style={[styles.stepText, isDarkMode && styles.darkText]}>Previous</Text>
+              </TouchableOpacity>
+              {isLast && learned === total ? (
+                <TouchableOpacity style={styles.stepButton} onPress={startOver} accessibilityLabel="Start the pack over">
+                  <Text style={styles.link}>Start over</Text>
+                  <Ionicons name="refresh" size={20} color="#1E90FF" />
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity
+                  style={[styles.stepButton, isLast && styles.disabled]}
+                  onPress={() => setIndex(index + 1)}
+                  disabled={isLast}
+                  accessibilityLabel="Next word"
+                >
+                  <Text style={[styles.stepText, isDarkMode && styles.darkText]}>Next</Text>
+                  <Ionicons name="chevron-forward" size={22} color={iconColor} />
+                </TouchableOpacity>
+              )}
+            </View>
+          </>
+        ) : null}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+    backgroundColor: "#ffffff",
+  },
+  darkContainer: {
+    backgroundColor: "#121212",
+  },
+  centered: {
+    alignItems: "center",
+  },
+  progress: {
+    alignSelf: "stretch",
+    marginBottom: 15,
+  },
+  progressText: {
+    fontSize: 14,
+    color: "#666",
+    textAlign: "center",
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    marginTop: 8,
+    backgroundColor: "#e0e0e0",
+    overflow: "hidden",
+  },
+  darkProgressTrack: {
+    backgroundColor: "#333",
+  },
+  progressFill: {
+    height: "100%",
+    backgroundColor: "#1E90FF",
+  },
+  stepper: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignSelf: "stretch",
+    marginTop: 20,
+  },
+  stepButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+  },
+  stepText: {
+    fontSize: 16,
+    marginHorizontal: 4,
+  },
+  link: {
+    color: "#1E90FF",
+    fontSize: 16,
+    marginHorizontal: 4,
+  },
+  disabled: {
+    opacity: 0.3,
+  },
+  error: {
+    fontSize: 16,
+    color: "red",
+  },
+  darkText: {
+    color: "#ffffff",
+  },
+  darkSecondaryText: {
+    color: "#bbbbbb",
+  },
+  retryButton: {
+    marginTop: 15,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    backgroundColor: "#1E90FF",
+    borderRadius: 5,
+  },
+  retryButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+});
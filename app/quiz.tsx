@@ -0,0 +1,258 @@
+import React, { useEffect, useRef, useState } from "react";
+import { View, Text, StyleSheet, ActivityIndicator, ScrollView, TouchableOpacity, useColorScheme } from "react-native";
+import { Stack } from "expo-router";
+import { recordActivity } from "../services/activityLog";
+import {
+  availableKinds,
+  generateQuestion,
+  recordAnswer,
+  type QuestionKind,
+  type QuizQuestion,
+  type QuizScore,
+} from "../services/quizService";
+import { getTrackedWords } from "../services/reviewStore";
+import { getCachedDailyWord } from "../services/wordCache";
+import type { Word } from "../services/wordService";
+
+const QUIZ_LENGTH = 10;
+
+const KIND_TITLES: Record<QuestionKind, string> = {
+  definition: "What does this word mean?",
+  reverse: "Which word matches this definition?",
+  "fill-in": "Which word fills the blank?",
+};
+
+function pick<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+export default function QuizScreen() {
+  const [question, setQuestion] = useState<QuizQuestion | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [score, setScore] = useState<QuizScore>({ answered: 0, correct: 0 });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const pool = useRef<Word[]>([]);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === "dark";
+
+  // Quizzes draw from words the user has already seen, falling back to today's word.
+  const loadPool = async () => {
+    const tracked = await getTrackedWords();
+    pool.current = tracked.length > 0 ? tracked : [await getCachedDailyWord()];
+  };
+
+  const nextQuestion = async () => {
+    setLoading(true);
+    setError(null);
+    setSelected(null);
+    try {
+      if (pool.current.length === 0) await loadPool();
+      let next: QuizQuestion | null = null;
+      for (let attempt = 0; attempt < 3 && !next; attempt++) {
+        const target = pick(pool.current);
+        next = await generateQuestion(target, pick(availableKinds(target)));
+      }
+      if (!next) throw new Error("Couldn't build a question. Please try again.");
+      setQuestion(next);
+    } catch (error) {
+      console.error("Error generating quiz question:", error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    nextQuestion();
+  }, []);
+
+  const answer = (index: number) => {
+    if (!question || selected !== null) return;
+    setSelected(index);
+    setScore((prev) => recordAnswer(prev, question, index));
+    recordActivity("learn");
+  };
+
+  const restart = () => {
+    setScore({ answered: 0, correct: 0 });
+    nextQuestion();
+  };
+
+  const finished = score.answered >= QUIZ_LENGTH && selected === null;
+
+  return (
+    <>
+      <Stack.Screen options={{ title: "Quiz" }} />
+      <ScrollView contentContainerStyle={[styles.container, isDarkMode && styles.darkContainer]}>
+        <Text style={[styles.score, isDarkMode && styles.darkSecondaryText]}>
+          Score: {score.correct} / {score.answered}
+        </Text>
+
+        {finished ? (
+          <View style={styles.centered}>
+            <Text style={[styles.title, isDarkMode && styles.darkText]}>Quiz complete!</Text>
+            <Text style={[styles.summary, isDarkMode && styles.darkSecondaryText]}>
+              You got {score.correct} of {score.answered} right.
+            </Text>
+            <TouchableOpacity style={styles.primaryButton} onPress={restart}>
+              <Text style={styles.primaryButtonText}>Play again</Text>
+            </TouchableOpacity>
+          </View>
+        ) : loading ? (
+          <ActivityIndicator size="large" color={isDarkMode ? "#fff" : "#000"} />
+        ) : error ? (
+          <View style={styles.centered}>
+            <Text style={[styles.error, isDarkMode && styles.darkText]}>Error: {error}</Text>
+            <TouchableOpacity style={styles.primaryButton} onPress={nextQuestion}>
+              <Text style={styles.primaryButtonText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : question ? (
+          <>
+            <Text style={[styles.kind, isDarkMode && styles.darkSecondaryText]}>{KIND_TITLES[question.kind]}</Text>
+            <Text
+              style={[
+                question.kind === "definition" ? styles.promptWord : styles.prompt,
+                isDarkMode && styles.darkText,
+              ]}
+            >
+              {question.prompt}
+            </Text>
+
+            {question.choices.map((choice, index) => {
+              const isAnswer = index === question.answerIndex;
+              const isPicked = index === selected;
+              return (
+                <TouchableOpacity
+                  key={choice}
+                  style={[
+                    styles.choice,
+                    isDarkMode && styles.darkChoice,
+                    selected !== null && isAnswer && styles.correctChoice,
+                    isPicked && !isAnswer && styles.wrongChoice,
+                  ]}
+                  onPress={() => answer(index)}
+                  disabled={selected !== null}
+                >
+                  <Text style={[styles.choiceText, isDarkMode && styles.darkText]}>{choice}</Text>
+                </TouchableOpacity>
+              );
+            })}
+
+            {selected !== null && (
+              <>
+                <Text style={[styles.feedback, isDarkMode && styles.darkText]}>
+                  {selected === question.answerIndex ? "Correct! 🎉" : "Not quite."}
+                </Text>
+                <TouchableOpacity
+                  style={styles.primaryButton}
+                  onPress={() => (score.answered >= QUIZ_LENGTH ? setSelected(null) : nextQuestion())}
+                >
+                  <Text style={styles.primaryButtonText}>
+                    {score.answered >= QUIZ_LENGTH ? "See results" : "Next question"}
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </>
+        ) : null}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+    backgroundColor: "#ffffff",
+  },
+  darkContainer: {
+    backgroundColor: "#121212",
+  },
+  centered: {
+    alignItems: "center",
+  },
+  score: {
+    position: "absolute",
+    top: 16,
+    right: 20,
+    fontSize: 14,
+    color: "#666",
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  summary: {
+    fontSize: 16,
+    color: "#666",
+  },
+  kind: {
+    fontSize: 14,
+    color: "#666",
+    marginBottom: 10,
+  },
+  promptWord: {
+    fontSize: 36,
+    fontWeight: "bold",
+    marginBottom: 20,
+  },
+  prompt: {
+    fontSize: 18,
+    fontStyle: "italic",
+    textAlign: "center",
+    marginBottom: 20,
+  },
+  choice: {
+    width: "100%",
+    padding: 14,
+    marginVertical: 5,
+    borderRadius: 8,
+    backgroundColor: "#f0f0f0",
+  },
+  darkChoice: {
+    backgroundColor: "#333",
+  },
+  correctChoice: {
+    backgroundColor: "#30A46C",
+  },
+  wrongChoice: {
+    backgroundColor: "#E5484D",
+  },
+  choiceText: {
+    fontSize: 16,
+  },
+  feedback: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginTop: 15,
+  },
+  error: {
+    fontSize: 16,
+    color: "red",
+  },
+  darkSecondaryText: {
+    color: "#bbbbbb",
+  },
+  darkText: {
+    color: "#ffffff",
+  },
+  primaryButton: {
+    marginTop: 15,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    backgroundColor: "#1E90FF",
+    borderRadius: 5,
+  },
+  primaryButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+});
@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, StyleSheet, ActivityIndicator, FlatList, TouchableOpacity, useColorScheme } from "react-native";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { getWordsWithRoot, type RootWords } from "../../services/wordService";
+
+// /root/animus?language=Latin&from=equanimity: the root's meaning and every
+// other word whose origin names it. `from` is the word the user came from,
+// left out of the list.
+export default function RootScreen() {
+  const router = useRouter();
+  const { root, language, from } = useLocalSearchParams<{ root: string; language: string; from?: string }>();
+  const [result, setResult] = useState<RootWords | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === "dark";
+
+  const fetchRoot = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setResult(await getWordsWithRoot(language, root));
+    } catch (error) {
+      console.error("Error fetching root:", error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRoot();
+  }, [root, language]);
+
+  const others = result?.words.filter((word) => word.word !== from) ?? [];
+
+  return (
+    <>
+      <Stack.Screen options={{ title: root }} />
+      <FlatList
+        style={[styles.list, isDarkMode && styles.darkContainer]}
+        data={others}
+        keyExtractor={(item) => String(item.id)}
+        ListHeaderComponent={
+          <View style={[styles.header, isDarkMode && styles.darkRow]}>
+            <Text style={[styles.root, isDarkMode && styles.darkText]}>{root}</Text>
+            <Text style={[styles.language, isDarkMode && styles.darkSecondaryText]}>{language}</Text>
+            {result && result.meanings.length > 0 && (
+              <Text style={[styles.meaning, isDarkMode && styles.darkText]}>“{result.meanings.join("; ")}”</Text>
+            )}
+            {result && (
+              <Text style={[styles.count, isDarkMode && styles.darkSecondaryText]}>
+                {others.length === 0
+                  ? "No other words share this root yet."
+                  : `${others.length} other word${others.length === 1 ? "" : "s"} share${others.length === 1 ? "s" : ""} this root.`}
+              </Text>
+            )}
+          </View>
+        }
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            style={[styles.row, isDarkMode && styles.darkRow]}
+            onPress={() => router.push(`/word/${encodeURIComponent(item.word)}`)}
+          >
+            <Text style={[styles.word, isDarkMode && styles.darkText]}>{item.word}</Text>
+            <Text style={[styles.definition, isDarkMode && styles.darkSecondaryText]} numberOfLines={2}>
+              {item.definition}
+            </Text>
+          </TouchableOpacity>
+        )}
+        ListEmptyComponent={
+          loading ? (
+            <ActivityIndicator style={styles.centered} size="large" color={isDarkMode ? "#fff" : "#000"} />
+          ) : error ? (
+            <View style={styles.centered}>
+              <Text style={[styles.error, isDarkMode && styles.darkText]}>Error: {error}</Text>
+              <TouchableOpacity style={styles.retryButton} onPress={fetchRoot}>
+                <Text style={styles.retryButtonText}>Retry</Text>
+              </TouchableOpacity>
+            </View>
+          ) : null
+        }
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  list: {
+    flex: 1,
+    backgroundColor: "#ffffff",
+  },
+  darkContainer: {
+    backgroundColor: "#121212",
+  },
+  header: {
+    alignItems: "center",
+    padding: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "#ddd",
+  },
+  root: {
+    fontSize: 32,
+    fontWeight: "bold",
+    fontStyle: "italic",
+  },
+  language: {
+    fontSize: 16,
+    color: "#666",
+    marginTop: 4,
+  },
+  meaning: {
+    fontSize: 18,
+    marginTop: 10,
+    textAlign: "center",
+  },
+  count: {
+    fontSize: 14,
+    color: "#666",
+    marginTop: 10,
+  },
+  row: {
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "#ddd",
+  },
+  darkRow: {
+    borderBottomColor: "#333",
+  },
+  word: {
+    fontSize: 20,
+    fontWeight: "bold",
+  },
+  definition: {
+    fontSize: 14,
+    color: "#666",
+    marginTop: 2,
+  },
+  centered: {
+    alignItems: "center",
+    marginTop: 40,
+  },
+  error: {
+    fontSize: 16,
+    color: "red",
+  },
+  retryButton: {
+    marginTop: 15,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    backgroundColor: "#1E90FF",
+    borderRadius: 5,
+  },
+  retryButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  darkSecondaryText: {
+    color: "#bbbbbb",
+  },
+  darkText: {
+    color: "#ffffff",
+  },
+});
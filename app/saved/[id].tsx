@@ -0,0 +1,46 @@
+import React from "react";
+import { Text, StyleSheet, ScrollView, useColorScheme } from "react-native";
+import { Stack, useLocalSearchParams } from "expo-router";
+import { WordCard } from "../../components/WordCard";
+import { useFavorites } from "../../hooks/useFavorites";
+
+// Renders the saved snapshot, so saved words open offline.
+export default function SavedWordScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { favorites } = useFavorites();
+  const favorite = favorites.find((f) => String(f.id) === id);
+  const isDarkMode = useColorScheme() === "dark";
+
+  return (
+    <>
+      <Stack.Screen options={{ title: favorite?.word.word ?? "Saved" }} />
+      <ScrollView contentContainerStyle={[styles.container, isDarkMode && styles.darkContainer]}>
+        {favorite ? (
+          <WordCard word={favorite.word} />
+        ) : (
+          <Text style={[styles.empty, isDarkMode && styles.darkText]}>This word is no longer saved.</Text>
+        )}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+    backgroundColor: "#ffffff",
+  },
+  darkContainer: {
+    backgroundColor: "#121212",
+  },
+  empty: {
+    fontSize: 16,
+    color: "#666",
+  },
+  darkText: {
+    color: "#ffffff",
+  },
+});
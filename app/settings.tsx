@@ -0,0 +1,208 @@
+import React, { useCallback, useState } from "react";
+import { View, Text, StyleSheet, ScrollView, Switch, TouchableOpacity, useColorScheme } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect, useRouter } from "expo-router";
+import { requestNotificationPermissions, rescheduleUpcomingNotifications } from "../notifications";
+import { DEFAULT_PREFERENCES, getPreferences, updatePreferences, type Preferences } from "../services/preferences";
+import { WORD_TRACKS } from "../services/wordRotation";
+
+const MINUTE_STEP = 15;
+const MINUTES_PER_DAY = 24 * 60;
+
+// Sunday first, matching Date#getDay.
+const WEEKDAY_LABELS = ["S", "M", "T", "W", "T", "F", "S"];
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function formatTime(hour: number, minute: number): string {
+  return new Date(2000, 0, 1, hour, minute).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+}
+
+export default function SettingsScreen() {
+  const router = useRouter();
+  const [prefs, setPrefs] = useState<Preferences>(DEFAULT_PREFERENCES);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === "dark";
+
+  // On focus, so the track shows the new choice after coming back from it.
+  useFocusEffect(
+    useCallback(() => {
+      getPreferences().then(setPrefs);
+    }, [])
+  );
+
+  const save = async (patch: Partial<Preferences>) => {
+    setPrefs((prev) => ({ ...prev, ...patch }));
+    try {
+      const next = await updatePreferences(patch);
+      if (patch.notificationsEnabled) await requestNotificationPermissions();
+      await rescheduleUpcomingNotifications(next);
+    } catch (error) {
+      console.error("Error saving notification settings:", error);
+    }
+  };
+
+  const shiftTime = (delta: number) => {
+    const minutes = prefs.notificationHour * 60 + prefs.notificationMinute;
+    const next = (minutes + delta + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    save({ notificationHour: Math.floor(next / 60), notificationMinute: next % 60 });
+  };
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = prefs.notificationWeekdays.includes(day)
+      ? prefs.notificationWeekdays.filter((d) => d !== day)
+      : [...prefs.notificationWeekdays, day].sort((a, b) => a - b);
+    save({ notificationWeekdays: weekdays });
+  };
+
+  const enabled = prefs.notificationsEnabled;
+  const iconColor = isDarkMode ? "#fff" : "#000";
+  const track = WORD_TRACKS.find(({ id }) => id === prefs.wordTrack) ?? WORD_TRACKS[0];
+
+  return (
+    <ScrollView contentContainerStyle={[styles.container, isDarkMode && styles.darkContainer]}>
+      <TouchableOpacity style={[styles.setting, isDarkMode && styles.darkSetting]} onPress={() => router.push("/track")}>
+        <View style={styles.settingText}>
+          <Text style={[styles.settingTitle, isDarkMode && styles.darkText]}>Word track</Text>
+          <Text style={[styles.settingDescription, isDarkMode && styles.darkSecondaryText]}>{track.label}</Text>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color={iconColor} />
+      </TouchableOpacity>
+
+      <View style={[styles.setting, isDarkMode && styles.darkSetting]}>
+        <View style={styles.settingText}>
+          <Text style={[styles.settingTitle, isDarkMode && styles.darkText]}>Daily notification</Text>
+          <Text style={[styles.settingDescription, isDarkMode && styles.darkSecondaryText]}>
+            {enabled ? "A reminder to learn your new word." : "Quiet mode: no reminders."}
+          </Text>
+        </View>
+        <Switch value={enabled} onValueChange={(value) => save({ notificationsEnabled: value })} />
+      </View>
+
+      <View style={[styles.setting, isDarkMode && styles.darkSetting, !enabled && styles.disabled]}>
+        <Text style={[styles.settingTitle, styles.settingText, isDarkMode && styles.darkText]}>Time</Text>
+        <TouchableOpacity
+          onPress={() => shiftTime(-MINUTE_STEP)}
+          disabled={!enabled}
+          accessibilityLabel="Earlier"
+          hitSlop={10}
+        >
+          <Ionicons name="remove-circle-outline" size={26} color={iconColor} />
+        </TouchableOpacity>
+        <Text style={[styles.time, isDarkMode && styles.darkText]}>
+          {formatTime(prefs.notificationHour, prefs.notificationMinute)}
+        </Text>
+        <TouchableOpacity
+          onPress={() => shiftTime(MINUTE_STEP)}
+          disabled={!enabled}
+          accessibilityLabel="Later"
+          hitSlop={10}
+        >
+          <Ionicons name="add-circle-outline" size={26} color={iconColor} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={[styles.setting, styles.column, isDarkMode && styles.darkSetting, !enabled && styles.disabled]}>
+        <Text style={[styles.settingTitle, isDarkMode && styles.darkText]}>Days</Text>
+        <View style={styles.weekdays}>
+          {WEEKDAY_LABELS.map((label, day) => {
+            const active = prefs.notificationWeekdays.includes(day);
+            return (
+              <TouchableOpacity
+                key={day}
+                style={[styles.weekday, isDarkMode && styles.darkWeekday, active && styles.activeWeekday]}
+                onPress={() => toggleWeekday(day)}
+                disabled={!enabled}
+                accessibilityLabel={WEEKDAY_NAMES[day]}
+                accessibilityState={{ selected: active }}
+              >
+                <Text style={[styles.weekdayText, isDarkMode && styles.darkText, active && styles.activeWeekdayText]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 20,
+    backgroundColor: "#ffffff",
+  },
+  darkContainer: {
+    backgroundColor: "#121212",
+  },
+  setting: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 15,
+    padding: 15,
+    borderRadius: 10,
+    backgroundColor: "#f0f0f0",
+  },
+  darkSetting: {
+    backgroundColor: "#333",
+  },
+  column: {
+    flexDirection: "column",
+    alignItems: "stretch",
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  settingText: {
+    flex: 1,
+    marginRight: 10,
+  },
+  settingTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  settingDescription: {
+    fontSize: 14,
+    color: "#666",
+    marginTop: 2,
+  },
+  time: {
+    fontSize: 16,
+    minWidth: 90,
+    textAlign: "center",
+  },
+  weekdays: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 12,
+  },
+  weekday: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "#e0e0e0",
+  },
+  darkWeekday: {
+    backgroundColor: "#444",
+  },
+  activeWeekday: {
+    backgroundColor: "#1E90FF",
+  },
+  weekdayText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  activeWeekdayText: {
+    color: "#ffffff",
+  },
+  darkSecondaryText: {
+    color: "#bbbbbb",
+  },
+  darkText: {
+    color: "#ffffff",
+  },
+});
@@ -0,0 +1,175 @@
+import React, { useCallback, useState } from "react";
+import { View, Text, StyleSheet, ScrollView, Switch, TouchableOpacity, useColorScheme } from "react-native";
+import { Stack, useFocusEffect } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { CalendarHeatmap, type HeatLevel } from "../components/CalendarHeatmap";
+import { getActivity } from "../services/activityLog";
+import { deviceTimeZone, toDayKey } from "../services/dates";
+import { getPreferences, updatePreferences } from "../services/preferences";
+import { computeStreaks, groupActivityDays, type ActivityEvent } from "../services/streaks";
+
+export default function StatsScreen() {
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [freeze, setFreeze] = useState(false);
+  const timeZone = deviceTimeZone();
+  const today = toDayKey(new Date(), timeZone);
+  const [month, setMonth] = useState({ year: Number(today.slice(0, 4)), month: Number(today.slice(5, 7)) });
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === "dark";
+
+  useFocusEffect(
+    useCallback(() => {
+      getActivity().then(setEvents);
+      getPreferences().then((prefs) => setFreeze(prefs.streakFreeze));
+    }, [])
+  );
+
+  const toggleFreeze = async (value: boolean) => {
+    setFreeze(value);
+    await updatePreferences({ streakFreeze: value });
+  };
+
+  const shiftMonth = (delta: number) => {
+    setMonth(({ year, month }) => {
+      const index = year * 12 + (month - 1) + delta;
+      return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+    });
+  };
+
+  const streaks = computeStreaks(events, new Date(), timeZone, { freeze });
+  const levels: Record<string, HeatLevel> = {};
+  for (const day of groupActivityDays(events)) {
+    levels[day.key] = day.kinds.includes("learn") ? 2 : 1;
+  }
+
+  const monthLabel = new Date(Date.UTC(month.year, month.month - 1, 1)).toLocaleDateString(undefined, {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+  const isCurrentMonth = `${month.year}-${String(month.month).padStart(2, "0")}` === today.slice(0, 7);
+
+  return (
+    <>
+      <Stack.Screen options={{ title: "Stats" }} />
+      <ScrollView contentContainerStyle={[styles.container, isDarkMode && styles.darkContainer]}>
+        <View style={styles.streakRow}>
+          <View style={styles.streakBox}>
+            <Text style={[styles.streakNumber, isDarkMode && styles.darkText]}>🔥 {streaks.current}</Text>
+            <Text style={[styles.streakLabel, isDarkMode && styles.darkSecondaryText]}>Current streak</Text>
+          </View>
+          <View style={styles.streakBox}>
+            <Text style={[styles.streakNumber, isDarkMode && styles.darkText]}>🏆 {streaks.longest}</Text>
+            <Text style={[styles.streakLabel, isDarkMode && styles.darkSecondaryText]}>Longest streak</Text>
+          </View>
+        </View>
+
+        <View style={styles.monthHeader}>
+          <TouchableOpacity onPress={() => shiftMonth(-1)} accessibilityLabel="Previous month" hitSlop={10}>
+            <Ionicons name="chevron-back" size={22} color={isDarkMode ? "#fff" : "#000"} />
+          </TouchableOpacity>
+          <Text style={[styles.monthLabel, isDarkMode && styles.darkText]}>{monthLabel}</Text>
+          <TouchableOpacity
+            onPress={() => shiftMonth(1)}
+            disabled={isCurrentMonth}
+            accessibilityLabel="Next month"
+            hitSlop={10}
+          >
+            <Ionicons
+              name="chevron-forward"
+              size={22}
+              color={isCurrentMonth ? "#999" : isDarkMode ? "#fff" : "#000"}
+            />
+          </TouchableOpacity>
+        </View>
+        <CalendarHeatmap
+          year={month.year}
+          month={month.month}
+          levels={levels}
+          frozenDays={streaks.frozenDays}
+          today={today}
+        />
+
+        <View style={[styles.setting, isDarkMode && styles.darkSetting]}>
+          <View style={styles.settingText}>
+            <Text style={[styles.settingTitle, isDarkMode && styles.darkText]}>Streak freeze</Text>
+            <Text style={[styles.settingDescription, isDarkMode && styles.darkSecondaryText]}>
+              Missing a single day won&apos;t break your streak, once a week.
+            </Text>
+          </View>
+          <Switch value={freeze} onValueChange={toggleFreeze} />
+        </View>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    alignItems: "center",
+    padding: 20,
+    backgroundColor: "#ffffff",
+  },
+  darkContainer: {
+    backgroundColor: "#121212",
+  },
+  streakRow: {
+    flexDirection: "row",
+    marginBottom: 24,
+  },
+  streakBox: {
+    alignItems: "center",
+    marginHorizontal: 20,
+  },
+  streakNumber: {
+    fontSize: 32,
+    fontWeight: "bold",
+  },
+  streakLabel: {
+    fontSize: 14,
+    color: "#666",
+  },
+  monthHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    width: 308,
+    marginBottom: 8,
+  },
+  monthLabel: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  setting: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 30,
+    padding: 15,
+    borderRadius: 10,
+    backgroundColor: "#f0f0f0",
+  },
+  darkSetting: {
+    backgroundColor: "#333",
+  },
+  settingText: {
+    flex: 1,
+    marginRight: 10,
+  },
+  settingTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  settingDescription: {
+    fontSize: 14,
+    color: "#666",
+    marginTop: 2,
+  },
+  darkSecondaryText: {
+    color: "#bbbbbb",
+  },
+  darkText: {
+    color: "#ffffff",
+  },
+});
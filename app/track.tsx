@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, useColorScheme } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { rescheduleUpcomingNotifications } from "../notifications";
+import { getPreferences } from "../services/preferences";
+import { refreshWordCache } from "../services/wordCache";
+import {
+  getWordRotation,
+  setWordTrack,
+  trackRotationStarted,
+  WORD_TRACKS,
+  type WordTrack,
+} from "../services/wordRotation";
+import { getWordDay } from "../services/wordService";
+
+// Picks the rotation the daily word comes from. Switching downloads the
+// track's words, so it needs a connection.
+export default function TrackScreen() {
+  const [track, setTrack] = useState<WordTrack | null>(null);
+  const [switching, setSwitching] = useState<WordTrack | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The switch went through but upcoming notifications and the widget still
+  // name the old track's words.
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === "dark";
+
+  useEffect(() => {
+    getPreferences().then((prefs) => setTrack(prefs.wordTrack));
+  }, []);
+
+  const choose = async (next: WordTrack) => {
+    if (next === track || switching) return;
+    setSwitching(next);
+    setError(null);
+    setRefreshError(null);
+    try {
+      await setWordTrack(next);
+    } catch (error) {
+      console.error("Error switching word track:", error);
+      setError(error instanceof Error ? error.message : String(error));
+      setSwitching(null);
+      return;
+    }
+    setTrack(next);
+    try {
+      // Upcoming notifications and the widget name the old track's words.
+      await refreshWordCache();
+      await rescheduleUpcomingNotifications();
+    } catch (error) {
+      console.warn("Refreshing upcoming words after a track switch failed:", error);
+      setRefreshError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSwitching(null);
+    }
+  };
+
+  const today = getWordDay();
+
+  return (
+    <ScrollView contentContainerStyle={[styles.container, isDarkMode && styles.darkContainer]}>
+      <Text style={[styles.intro, isDarkMode && styles.darkSecondaryText]}>
+        Each track has its own daily rotation. A track that hasn&apos;t started yet gives you the Everything
+        word until it does.
+      </Text>
+      {WORD_TRACKS.map(({ id, label, description }) => {
+        const selected = id === track;
+        const started = id === "all" || trackRotationStarted(getWordRotation(), id, today);
+        return (
+          <TouchableOpacity
+            key={id}
+            style={[styles.option, isDarkMode && styles.darkOption, selected && styles.selectedOption]}
+            onPress={() => choose(id)}
+            disabled={switching !== null}
+            accessibilityRole="radio"
+            accessibilityState={{ selected, busy: switching === id }}
+          >
+            <View style={styles.optionText}>
+              <Text style={[styles.optionTitle, isDarkMode && styles.darkText]}>{label}</Text>
+              <Text style={[styles.optionDescription, isDarkMode && styles.darkSecondaryText]}>{description}</Text>
+              {!started && (
+                <Text style={[styles.optionNote, isDarkMode && styles.darkSecondaryText]}>
+                  Not started yet: same word as Everything for now.
+                </Text>
+              )}
+            </View>
+            {switching === id ? (
+              <ActivityIndicator color={isDarkMode ? "#fff" : "#000"} />
+            ) : (
+              selected && <Ionicons name="checkmark" size={22} color="#1E90FF" />
+            )}
+          </TouchableOpacity>
+        );
+      })}
+      {error && <Text style={styles.error}>Couldn&apos;t switch tracks: {error}</Text>}
+      {refreshError && (
+        <Text style={[styles.warning, isDarkMode && styles.darkSecondaryText]}>
+          Switched, but upcoming notifications and the widget couldn&apos;t be updated yet: {refreshError}
+        </Text>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 20,
+    backgroundColor: "#ffffff",
+  },
+  darkContainer: {
+    backgroundColor: "#121212",
+  },
+  intro: {
+    fontSize: 14,
+    color: "#666",
+    marginBottom: 15,
+  },
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 15,
+    padding: 15,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: "transparent",
+    backgroundColor: "#f0f0f0",
+  },
+  darkOption: {
+    backgroundColor: "#333",
+  },
+  selectedOption: {
+    borderColor: "#1E90FF",
+  },
+  optionText: {
+    flex: 1,
+    marginRight: 10,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  optionDescription: {
+    fontSize: 14,
+    color: "#666",
+    marginTop: 2,
+  },
+  optionNote: {
+    fontSize: 13,
+    fontStyle: "italic",
+    color: "#666",
+    marginTop: 4,
+  },
+  error: {
+    fontSize: 14,
+    color: "red",
+    textAlign: "center",
+  },
+  warning: {
+    fontSize: 14,
+    color: "#666",
+    textAlign: "center",
+  },
+  darkSecondaryText: {
+    color: "#bbbbbb",
+  },
+  darkText: {
+    color: "#ffffff",
+  },
+});
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, StyleSheet, ActivityIndicator, ScrollView, TouchableOpacity, useColorScheme } from "react-native";
+import { Stack, useLocalSearchParams } from "expo-router";
+import { WordCard } from "../../components/WordCard";
+import { recordWordViewed } from "../../services/reviewStore";
+import { dayKeyToUTCDate } from "../../services/dates";
+import { getWordForDay } from "../../services/wordCache";
+import { getWordByText, parseWordKey, type Word } from "../../services/wordService";
+import NotFoundScreen from "../+not-found";
+
+// /word/2026-10-19 shows that day's word; /word/ephemeral looks the word up.
+export default function WordScreen() {
+  const { key } = useLocalSearchParams<{ key: string }>();
+  const parsed = parseWordKey(key);
+  const [wordData, setWordData] = useState<Word | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === "dark";
+
+  const fetchWord = async () => {
+    if (!parsed) return;
+    setLoading(true);
+    setError(null);
+    setNotFound(false);
+    try {
+      const data = "day" in parsed ? await getWordForDay(parsed.day) : await getWordByText(parsed.word);
+      if (!data) {
+        setNotFound(true);
+        return;
+      }
+      setWordData(data);
+      recordWordViewed(data).catch((error) => console.warn("Recording word view failed:", error));
+    } catch (error) {
+      console.error("Error fetching word:", error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchWord();
+  }, [key]);
+
+  if (!parsed || notFound) return <NotFoundScreen />;
+
+  const title =
+    "day" in parsed
+      ? dayKeyToUTCDate(parsed.day).toLocaleDateString(undefined, { month: "long", day: "numeric", year: "numeric", timeZone: "UTC" })
+      : "Word";
+
+  return (
+    <>
+      <Stack.Screen options={{ title }} />
+      <ScrollView contentContainerStyle={[styles.container, isDarkMode && styles.darkContainer]}>
+        {loading ? (
+          <ActivityIndicator size="large" color={isDarkMode ? "#fff" : "#000"} />
+        ) : error ? (
+          <View style={styles.centered}>
+            <Text style={[styles.error, isDarkMode && styles.darkText]}>Error: {error}</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={fetchWord}>
+              <Text style={styles.retryButtonText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : wordData ? (
+          <WordCard word={wordData} />
+        ) : null}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+    backgroundColor: "#ffffff",
+  },
+  darkContainer: {
+    backgroundColor: "#121212",
+  },
+  centered: {
+    alignItems: "center",
+  },
+  error: {
+    fontSize: 16,
+    color: "red",
+  },
+  darkText: {
+    color: "#ffffff",
+  },
+  retryButton: {
+    marginTop: 15,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    backgroundColor: "#1E90FF",
+    borderRadius: 5,
+  },
+  retryButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+});
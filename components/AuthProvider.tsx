@@ -0,0 +1,76 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from "react";
+import { AppState } from "react-native";
+import type { Session, User } from "@supabase/supabase-js";
+import { ensureSession, isAnonymous } from "../services/auth";
+import { syncFavorites } from "../services/favorites";
+import { supabase } from "../services/supabase";
+
+interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  // True until the first session (persisted or anonymous) is available.
+  loading: boolean;
+  isAnonymous: boolean;
+}
+
+const AuthContext = createContext<AuthContextValue>({
+  session: null,
+  user: null,
+  loading: true,
+  isAnonymous: true,
+});
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  const signingIn = useRef<Promise<void> | null>(null);
+
+  // Offline first launches stay signed out; everything local still works, and
+  // the sign-in is retried each time the app comes back to the foreground.
+  const signIn = () => {
+    signingIn.current ??= ensureSession()
+      .then(setSession)
+      .catch((error) => console.warn("Anonymous sign-in failed:", error))
+      .finally(() => {
+        signingIn.current = null;
+        setLoading(false);
+      });
+  };
+
+  useEffect(() => {
+    signIn();
+
+    const { data } = supabase.auth.onAuthStateChange((event, next) => {
+      setSession(next);
+      if (event === "SIGNED_IN" || event === "USER_UPDATED") {
+        syncFavorites().catch((error) => console.warn("Favorites sync failed:", error));
+      }
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  // Token refresh timers only run while the app is in the foreground.
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") {
+        // Returns the stored session without a request once signed in.
+        signIn();
+        supabase.auth.startAutoRefresh();
+      } else {
+        supabase.auth.stopAutoRefresh();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  const user = session?.user ?? null;
+  return (
+    <AuthContext.Provider value={{ session, user, loading, isAnonymous: isAnonymous(user) }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth(): AuthContextValue {
+  return useContext(AuthContext);
+}
@@ -0,0 +1,129 @@
+import React from "react";
+import { View, Text, StyleSheet, useColorScheme } from "react-native";
+import { addDays, dayKeyToUTCDate } from "../services/dates";
+
+// 0 = no activity, 1 = opened, 2 = learned (reviewed or quizzed)
+export type HeatLevel = 0 | 1 | 2;
+
+const WEEKDAYS = ["S", "M", "T", "W", "T", "F", "S"];
+const LIGHT_LEVELS = ["#ebedf0", "#9be9a8", "#30a14e"];
+const DARK_LEVELS = ["#2a2a2a", "#0e4429", "#26a641"];
+const FROZEN_COLOR = "#7cc4fa";
+
+interface Props {
+  year: number;
+  month: number; // 1-12
+  levels: Record<string, HeatLevel>;
+  frozenDays: string[];
+  today: string;
+}
+
+export function CalendarHeatmap({ year, month, levels, frozenDays, today }: Props) {
+  const isDarkMode = useColorScheme() === "dark";
+  const palette = isDarkMode ? DARK_LEVELS : LIGHT_LEVELS;
+
+  const first = `${year}-${String(month).padStart(2, "0")}-01`;
+  const leading = dayKeyToUTCDate(first).getUTCDay();
+  const cells: Array<string | null> = Array(leading).fill(null);
+  for (let key = first; key.slice(0, 7) === first.slice(0, 7); key = addDays(key, 1)) {
+    cells.push(key);
+  }
+  while (cells.length % 7 !== 0) cells.push(null);
+
+  return (
+    <View>
+      <View style={styles.row}>
+        {WEEKDAYS.map((day, i) => (
+          <Text key={i} style={[styles.weekday, isDarkMode && styles.darkSecondaryText]}>{day}</Text>
+        ))}
+      </View>
+      {Array.from({ length: cells.length / 7 }, (_, week) => (
+        <View key={week} style={styles.row}>
+          {cells.slice(week * 7, week * 7 + 7).map((key, i) => (
+            <View
+              key={key ?? `blank-${week}-${i}`}
+              style={[
+                styles.cell,
+                key && {
+                  backgroundColor: frozenDays.includes(key) ? FROZEN_COLOR : palette[levels[key] ?? 0],
+                },
+                key === today && styles.today,
+              ]}
+              accessibilityLabel={key ?? undefined}
+            >
+              {key && (
+                <Text style={[styles.dayNumber, isDarkMode && styles.darkSecondaryText]}>
+                  {Number(key.slice(8))}
+                </Text>
+              )}
+            </View>
+          ))}
+        </View>
+      ))}
+      <View style={styles.legend}>
+        {[
+          { color: palette[1], label: "Opened" },
+          { color: palette[2], label: "Learned" },
+          { color: FROZEN_COLOR, label: "Frozen" },
+        ].map(({ color, label }) => (
+          <View key={label} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: color }]} />
+            <Text style={[styles.legendLabel, isDarkMode && styles.darkSecondaryText]}>{label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+  },
+  weekday: {
+    width: 40,
+    margin: 2,
+    textAlign: "center",
+    fontSize: 12,
+    color: "#666",
+  },
+  cell: {
+    width: 40,
+    height: 40,
+    margin: 2,
+    borderRadius: 6,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  today: {
+    borderWidth: 2,
+    borderColor: "#1E90FF",
+  },
+  dayNumber: {
+    fontSize: 12,
+    color: "#555",
+  },
+  legend: {
+    flexDirection: "row",
+    justifyContent: "center",
+    marginTop: 10,
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginHorizontal: 8,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 3,
+    marginRight: 4,
+  },
+  legendLabel: {
+    fontSize: 12,
+    color: "#666",
+  },
+  darkSecondaryText: {
+    color: "#bbbbbb",
+  },
+});
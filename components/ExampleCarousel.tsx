@@ -0,0 +1,174 @@
+import React, { useRef, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  AccessibilityInfo,
+  useColorScheme,
+  type AccessibilityActionEvent,
+  type NativeScrollEvent,
+  type NativeSyntheticEvent,
+} from "react-native";
+import { splitWordForms } from "../services/wordForms";
+
+interface ExampleCarouselProps {
+  word: string;
+  examples: string[];
+  width: number;
+}
+
+// Horizontally paging example sentences with page dots. The word (and its
+// inflections) is highlighted in each sentence, and screen readers can swipe
+// up/down to change page and hear which example they're on.
+export function ExampleCarousel({ word, examples, width }: ExampleCarouselProps) {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<FlatList<string>>(null);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === "dark";
+
+  const pageLabel = (index: number) => `Example ${index + 1} of ${examples.length}`;
+
+  const showPage = (index: number) => {
+    if (index === activeIndex) return;
+    setActiveIndex(index);
+    AccessibilityInfo.announceForAccessibility(`${pageLabel(index)}: ${examples[index]}`);
+  };
+
+  const goTo = (index: number) => {
+    if (index < 0 || index >= examples.length) return;
+    listRef.current?.scrollToIndex({ index, animated: true });
+    showPage(index);
+  };
+
+  const onMomentumScrollEnd = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    showPage(Math.round(event.nativeEvent.contentOffset.x / width));
+  };
+
+  const onAccessibilityAction = (event: AccessibilityActionEvent) => {
+    if (event.nativeEvent.actionName === "increment") goTo(activeIndex + 1);
+    if (event.nativeEvent.actionName === "decrement") goTo(activeIndex - 1);
+  };
+
+  const multiple = examples.length > 1;
+
+  return (
+    <View>
+      <View
+        accessible
+        accessibilityRole={multiple ? "adjustable" : "text"}
+        accessibilityLabel={multiple ? `${pageLabel(activeIndex)}: ${examples[activeIndex]}` : examples[0]}
+        accessibilityActions={multiple ? [{ name: "increment" }, { name: "decrement" }] : undefined}
+        onAccessibilityAction={onAccessibilityAction}
+      >
+        <FlatList
+          ref={listRef}
+          data={examples}
+          keyExtractor={(_, index) => String(index)}
+          horizontal
+          pagingEnabled
+          showsHorizontalScrollIndicator={false}
+          scrollEnabled={multiple}
+          onMomentumScrollEnd={onMomentumScrollEnd}
+          getItemLayout={(_, index) => ({ length: width, offset: width * index, index })}
+          style={{ width }}
+          renderItem={({ item }) => (
+            <View style={[styles.page, { width }]}>
+              <View style={[styles.exampleContainer, isDarkMode && styles.darkExampleContainer]}>
+                <Text style={[styles.exampleTitle, isDarkMode && styles.darkText]}>Example:</Text>
+                <Text style={[styles.exampleText, isDarkMode && styles.darkText]}>
+                  {splitWordForms(item, word).map((segment, i) =>
+                    segment.highlight ? (
+                      <Text key={i} style={styles.highlight}>
+                        {segment.text}
+                      </Text>
+                    ) : (
+                      segment.text
+                    )
+                  )}
+                </Text>
+              </View>
+            </View>
+          )}
+        />
+      </View>
+
+      {multiple && (
+        <View style={styles.dots}>
+          {examples.map((_, index) => (
+            <TouchableOpacity
+              key={index}
+              onPress={() => goTo(index)}
+              hitSlop={6}
+              accessibilityRole="button"
+              accessibilityLabel={`Show example ${index + 1}`}
+              accessibilityState={{ selected: index === activeIndex }}
+            >
+              <View
+                style={[styles.dot, isDarkMode && styles.darkDot, index === activeIndex && styles.activeDot]}
+              />
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  page: {
+    paddingVertical: 6,
+    paddingHorizontal: 2,
+  },
+  exampleContainer: {
+    minHeight: 160,
+    padding: 15,
+    backgroundColor: "#f0f0f0",
+    borderRadius: 10,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 3,
+    justifyContent: "center",
+  },
+  darkExampleContainer: {
+    backgroundColor: "#333",
+  },
+  exampleTitle: {
+    fontWeight: "bold",
+    fontSize: 16,
+    marginBottom: 5,
+  },
+  exampleText: {
+    fontSize: 16,
+    textAlign: "center",
+  },
+  highlight: {
+    fontWeight: "bold",
+    color: "#1E90FF",
+  },
+  dots: {
+    flexDirection: "row",
+    justifyContent: "center",
+    marginTop: 10,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginHorizontal: 4,
+    backgroundColor: "#ccc",
+  },
+  darkDot: {
+    backgroundColor: "#555",
+  },
+  activeDot: {
+    backgroundColor: "#1E90FF",
+  },
+  darkText: {
+    color: "#ffffff",
+  },
+});
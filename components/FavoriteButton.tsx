@@ -0,0 +1,34 @@
+import React from "react";
+import { TouchableOpacity, StyleSheet, useColorScheme } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useFavorites } from "../hooks/useFavorites";
+import type { Word } from "../services/wordService";
+
+export function FavoriteButton({ word }: { word: Word }) {
+  const { isFavorite, toggle } = useFavorites();
+  const saved = isFavorite(word.id);
+  const isDarkMode = useColorScheme() === "dark";
+
+  return (
+    <TouchableOpacity
+      style={styles.button}
+      onPress={() => toggle(word)}
+      accessibilityRole="button"
+      accessibilityLabel={saved ? `Remove ${word.word} from saved words` : `Save ${word.word}`}
+      hitSlop={10}
+    >
+      <Ionicons
+        name={saved ? "star" : "star-outline"}
+        size={28}
+        color={saved ? "#F5B301" : isDarkMode ? "#bbbbbb" : "#666"}
+      />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    marginLeft: 12,
+    marginBottom: 8,
+  },
+});
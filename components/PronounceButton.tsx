@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from "react";
+import { View, Text, TouchableOpacity, StyleSheet, useColorScheme } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { getPreferences, updatePreferences, type PronunciationRate } from "../services/preferences";
+import { pronounce, stopPronunciation } from "../services/pronunciation";
+import type { Word } from "../services/wordService";
+
+// Speaker button plus a normal/slow toggle; the speed is remembered.
+export function PronounceButton({ word }: { word: Word }) {
+  const [rate, setRate] = useState<PronunciationRate>("normal");
+  // The last pronunciation this button started; unmounting stops only that.
+  const playback = useRef<number | null>(null);
+  const isDarkMode = useColorScheme() === "dark";
+
+  useEffect(() => {
+    getPreferences().then((prefs) => setRate(prefs.pronunciationRate));
+    return () => {
+      if (playback.current !== null) stopPronunciation(playback.current);
+    };
+  }, []);
+
+  const play = () => {
+    pronounce(word, rate)
+      .then((id) => (playback.current = id))
+      .catch((error) => console.error("Error playing pronunciation:", error));
+  };
+
+  const toggleRate = () => {
+    const next = rate === "normal" ? "slow" : "normal";
+    setRate(next);
+    updatePreferences({ pronunciationRate: next }).catch((error) =>
+      console.warn("Saving pronunciation rate failed:", error)
+    );
+  };
+
+  const color = isDarkMode ? "#bbbbbb" : "#666";
+
+  return (
+    <View style={styles.row}>
+      <TouchableOpacity
+        onPress={play}
+        accessibilityRole="button"
+        accessibilityLabel={`Pronounce ${word.word}`}
+        hitSlop={10}
+      >
+        <Ionicons name="volume-high-outline" size={24} color={color} />
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.rate, rate === "slow" && styles.rateActive]}
+        onPress={toggleRate}
+        accessibilityRole="switch"
+        accessibilityLabel="Slow pronunciation"
+        accessibilityState={{ checked: rate === "slow" }}
+        hitSlop={10}
+      >
+        <Text style={[styles.rateText, { color }, rate === "slow" && styles.rateTextActive]}>
+          {rate === "slow" ? "0.6×" : "1×"}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginLeft: 10,
+  },
+  rate: {
+    marginLeft: 8,
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#999",
+  },
+  rateActive: {
+    backgroundColor: "#1E90FF",
+    borderColor: "#1E90FF",
+  },
+  rateText: {
+    fontSize: 12,
+    fontWeight: "bold",
+  },
+  rateTextActive: {
+    color: "#ffffff",
+  },
+});
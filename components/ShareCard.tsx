@@ -0,0 +1,140 @@
+import React, { forwardRef } from "react";
+import { View, Text, StyleSheet } from "react-native";
+import type { Word } from "../services/wordService";
+
+export type ShareCardLayout = "classic" | "bold";
+export type ShareCardTheme = "light" | "dark";
+
+// Fixed size so every captured PNG comes out the same, whatever the device.
+export const SHARE_CARD_WIDTH = 320;
+export const SHARE_CARD_HEIGHT = 400;
+
+interface ShareCardProps {
+  word: Word;
+  layout: ShareCardLayout;
+  theme: ShareCardTheme;
+}
+
+// The image that gets shared: word, phonetic, part of speech, definition and
+// the first example. Forwards its ref so it can be captured with view-shot.
+export const ShareCard = forwardRef<View, ShareCardProps>(function ShareCard({ word, layout, theme }, ref) {
+  const dark = theme === "dark";
+  const bold = layout === "bold";
+
+  return (
+    <View
+      ref={ref}
+      collapsable={false}
+      style={[styles.card, dark && styles.darkCard, bold && styles.boldCard, bold && dark && styles.darkBoldCard]}
+    >
+      <Text style={[styles.label, (dark || bold) && styles.lightLabel]}>WORD OF THE DAY</Text>
+      <View style={styles.body}>
+        <Text style={[styles.word, bold && styles.boldWord, (dark || bold) && styles.lightText]} numberOfLines={2} adjustsFontSizeToFit>
+          {word.word}
+        </Text>
+        {(word.phonetic || word.part_of_speech) && (
+          <Text style={[styles.meta, (dark || bold) && styles.lightSecondaryText]}>
+            {[word.phonetic && `[${word.phonetic}]`, word.part_of_speech].filter(Boolean).join("  ·  ")}
+          </Text>
+        )}
+        <Text style={[styles.definition, (dark || bold) && styles.lightText]} numberOfLines={5}>
+          {word.definition}
+        </Text>
+        {word.examples?.length > 0 && (
+          <Text
+            style={[styles.example, dark && !bold && styles.darkExample, bold && styles.boldExample, (dark || bold) && styles.lightSecondaryText]}
+            numberOfLines={4}
+          >
+            “{word.examples[0]}”
+          </Text>
+        )}
+      </View>
+      <Text style={[styles.footer, (dark || bold) && styles.lightLabel]}>VocabuDaily</Text>
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  card: {
+    width: SHARE_CARD_WIDTH,
+    height: SHARE_CARD_HEIGHT,
+    padding: 24,
+    borderRadius: 16,
+    backgroundColor: "#ffffff",
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: "#ddd",
+  },
+  darkCard: {
+    backgroundColor: "#121212",
+    borderColor: "#333",
+  },
+  boldCard: {
+    backgroundColor: "#1E90FF",
+    borderWidth: 0,
+  },
+  darkBoldCard: {
+    backgroundColor: "#0B3D6B",
+  },
+  body: {
+    flex: 1,
+    justifyContent: "center",
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: "bold",
+    letterSpacing: 2,
+    color: "#999",
+  },
+  lightLabel: {
+    color: "rgba(255, 255, 255, 0.7)",
+  },
+  word: {
+    fontSize: 36,
+    fontWeight: "bold",
+    color: "#000",
+  },
+  boldWord: {
+    fontSize: 44,
+  },
+  meta: {
+    fontSize: 15,
+    fontStyle: "italic",
+    color: "#666",
+    marginTop: 4,
+    marginBottom: 14,
+  },
+  definition: {
+    fontSize: 17,
+    lineHeight: 24,
+    color: "#222",
+  },
+  example: {
+    fontSize: 15,
+    lineHeight: 21,
+    fontStyle: "italic",
+    color: "#555",
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: "#f0f0f0",
+    overflow: "hidden",
+  },
+  darkExample: {
+    backgroundColor: "#333",
+  },
+  boldExample: {
+    backgroundColor: "rgba(255, 255, 255, 0.15)",
+  },
+  footer: {
+    fontSize: 14,
+    fontWeight: "bold",
+    textAlign: "right",
+    color: "#1E90FF",
+  },
+  lightText: {
+    color: "#ffffff",
+  },
+  lightSecondaryText: {
+    color: "#dddddd",
+  },
+});
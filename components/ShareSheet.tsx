@@ -0,0 +1,193 @@
+import React, { useRef, useState } from "react";
+import { View, Text, StyleSheet, Modal, TouchableOpacity, ActivityIndicator, useColorScheme } from "react-native";
+import { captureRef } from "react-native-view-shot";
+import * as Sharing from "expo-sharing";
+import type { Word } from "../services/wordService";
+import { ShareCard, type ShareCardLayout, type ShareCardTheme } from "./ShareCard";
+
+const LAYOUT_LABELS: Record<ShareCardLayout, string> = {
+  classic: "Classic",
+  bold: "Bold",
+};
+
+const THEME_LABELS: Record<ShareCardTheme, string> = {
+  light: "Light",
+  dark: "Dark",
+};
+
+interface ShareSheetProps {
+  word: Word;
+  visible: boolean;
+  onClose: () => void;
+  // Plain-text share, for when the user prefers it or images can't be shared.
+  onShareText: () => void;
+}
+
+// Preview of the share card with template choices, then captures the card to
+// a PNG and hands it to the system share sheet.
+export function ShareSheet({ word, visible, onClose, onShareText }: ShareSheetProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === "dark";
+  const [layout, setLayout] = useState<ShareCardLayout>("classic");
+  const [theme, setTheme] = useState<ShareCardTheme>(isDarkMode ? "dark" : "light");
+  const [sharing, setSharing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cardRef = useRef<View>(null);
+
+  const shareImage = async () => {
+    setSharing(true);
+    setError(null);
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error("Image sharing isn't available on this device.");
+      }
+      const uri = await captureRef(cardRef, { format: "png", quality: 1, result: "tmpfile" });
+      await Sharing.shareAsync(uri, {
+        mimeType: "image/png",
+        UTI: "public.png",
+        dialogTitle: `Share "${word.word}"`,
+      });
+      onClose();
+    } catch (error) {
+      console.error("Error sharing word card:", error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const shareText = () => {
+    onClose();
+    onShareText();
+  };
+
+  const renderChips = <T extends string>(labels: Record<T, string>, selected: T, onSelect: (value: T) => void) => (
+    <View style={styles.chipRow}>
+      {(Object.keys(labels) as T[]).map((key) => (
+        <TouchableOpacity
+          key={key}
+          style={[styles.chip, selected === key && styles.chipActive]}
+          onPress={() => onSelect(key)}
+        >
+          <Text style={[styles.chipText, isDarkMode && styles.darkText, selected === key && styles.chipTextActive]}>
+            {labels[key]}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={[styles.container, isDarkMode && styles.darkContainer]}>
+        <View style={styles.header}>
+          <Text style={[styles.title, isDarkMode && styles.darkText]}>Share</Text>
+          <TouchableOpacity onPress={onClose} hitSlop={10}>
+            <Text style={styles.link}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.preview}>
+          <ShareCard ref={cardRef} word={word} layout={layout} theme={theme} />
+        </View>
+
+        {renderChips(LAYOUT_LABELS, layout, setLayout)}
+        {renderChips(THEME_LABELS, theme, setTheme)}
+
+        {error && <Text style={styles.error}>{error}</Text>}
+
+        <TouchableOpacity style={styles.primaryButton} onPress={shareImage} disabled={sharing}>
+          {sharing ? (
+            <ActivityIndicator color="#ffffff" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Share image</Text>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={shareText}>
+          <Text style={styles.link}>Share as text instead</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: "center",
+    padding: 20,
+    backgroundColor: "#ffffff",
+  },
+  darkContainer: {
+    backgroundColor: "#121212",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    alignSelf: "stretch",
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "600",
+  },
+  link: {
+    color: "#1E90FF",
+    fontSize: 16,
+  },
+  preview: {
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 3,
+    marginBottom: 20,
+  },
+  chipRow: {
+    flexDirection: "row",
+    marginBottom: 10,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 14,
+    marginHorizontal: 4,
+  },
+  chipActive: {
+    backgroundColor: "#1E90FF",
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextActive: {
+    color: "#ffffff",
+    fontWeight: "bold",
+  },
+  error: {
+    fontSize: 14,
+    color: "red",
+    marginTop: 5,
+    textAlign: "center",
+  },
+  primaryButton: {
+    marginTop: 15,
+    minWidth: 200,
+    alignItems: "center",
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    backgroundColor: "#1E90FF",
+    borderRadius: 5,
+  },
+  primaryButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  secondaryButton: {
+    marginTop: 15,
+  },
+  darkText: {
+    color: "#ffffff",
+  },
+});
@@ -0,0 +1,205 @@
+import React from "react";
+import { View, Text, StyleSheet, useColorScheme, Dimensions } from "react-native";
+import { useRouter } from "expo-router";
+import { splitOrigin } from "../services/etymology";
+import { getSenses, type Word } from "../services/wordService";
+import { FavoriteButton } from "./FavoriteButton";
+import { PronounceButton } from "./PronounceButton";
+import { ExampleCarousel } from "./ExampleCarousel";
+
+const SCREEN_WIDTH = Dimensions.get("window").width;
+const CARD_WIDTH = SCREEN_WIDTH * 0.90; // 85% of screen width
+
+const WORD_LISTS = [
+  { key: "synonyms", label: "Synonyms" },
+  { key: "antonyms", label: "Antonyms" },
+  { key: "related", label: "Related" },
+] as const;
+
+// The word, pronunciation, definition(s), origin, related words and example
+// — shared by the home screen and every other screen that shows a single word.
+export function WordCard({ word: wordData }: { word: Word }) {
+  const router = useRouter();
+  // Detect system theme (light/dark)
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === "dark";
+  const senses = getSenses(wordData);
+  const examples = senses.flatMap((sense) => sense.examples);
+
+  return (
+    <>
+      {/* Display Word */}
+      <View style={styles.wordContainer}>
+        <Text style={[styles.word, isDarkMode && styles.darkText]}>{wordData.word || "No word available"}</Text>
+        <FavoriteButton word={wordData} />
+      </View>
+
+      {/* Display Pronunciation, with audio playback */}
+      <View style={styles.pronunciationRow}>
+        {!!wordData.phonetic && (
+          <Text style={[styles.pronunciation, isDarkMode && styles.darkSecondaryText]}>
+            [{wordData.phonetic}]
+          </Text>
+        )}
+        <PronounceButton word={wordData} />
+      </View>
+
+      {senses.length === 1 ? (
+        <>
+          {/* Display Part of Speech (if available) */}
+          {wordData.part_of_speech && (
+            <Text style={[styles.partOfSpeech, isDarkMode && styles.darkSecondaryText]}>
+              {wordData.part_of_speech}
+            </Text>
+          )}
+
+          {/* Display Definition */}
+          <Text style={[styles.definition, isDarkMode && styles.darkText]}>
+          <Text style={[styles.definitionTitle, isDarkMode && styles.darkText]}>Definition: </Text>
+            {wordData.definition || "Definition not available."}
+          </Text>
+        </>
+      ) : (
+        // Several senses: numbered, each with its own part of speech
+        <View style={styles.senses}>
+          {senses.map((sense, i) => (
+            <Text key={i} style={[styles.definition, styles.sense, isDarkMode && styles.darkText]}>
+              <Text style={[styles.definitionTitle, isDarkMode && styles.darkText]}>{i + 1}. </Text>
+              <Text style={[styles.senseQualifier, isDarkMode && styles.darkSecondaryText]}>
+                {sense.part_of_speech}{" "}
+              </Text>
+              {sense.definition}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      {/* Display Word Origin, each root linking to the words that share it */}
+      {wordData.origin && (
+        <Text style={[styles.note, isDarkMode && styles.darkText]}>
+          Origin:{" "}
+          {splitOrigin(wordData.origin).map(({ text, root }, i) =>
+            root ? (
+              <Text
+                key={i}
+                style={styles.root}
+                onPress={() =>
+                  router.push({
+                    pathname: "/root/[root]",
+                    params: { root: root.root, language: root.language, from: wordData.word },
+                  })
+                }
+                accessibilityRole="link"
+                accessibilityHint={`Shows other words from the ${root.language} root ${root.root}`}
+              >
+                {text}
+              </Text>
+            ) : (
+              text
+            )
+          )}
+        </Text>
+      )}
+
+      {/* Display Synonyms, Antonyms and Related Words (if available) */}
+      {WORD_LISTS.map(({ key, label }) =>
+        wordData[key]?.length ? (
+          <Text key={key} style={[styles.wordList, isDarkMode && styles.darkSecondaryText]}>
+            <Text style={[styles.wordListTitle, isDarkMode && styles.darkText]}>{label}: </Text>
+            {wordData[key]!.join(", ")}
+          </Text>
+        ) : null
+      )}
+
+      {/* Display the Example Sentences, one page each */}
+      {examples.length > 0 && (
+        <ExampleCarousel key={wordData.id} word={wordData.word} examples={examples} width={CARD_WIDTH} />
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  word: {
+    fontSize: 40, // Bigger for emphasis
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  wordContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: 10,
+  },
+  pronunciationRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: 4,
+  },
+  pronunciation: {
+    fontSize: 18,
+    color: "#666",
+    textAlign: "center",
+  },
+  partOfSpeech: {
+    fontSize: 16,
+    fontStyle: "italic",
+    color: "#666",
+    marginBottom: 10,
+    textAlign: "center",
+  },
+  darkSecondaryText: {
+    color: "#bbbbbb",
+  },
+  definitionTitle: {
+    fontSize: 18,
+    textAlign: "center",
+    fontStyle: "italic",
+    fontWeight: "bold",
+    color: "#555", // Softer color for readability
+  },
+  definition: {
+    fontSize: 18,
+    textAlign: "center",
+    fontStyle: "italic",
+    color: "#555", // Softer color for readability
+  },
+  senses: {
+    alignSelf: "stretch",
+    paddingHorizontal: 10,
+  },
+  sense: {
+    textAlign: "left",
+    marginBottom: 6,
+  },
+  senseQualifier: {
+    fontSize: 16,
+    color: "#666",
+  },
+  wordList: {
+    alignSelf: "stretch",
+    paddingHorizontal: 10,
+    fontSize: 15,
+    color: "#555",
+    marginBottom: 6,
+  },
+  wordListTitle: {
+    fontWeight: "bold",
+    color: "#555",
+  },
+  note: {
+    marginTop: 14,
+    fontSize: 16,
+    fontStyle: "italic",
+    marginBottom: 10,
+    color: "#555",
+  },
+  root: {
+    color: "#1E90FF",
+    fontWeight: "600",
+  },
+  darkText: {
+    color: "#ffffff", // White text for dark mode
+  },
+});
@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useState } from "react";
+import { getFavorites, subscribeFavorites, toggleFavorite, type FavoriteWord } from "../services/favorites";
+import type { Word } from "../services/wordService";
+
+// Saved words, kept in step across screens via the favorites store's listeners.
+export function useFavorites() {
+  const [favorites, setFavorites] = useState<FavoriteWord[]>([]);
+
+  useEffect(() => {
+    let mounted = true;
+    getFavorites().then((list) => mounted && setFavorites(list));
+    const unsubscribe = subscribeFavorites(setFavorites);
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const isFavorite = useCallback((id: number) => favorites.some((f) => f.id === id), [favorites]);
+  const toggle = useCallback((word: Word) => toggleFavorite(word), []);
+
+  return { favorites, isFavorite, toggle };
+}
@@ -0,0 +1,5 @@
+// Pin the device time zone for every test run. Notification fire dates are
+// computed in local time, and a zone with DST keeps those tests honest.
+module.exports = () => {
+  process.env.TZ = "America/New_York";
+};
@@ -0,0 +1,40 @@
+package expo.modules.widgetstorage
+
+import android.appwidget.AppWidgetManager
+import android.content.ComponentName
+import android.content.Context
+import android.content.Intent
+import expo.modules.kotlin.modules.Module
+import expo.modules.kotlin.modules.ModuleDefinition
+
+// Hands the JSON built by services/widgetData.ts to the home-screen widget.
+// The provider itself is added to the app by plugins/withWordWidget.js.
+class WidgetStorageModule : Module() {
+  override fun definition() = ModuleDefinition {
+    Name("WidgetStorage")
+
+    Function("setData") { json: String ->
+      val context = appContext.reactContext ?: return@Function
+      context.getSharedPreferences(PREFERENCES_NAME, Context.MODE_PRIVATE)
+        .edit()
+        .putString(DATA_KEY, json)
+        .apply()
+
+      val provider = ComponentName(context.packageName, "${context.packageName}.widget.WordWidgetProvider")
+      val ids = AppWidgetManager.getInstance(context).getAppWidgetIds(provider)
+      if (ids.isNotEmpty()) {
+        context.sendBroadcast(
+          Intent(AppWidgetManager.ACTION_APPWIDGET_UPDATE)
+            .setComponent(provider)
+            .putExtra(AppWidgetManager.EXTRA_APPWIDGET_IDS, ids)
+        )
+      }
+    }
+  }
+
+  companion object {
+    // Must match WordWidgetProvider.
+    const val PREFERENCES_NAME = "vocabudaily.widget"
+    const val DATA_KEY = "data"
+  }
+}
@@ -0,0 +1,247 @@
+import * as Notifications from "expo-notifications";
+import {
+  buildNotificationContent,
+  getUpcomingFireDates,
+  NOTIFICATION_HORIZON_DAYS,
+  rescheduleUpcomingNotifications,
+  truncate,
+} from "./notifications";
+import { DEFAULT_PREFERENCES, updatePreferences, type Preferences } from "./services/preferences";
+import { readWordCache, readWordSchedule, refreshWordCache, type WordCache } from "./services/wordCache";
+import { getDailyWordId, type Word } from "./services/wordService";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+jest.mock("expo-notifications", () => ({
+  setNotificationHandler: jest.fn(),
+  requestPermissionsAsync: jest.fn(async () => ({ status: "granted" })),
+  cancelAllScheduledNotificationsAsync: jest.fn(async () => {}),
+  scheduleNotificationAsync: jest.fn(async () => "id"),
+  SchedulableTriggerInputTypes: { DATE: "date" },
+}));
+
+jest.mock("./services/wordCache", () => ({
+  ...jest.requireActual("./services/wordCache"),
+  readWordCache: jest.fn(),
+  readWordSchedule: jest.fn(async () => null),
+  refreshWordCache: jest.fn(),
+}));
+
+jest.mock("./services/supabase", () => ({ supabase: {} }));
+
+const scheduleNotificationAsync = Notifications.scheduleNotificationAsync as jest.Mock;
+const cancelAll = Notifications.cancelAllScheduledNotificationsAsync as jest.Mock;
+
+// Fire dates are computed in device-local time; jest.globalSetup.js pins the
+// zone to America/New_York.
+function prefs(patch: Partial<Preferences> = {}): Preferences {
+  return { ...DEFAULT_PREFERENCES, ...patch };
+}
+
+function makeWord(id: number, overrides: Partial<Word> = {}): Word {
+  return {
+    id,
+    word: `word${id}`,
+    part_of_speech: "noun",
+    definition: `definition ${id}`,
+    phonetic: "",
+    examples: [],
+    origin: "",
+    ...overrides,
+  };
+}
+
+function cacheOf(...words: Word[]): WordCache {
+  return Object.fromEntries(words.map((word) => [word.id, { word, updatedAt: "2026-01-01T00:00:00Z" }]));
+}
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe("getUpcomingFireDates", () => {
+  // Sunday evening.
+  const now = new Date("2026-03-01T20:00:00-05:00");
+
+  it("fires at 9 AM local every day by default, starting tomorrow", () => {
+    const dates = getUpcomingFireDates(now, prefs());
+    expect(dates).toHaveLength(NOTIFICATION_HORIZON_DAYS);
+    expect(dates[0].toISOString()).toBe("2026-03-02T14:00:00.000Z");
+    expect(dates[NOTIFICATION_HORIZON_DAYS - 1].toISOString()).toBe("2026-03-15T13:00:00.000Z");
+  });
+
+  it("keeps the local time across the spring-forward DST change", () => {
+    const dates = iso(getUpcomingFireDates(now, prefs()));
+    expect(dates.slice(5, 8)).toEqual([
+      "2026-03-07T14:00:00.000Z", // EST
+      "2026-03-08T13:00:00.000Z", // EDT from 2 AM
+      "2026-03-09T13:00:00.000Z",
+    ]);
+  });
+
+  it("uses the chosen hour and minute", () => {
+    const dates = getUpcomingFireDates(now, prefs({ notificationHour: 19, notificationMinute: 45 }));
+    expect(dates[0].toISOString()).toBe("2026-03-03T00:45:00.000Z");
+  });
+
+  it("skips weekdays that are turned off", () => {
+    const weekdays = getUpcomingFireDates(now, prefs({ notificationWeekdays: [1, 2, 3, 4, 5] }));
+    expect(iso(weekdays)).toEqual([
+      "2026-03-02T14:00:00.000Z",
+      "2026-03-03T14:00:00.000Z",
+      "2026-03-04T14:00:00.000Z",
+      "2026-03-05T14:00:00.000Z",
+      "2026-03-06T14:00:00.000Z",
+      "2026-03-09T13:00:00.000Z",
+      "2026-03-10T13:00:00.000Z",
+      "2026-03-11T13:00:00.000Z",
+      "2026-03-12T13:00:00.000Z",
+      "2026-03-13T13:00:00.000Z",
+    ]);
+  });
+
+  it("returns nothing in quiet mode", () => {
+    expect(getUpcomingFireDates(now, prefs({ notificationsEnabled: false }))).toEqual([]);
+    expect(getUpcomingFireDates(now, prefs({ notificationWeekdays: [] }))).toEqual([]);
+  });
+});
+
+describe("truncate", () => {
+  it("leaves short text alone", () => {
+    expect(truncate("Brief.", 20)).toBe("Brief.");
+  });
+
+  it("cuts at a word boundary and adds an ellipsis", () => {
+    expect(truncate("Lasting for a very short time, fleeting.", 20)).toBe("Lasting for a very…");
+    expect(truncate("Lasting for a very, short time.", 20)).toBe("Lasting for a very…");
+  });
+});
+
+describe("buildNotificationContent", () => {
+  const fireDate = new Date("2026-03-02T14:00:00Z");
+
+  it("shows the word and its definition", () => {
+    const content = buildNotificationContent(fireDate, makeWord(1, { word: "ephemeral", definition: "Short-lived." }));
+    expect(content).toMatchObject({
+      title: "Word of the Day: ephemeral 📖",
+      body: "Short-lived.",
+      data: { url: "/word/2026-03-02" },
+    });
+  });
+
+  it("falls back to generic text but keeps the deep link", () => {
+    expect(buildNotificationContent(fireDate, null)).toMatchObject({
+      title: "Word of the Day 📖",
+      body: "Tap to learn your new word!",
+      data: { url: "/word/2026-03-02" },
+    });
+  });
+});
+
+describe("rescheduleUpcomingNotifications", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (refreshWordCache as jest.Mock).mockResolvedValue({});
+    jest.useFakeTimers({ now: new Date("2026-03-01T20:00:00-05:00") });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("replaces the batch with date triggers from saved preferences", async () => {
+    await updatePreferences({ notificationHour: 7, notificationMinute: 30, notificationWeekdays: [0, 6] });
+    await rescheduleUpcomingNotifications();
+
+    expect(cancelAll).toHaveBeenCalledTimes(1);
+    expect(scheduleNotificationAsync.mock.calls.map(([request]) => request.trigger)).toEqual([
+      { type: "date", date: new Date("2026-03-07T12:30:00.000Z") },
+      { type: "date", date: new Date("2026-03-08T11:30:00.000Z") },
+      { type: "date", date: new Date("2026-03-14T11:30:00.000Z") },
+      { type: "date", date: new Date("2026-03-15T11:30:00.000Z") },
+    ]);
+  });
+
+  it("only cancels when notifications are turned off", async () => {
+    await rescheduleUpcomingNotifications(prefs({ notificationsEnabled: false }));
+    expect(cancelAll).toHaveBeenCalledTimes(1);
+    expect(scheduleNotificationAsync).not.toHaveBeenCalled();
+    expect(refreshWordCache).not.toHaveBeenCalled();
+  });
+
+  it("puts each fire date's word in its notification", async () => {
+    const monday = new Date("2026-03-02T14:00:00Z");
+    const tuesday = new Date("2026-03-03T14:00:00Z");
+    (refreshWordCache as jest.Mock).mockResolvedValue(
+      cacheOf(makeWord(getDailyWordId(monday), { word: "laconic" }), makeWord(getDailyWordId(tuesday), { word: "zeal" }))
+    );
+
+    await rescheduleUpcomingNotifications(prefs({ notificationWeekdays: [1, 2, 3] }));
+
+    const titles = scheduleNotificationAsync.mock.calls.map(([request]) => request.content.title);
+    const urls = scheduleNotificationAsync.mock.calls.map(([request]) => request.content.data.url);
+    expect(titles).toEqual([
+      "Word of the Day: laconic 📖",
+      "Word of the Day: zeal 📖",
+      "Word of the Day 📖",
+      "Word of the Day 📖",
+      "Word of the Day 📖",
+      "Word of the Day 📖",
+    ]);
+    expect(urls).toEqual([
+      "/word/2026-03-02",
+      "/word/2026-03-03",
+      "/word/2026-03-04",
+      "/word/2026-03-09",
+      "/word/2026-03-10",
+      "/word/2026-03-11",
+    ]);
+  });
+
+  it("names the word scheduled over a day's rotation word", async () => {
+    (refreshWordCache as jest.Mock).mockResolvedValue(cacheOf(makeWord(42, { word: "jubilant" })));
+    (readWordSchedule as jest.Mock).mockResolvedValueOnce({ track: "all", days: { "2026-03-02": 42 } });
+
+    await rescheduleUpcomingNotifications(prefs({ notificationWeekdays: [1] }));
+
+    expect(scheduleNotificationAsync.mock.calls.map(([request]) => request.content.title)).toEqual([
+      "Word of the Day: jubilant 📖",
+      "Word of the Day 📖",
+    ]);
+  });
+
+  it("uses cached words when the refresh fails", async () => {
+    const monday = new Date("2026-03-02T14:00:00Z");
+    (refreshWordCache as jest.Mock).mockRejectedValue(new Error("offline"));
+    (readWordCache as jest.Mock).mockResolvedValue(cacheOf(makeWord(getDailyWordId(monday), { word: "laconic" })));
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    await rescheduleUpcomingNotifications(prefs({ notificationWeekdays: [1] }));
+
+    expect(scheduleNotificationAsync).toHaveBeenCalledTimes(2);
+    expect(scheduleNotificationAsync.mock.calls[0][0].content.title).toBe("Word of the Day: laconic 📖");
+    expect(scheduleNotificationAsync.mock.calls[1][0].content.title).toBe("Word of the Day 📖");
+  });
+
+  it("runs one reschedule at a time and skips runs superseded while waiting", async () => {
+    let finishRefresh!: (cache: WordCache) => void;
+    (refreshWordCache as jest.Mock).mockReturnValueOnce(new Promise((resolve) => (finishRefresh = resolve)));
+
+    const first = rescheduleUpcomingNotifications(prefs({ notificationWeekdays: [1] }));
+    await jest.advanceTimersByTimeAsync(0);
+    const second = rescheduleUpcomingNotifications(prefs({ notificationWeekdays: [2] }));
+    const third = rescheduleUpcomingNotifications(prefs({ notificationWeekdays: [3] }));
+    expect(cancelAll).toHaveBeenCalledTimes(1);
+
+    finishRefresh({});
+    await Promise.all([first, second, third]);
+
+    expect(cancelAll).toHaveBeenCalledTimes(2);
+    expect(scheduleNotificationAsync.mock.calls.map(([request]) => request.content.data.url)).toEqual([
+      "/word/2026-03-02",
+      "/word/2026-03-09",
+      "/word/2026-03-04",
+      "/word/2026-03-11",
+    ]);
+  });
+});
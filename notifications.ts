@@ -0,0 +1,123 @@
+import * as Notifications from "expo-notifications";
+import { getPreferences, type Preferences } from "./services/preferences";
+import {
+  readWordCache,
+  readWordSchedule,
+  refreshWordCache,
+  scheduledWordId,
+  type WordCache,
+} from "./services/wordCache";
+import { getWordDay, type Word } from "./services/wordService";
+
+// 🛠 Configure Notification Behavior (for foreground notifications)
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+    shouldShowBanner: true,
+    shouldShowList: true,
+  }),
+});
+
+// ✅ Request Notification Permissions
+export async function requestNotificationPermissions() {
+  const { status } = await Notifications.requestPermissionsAsync();
+  if (status !== "granted") {
+    console.warn("Notification permissions not granted.");
+  }
+}
+
+// ✅ Cancel Any Existing Notifications
+export async function cancelScheduledNotifications() {
+  await Notifications.cancelAllScheduledNotificationsAsync();
+}
+
+// ✅ Schedule one-off notifications at the user's chosen time for the next N
+// days starting tomorrow, skipping weekdays they turned off.
+// Using DATE triggers (not DAILY) lets the app skip a day by simply re-anchoring
+// the batch whenever the user opens the app or changes their settings.
+export const NOTIFICATION_HORIZON_DAYS = 14;
+
+export function getUpcomingFireDates(now: Date, preferences: Preferences): Date[] {
+  if (!preferences.notificationsEnabled) return [];
+
+  const dates: Date[] = [];
+  for (let offset = 1; offset <= NOTIFICATION_HORIZON_DAYS; offset++) {
+    const fireDate = new Date(now);
+    fireDate.setDate(fireDate.getDate() + offset);
+    fireDate.setHours(preferences.notificationHour, preferences.notificationMinute, 0, 0);
+    if (preferences.notificationWeekdays.includes(fireDate.getDay())) dates.push(fireDate);
+  }
+  return dates;
+}
+
+const DEFINITION_MAX_LENGTH = 100;
+
+export function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  // Keep whole words unless the cut already lands on a space.
+  let cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  if (!/\s/.test(text[maxLength - 1]) && lastSpace > 0) cut = cut.slice(0, lastSpace);
+  return `${cut.replace(/[\s,;:.]+$/, "")}…`;
+}
+
+// Falls back to the generic copy when the word isn't available, e.g. when
+// scheduling offline with an empty cache. Either way, tapping the
+// notification opens that date's word.
+export function buildNotificationContent(fireDate: Date, word: Word | null): Notifications.NotificationContentInput {
+  const data = { url: `/word/${getWordDay(fireDate)}` };
+  if (!word) {
+    return { title: "Word of the Day 📖", body: "Tap to learn your new word!", sound: true, data };
+  }
+  return {
+    title: `Word of the Day: ${word.word} 📖`,
+    body: truncate(word.definition, DEFINITION_MAX_LENGTH),
+    sound: true,
+    data,
+  };
+}
+
+async function loadUpcomingWords(): Promise<WordCache> {
+  try {
+    return await refreshWordCache();
+  } catch (error) {
+    console.warn("Scheduling notifications from the cached words:", error);
+    return readWordCache();
+  }
+}
+
+// Each run cancels the whole batch before refilling it, so overlapping runs
+// (e.g. quick taps in Settings) would leave duplicates behind. Runs go one at
+// a time, and a run still waiting its turn is skipped once a newer one is
+// queued, so the latest settings win.
+let rescheduling: Promise<void> = Promise.resolve();
+let latestReschedule = 0;
+
+export function rescheduleUpcomingNotifications(preferences?: Preferences): Promise<void> {
+  const run = ++latestReschedule;
+  const next = rescheduling.then(() => (run === latestReschedule ? scheduleUpcoming(preferences) : undefined));
+  rescheduling = next.catch(() => {});
+  return next;
+}
+
+async function scheduleUpcoming(preferences?: Preferences) {
+  await cancelScheduledNotifications();
+
+  const prefs = preferences ?? (await getPreferences());
+  const fireDates = getUpcomingFireDates(new Date(), prefs);
+  if (fireDates.length === 0) return;
+
+  const cache = await loadUpcomingWords();
+  const schedule = await readWordSchedule();
+  for (const fireDate of fireDates) {
+    const word = cache[scheduledWordId(schedule, getWordDay(fireDate))]?.word ?? null;
+    await Notifications.scheduleNotificationAsync({
+      content: buildNotificationContent(fireDate, word),
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: fireDate,
+      },
+    });
+  }
+}
@@ -0,0 +1,116 @@
+package __PACKAGE__.widget
+
+import android.app.AlarmManager
+import android.app.PendingIntent
+import android.appwidget.AppWidgetManager
+import android.appwidget.AppWidgetProvider
+import android.content.ComponentName
+import android.content.Context
+import android.content.Intent
+import android.net.Uri
+import android.view.View
+import android.widget.RemoteViews
+import __PACKAGE__.R
+import org.json.JSONObject
+import java.text.SimpleDateFormat
+import java.util.Calendar
+import java.util.Locale
+
+// Shows the word of the day from the payload written by the WidgetStorage
+// module (services/widgetData.ts), and redraws itself at local midnight so the
+// next day's word appears without the app being opened.
+class WordWidgetProvider : AppWidgetProvider() {
+  override fun onUpdate(context: Context, manager: AppWidgetManager, ids: IntArray) {
+    for (id in ids) {
+      manager.updateAppWidget(id, render(context))
+    }
+    scheduleMidnightUpdate(context)
+  }
+
+  override fun onReceive(context: Context, intent: Intent) {
+    super.onReceive(context, intent)
+    when (intent.action) {
+      ACTION_MIDNIGHT, Intent.ACTION_TIME_CHANGED, Intent.ACTION_TIMEZONE_CHANGED -> updateAll(context)
+    }
+  }
+
+  override fun onDisabled(context: Context) {
+    alarmManager(context).cancel(midnightIntent(context))
+  }
+
+  private fun updateAll(context: Context) {
+    val manager = AppWidgetManager.getInstance(context)
+    val ids = manager.getAppWidgetIds(ComponentName(context, WordWidgetProvider::class.java))
+    onUpdate(context, manager, ids)
+  }
+
+  private fun render(context: Context): RemoteViews {
+    val today = SimpleDateFormat("yyyy-MM-dd", Locale.US).format(Calendar.getInstance().time)
+    val entry = readEntry(context, today)
+    val views = RemoteViews(context.packageName, R.layout.word_widget)
+
+    if (entry == null) {
+      views.setTextViewText(R.id.word_widget_word, "VocabuDaily")
+      views.setTextViewText(R.id.word_widget_definition, "Open the app to load today's word.")
+      views.setViewVisibility(R.id.word_widget_meta, View.GONE)
+    } else {
+      views.setTextViewText(R.id.word_widget_word, entry.getString("word"))
+      val meta = listOf(entry.optString("phonetic").takeIf { it.isNotEmpty() }?.let { "[$it]" }, entry.optString("partOfSpeech"))
+        .filter { !it.isNullOrEmpty() }
+        .joinToString("  ·  ")
+      views.setTextViewText(R.id.word_widget_meta, meta)
+      views.setViewVisibility(R.id.word_widget_meta, if (meta.isEmpty()) View.GONE else View.VISIBLE)
+      views.setTextViewText(R.id.word_widget_definition, entry.optString("definition"))
+    }
+
+    // Same deep link as notifications: vocabudaily://word/<date>.
+    val open = Intent(Intent.ACTION_VIEW, Uri.parse("vocabudaily://word/$today")).setPackage(context.packageName)
+    views.setOnClickPendingIntent(
+      R.id.word_widget_root,
+      PendingIntent.getActivity(context, 0, open, PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE)
+    )
+    return views
+  }
+
+  private fun readEntry(context: Context, date: String): JSONObject? {
+    val json = context.getSharedPreferences(PREFERENCES_NAME, Context.MODE_PRIVATE).getString(DATA_KEY, null)
+      ?: return null
+    return try {
+      val payload = JSONObject(json)
+      if (payload.optInt("version") != DATA_VERSION) return null
+      val entries = payload.getJSONArray("entries")
+      (0 until entries.length()).map { entries.getJSONObject(it) }.firstOrNull { it.optString("date") == date }
+    } catch (e: Exception) {
+      null
+    }
+  }
+
+  private fun scheduleMidnightUpdate(context: Context) {
+    val midnight = Calendar.getInstance().apply {
+      add(Calendar.DAY_OF_YEAR, 1)
+      set(Calendar.HOUR_OF_DAY, 0)
+      set(Calendar.MINUTE, 0)
+      set(Calendar.SECOND, 5)
+      set(Calendar.MILLISECOND, 0)
+    }
+    alarmManager(context).setAndAllowWhileIdle(AlarmManager.RTC, midnight.timeInMillis, midnightIntent(context))
+  }
+
+  private fun alarmManager(context: Context) = context.getSystemService(Context.ALARM_SERVICE) as AlarmManager
+
+  private fun midnightIntent(context: Context): PendingIntent =
+    PendingIntent.getBroadcast(
+      context,
+      0,
+      Intent(context, WordWidgetProvider::class.java).setAction(ACTION_MIDNIGHT),
+      PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE
+    )
+
+  companion object {
+    // Must match WidgetStorageModule and WIDGET_DATA_VERSION in services/widgetData.ts.
+    const val PREFERENCES_NAME = "vocabudaily.widget"
+    const val DATA_KEY = "data"
+    const val DATA_VERSION = 1
+    const val ACTION_MIDNIGHT = "__PACKAGE__.widget.MIDNIGHT"
+  }
+}
@@ -0,0 +1,67 @@
+// Adds the Android home-screen widget (plugins/widget) to the native project
+// on prebuild: copies the provider class and its resources into the app and
+// registers the receiver in AndroidManifest.xml. The widget's data comes from
+// the WidgetStorage module in modules/widget-storage.
+const fs = require("node:fs");
+const path = require("node:path");
+const { AndroidConfig, withAndroidManifest, withDangerousMod } = require("expo/config-plugins");
+
+const WIDGET_DIR = path.join(__dirname, "widget");
+const RESOURCES = [
+  "layout/word_widget.xml",
+  "xml/word_widget_info.xml",
+  "drawable/word_widget_background.xml",
+];
+
+function withWidgetReceiver(config) {
+  return withAndroidManifest(config, (config) => {
+    const application = AndroidConfig.Manifest.getMainApplicationOrThrow(config.modResults);
+    const name = ".widget.WordWidgetProvider";
+    application.receiver = (application.receiver ?? []).filter((receiver) => receiver.$["android:name"] !== name);
+    application.receiver.push({
+      $: { "android:name": name, "android:exported": "false" },
+      "intent-filter": [
+        {
+          action: [
+            { $: { "android:name": "android.appwidget.action.APPWIDGET_UPDATE" } },
+            { $: { "android:name": "android.intent.action.TIME_SET" } },
+            { $: { "android:name": "android.intent.action.TIMEZONE_CHANGED" } },
+          ],
+        },
+      ],
+      "meta-data": [
+        { $: { "android:name": "android.appwidget.provider", "android:resource": "@xml/word_widget_info" } },
+      ],
+    });
+    return config;
+  });
+}
+
+function withWidgetSources(config) {
+  return withDangerousMod(config, [
+    "android",
+    (config) => {
+      const packageName = config.android?.package;
+      if (!packageName) throw new Error("withWordWidget: expo.android.package is required.");
+
+      const mainDir = path.join(config.modRequest.platformProjectRoot, "app", "src", "main");
+      for (const resource of RESOURCES) {
+        const target = path.join(mainDir, "res", resource);
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.copyFileSync(path.join(WIDGET_DIR, "res", resource), target);
+      }
+
+      const source = fs
+        .readFileSync(path.join(WIDGET_DIR, "WordWidgetProvider.kt"), "utf8")
+        .replace(/__PACKAGE__/g, packageName);
+      const sourceDir = path.join(mainDir, "java", ...packageName.split("."), "widget");
+      fs.mkdirSync(sourceDir, { recursive: true });
+      fs.writeFileSync(path.join(sourceDir, "WordWidgetProvider.kt"), source);
+      return config;
+    },
+  ]);
+}
+
+module.exports = function withWordWidget(config) {
+  return withWidgetSources(withWidgetReceiver(config));
+};
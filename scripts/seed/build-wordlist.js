@@ -14,6 +14,8 @@
 //      appear in words_alpha.txt).
 //   4. Cap at TARGET_COUNT, but prefer finishing short over padding with
 //      easier words — the user explicitly wants difficulty over count.
+//   5. Tag each word with every source list it appears in, and rate its
+//      difficulty by how many lists share it (see difficultyTier).
 //
 // Sources (all permissively licensed):
 //   - Isomorpheuss/advanced-english-vocabulary (multiple TSV files)
@@ -26,6 +28,8 @@ const path = require('node:path');
 const SEED_DIR = __dirname;
 const CACHE_DIR = path.join(SEED_DIR, '.cache');
 const OUTPUT_FILE = path.join(SEED_DIR, 'words.txt');
+// word -> { difficulty, tags }, merged into public.words by the uploader.
+const META_FILE = path.join(SEED_DIR, 'words-meta.json');
 
 const VOCAB_REPO = 'https://raw.githubusercontent.com/Isomorpheuss/advanced-english-vocabulary/master/vocab/';
 
@@ -33,20 +37,20 @@ const VOCAB_REPO = 'https://raw.githubusercontent.com/Isomorpheuss/advanced-engl
 // when a word appears in multiple lists. The user gave us GRE Master 5349
 // as the canonical base, so it leads.
 const VOCAB_SOURCES = [
-  { file: 'GRE Master Wordlist 5349.csv',          cache: 'gre-master-5349.tsv' },
-  { file: 'gre7500.csv',                           cache: 'gre-7500.tsv' },
-  { file: 'gremaster5000.csv',                     cache: 'gre-master-5000.tsv' },
-  { file: 'gre3000.csv',                           cache: 'gre-3000.tsv' },
-  { file: 'barron1500.csv',                        cache: 'barron-1500.tsv' },
-  { file: 'barron800.csv',                         cache: 'barron-800.tsv' },
-  { file: 'magooshgreimproved1069.csv',            cache: 'magoosh-1069.tsv' },
-  { file: 'manhattanprep708.csv',                  cache: 'manhattan-708.tsv' },
-  { file: 'princetonwordsmart1654.csv',            cache: 'princeton-1654.tsv' },
-  { file: 'normanlewis892.csv',                    cache: 'norman-lewis-892.tsv' },
-  { file: 'verbaladvantage755.csv',                cache: 'verbal-advantage-755.tsv' },
-  { file: 'kaplan500.csv',                         cache: 'kaplan-500.tsv' },
-  { file: 'gmat214.csv',                           cache: 'gmat-214.tsv' },
-  { file: 'The Ultimate Verbal and Vocabulary Builder 418.csv', cache: 'ultimate-vvb-418.tsv' },
+  { file: 'GRE Master Wordlist 5349.csv',          cache: 'gre-master-5349.tsv',      tags: ['gre'] },
+  { file: 'gre7500.csv',                           cache: 'gre-7500.tsv',             tags: ['gre'] },
+  { file: 'gremaster5000.csv',                     cache: 'gre-master-5000.tsv',      tags: ['gre'] },
+  { file: 'gre3000.csv',                           cache: 'gre-3000.tsv',             tags: ['gre'] },
+  { file: 'barron1500.csv',                        cache: 'barron-1500.tsv',          tags: ['barron', 'gre'] },
+  { file: 'barron800.csv',                         cache: 'barron-800.tsv',           tags: ['barron', 'gre'] },
+  { file: 'magooshgreimproved1069.csv',            cache: 'magoosh-1069.tsv',         tags: ['magoosh', 'gre'] },
+  { file: 'manhattanprep708.csv',                  cache: 'manhattan-708.tsv',        tags: ['manhattan', 'gre'] },
+  { file: 'princetonwordsmart1654.csv',            cache: 'princeton-1654.tsv',       tags: ['princeton', 'sat'] },
+  { file: 'normanlewis892.csv',                    cache: 'norman-lewis-892.tsv',     tags: ['norman-lewis'] },
+  { file: 'verbaladvantage755.csv',                cache: 'verbal-advantage-755.tsv', tags: ['verbal-advantage'] },
+  { file: 'kaplan500.csv',                         cache: 'kaplan-500.tsv',           tags: ['kaplan', 'sat'] },
+  { file: 'gmat214.csv',                           cache: 'gmat-214.tsv',             tags: ['gmat'] },
+  { file: 'The Ultimate Verbal and Vocabulary Builder 418.csv', cache: 'ultimate-vvb-418.tsv', tags: ['vvb', 'sat'] },
   // Intentionally NOT included: Merriam-Webster Learner's Dictionary 2000 —
   // it's targeted at ESL learners and contains too many basic words
   // (aircraft, airdrop, ahoy, aide). Adding it would dilute difficulty.
@@ -104,6 +108,15 @@ function parseVocabWords(text) {
     .filter(Boolean);
 }
 
+// Words most prep lists agree on are the core of test vocabulary; a word only
+// one list bothers with is the rarest. 1 = core, 2 = intermediate,
+// 3 = advanced.
+function difficultyTier(listCount) {
+  if (listCount >= 4) return 1;
+  if (listCount >= 2) return 2;
+  return 3;
+}
+
 function makeFilter({ names, profanity }) {
   const wordPattern = new RegExp(`^[a-z]{${MIN_LEN},}$`);
   return function check(word) {
@@ -147,6 +160,19 @@ async function main() {
   const seen = new Set();
   const selected = [];
   const sourceContrib = []; // per-source contribution stats
+  const listsByWord = new Map(); // word -> files it appears in
+  const tagsByWord = new Map(); // word -> Set of source tags
+
+  for (const src of vocabFiles) {
+    for (const word of new Set(parseVocabWords(src.text))) {
+      if (!listsByWord.has(word)) {
+        listsByWord.set(word, new Set());
+        tagsByWord.set(word, new Set());
+      }
+      listsByWord.get(word).add(src.file);
+      for (const tag of src.tags) tagsByWord.get(word).add(tag);
+    }
+  }
 
   for (const src of vocabFiles) {
     const raw = parseVocabWords(src.text);
@@ -175,9 +201,22 @@ async function main() {
     );
   }
 
-  console.log(`[4/4] writing ${OUTPUT_FILE}`);
+  console.log(`[4/4] writing ${OUTPUT_FILE} and ${META_FILE}`);
   fs.writeFileSync(OUTPUT_FILE, selected.join('\n') + '\n');
+  const meta = {};
+  const tierCounts = { 1: 0, 2: 0, 3: 0 };
+  for (const word of selected) {
+    const difficulty = difficultyTier(listsByWord.get(word).size);
+    meta[word] = { difficulty, tags: [...tagsByWord.get(word)].sort() };
+    tierCounts[difficulty] += 1;
+  }
+  fs.writeFileSync(META_FILE, JSON.stringify(meta, null, 2) + '\n');
   console.log(`  wrote ${selected.length.toLocaleString()} words`);
+  console.log(
+    `  difficulty: ${tierCounts[1].toLocaleString()} core, ` +
+    `${tierCounts[2].toLocaleString()} intermediate, ` +
+    `${tierCounts[3].toLocaleString()} advanced`
+  );
   if (selected.length < TARGET_COUNT) {
     const short = TARGET_COUNT - selected.length;
     console.log(
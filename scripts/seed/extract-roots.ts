@@ -0,0 +1,58 @@
+// scripts/seed/extract-roots.ts
+//
+// Usage:
+//   SUPABASE_URL=https://xxxx.supabase.co \
+//   SUPABASE_SERVICE_ROLE_KEY=eyJ... \
+//   tsx scripts/seed/extract-roots.ts [--dry-run]
+//
+// Reads public.words and rebuilds public.word_roots from each word's origin.
+// Run it after seed:upload. --dry-run prints a summary without writing.
+// See services/etymology.ts for what counts as a root.
+
+import * as fs from "fs";
+import * as path from "path";
+import { applyWordRoots, formatRootSummary, planWordRoots, summarizeRoots } from "./lib/roots";
+import { fetchExistingWords } from "./lib/upload";
+
+// Load .env
+const envPath = path.resolve(".env");
+if (fs.existsSync(envPath)) {
+  for (const line of fs.readFileSync(envPath, "utf-8").split("\n")) {
+    const match = line.match(/^([A-Z_][A-Z0-9_]*)=(.*)$/);
+    if (match) process.env[match[1]] = match[2].replace(/^["']|["']$/g, "");
+  }
+}
+
+const SUPABASE_URL = process.env.SUPABASE_URL;
+const SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!SUPABASE_URL || !SERVICE_ROLE_KEY) {
+  console.error(
+    "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY in environment / .env"
+  );
+  process.exit(1);
+}
+
+async function main(): Promise<void> {
+  const isDryRun = process.argv.includes("--dry-run");
+  const config = { url: SUPABASE_URL!, serviceRoleKey: SERVICE_ROLE_KEY! };
+
+  const words = await fetchExistingWords(config);
+  console.log(`Parsing origins of ${words.length} words...`);
+
+  const rows = planWordRoots(words);
+  console.log(formatRootSummary(summarizeRoots(rows)));
+
+  if (isDryRun) {
+    console.log("Dry run — nothing written.");
+    return;
+  }
+
+  await applyWordRoots(config, rows);
+  console.log(`✓ Wrote ${rows.length} word roots.`);
+}
+
+main().catch((err: unknown) => {
+  console.error("Error:", err instanceof Error ? err.message : String(err));
+  process.exit(1);
+});
@@ -0,0 +1,263 @@
+// scripts/seed/lib/anthropicProvider.ts
+//
+// WordDataProvider backed by the Anthropic Message Batches API.
+
+import Anthropic from "@anthropic-ai/sdk";
+import type { BatchResult, BatchStatus, SubmitOptions, SubmittedBatch, WordDataProvider } from "./provider";
+
+const MODEL = "claude-haiku-4-5";
+const MAX_TOKENS = 1200;
+
+// Long system prompt improves quality and enables prompt caching on eligible runs.
+// Includes extensive phonetic examples to prevent IPA fallback.
+export const SYSTEM_PROMPT = `You are a vocabulary dictionary. For each word given, output a JSON object and nothing else — no markdown, no code fences, no explanation.
+
+REQUIRED FIELDS:
+- "word" (string): the word exactly as given
+- "phonetic" (string): pronunciation in Merriam-Webster respelling style (see PHONETIC FORMAT below)
+- "senses" (array of 1–4 objects): the word's distinct meanings, most common first. Most words have one; only add more for genuinely different meanings (sanguine: optimistic / blood-red), not shades of the same one. Each sense has:
+  - "part_of_speech" (string): one of: adjective, noun, verb, adverb, conjunction, preposition, interjection
+  - "definition" (string): clear, concise definition. Length: 5–160 characters. No leading article. Start with capital letter.
+  - "examples" (array of strings): distinct example sentences demonstrating this sense in natural context — exactly 2 for the first sense, 1 for each other sense
+- "synonyms" (array of 0–8 strings): single words with the same meaning as the first sense, most common first
+- "antonyms" (array of 0–8 strings): single words with the opposite meaning; empty if none fit
+- "related" (array of 0–8 strings): other words in the same family or closely associated (sanguine → sanguinary), never the word itself
+- "origin" (string): brief etymology. Length: 20–400 characters. General only — "from Latin X meaning Y", not "first recorded in 1623".
+
+═══════════════════════════════════════════════════════
+PHONETIC FORMAT — critical, read every rule carefully
+═══════════════════════════════════════════════════════
+
+Use Merriam-Webster respelling. This is NOT IPA. Never use IPA characters.
+
+Rules:
+1. Use ONLY ordinary English letters (a–z, A–Z) and hyphens. No phonetic symbols of any kind.
+2. Separate every syllable with a hyphen.
+3. Write the ONE primary stressed syllable in ALL CAPS (minimum 2 letters).
+4. All other syllables in lowercase.
+5. Use these English letter combinations to represent sounds:
+
+   Vowel sounds:
+   - "ay" = long A (bake → BAYK, fate → FAYT)
+   - "ee" = long E (feet → FEET, theme → THEEM)
+   - "uh" = schwa/unstressed (about → uh-BOWT, sofa → SOH-fuh)
+   - "ih" = short I (bit → BIT, simple → SIM-pul — wait, "SIM" is already one syllable)
+   - "oh" = long O (home → HOHM, stone → STOHN)
+   - "oo" = "boot" vowel (food → FOOD, true → TROO)
+   - "ow" = "cow" vowel (cloud → KLOWD, house → HOWS)
+   - "yoo" = "you" sound (use → YOOZ, cute → KYOOT)
+   - "aw" = "law" vowel (thought → THAWT, call → KAWL)
+
+   Consonant sounds:
+   - "k" for hard C (cat → KAT, color → KUL-er)
+   - "s" for soft C (city → SIT-ee, cease → SEES)
+   - "j" for soft G or DGE (gentle → JEN-tul, judge → JUJ)
+   - "g" for hard G (go → GOH, gift → GIFT)
+   - "z" for Z or buzzing S (zone → ZOHN, rise → RYZ)
+   - "sh" for SH sound (ship → SHIP, nation → NAY-shun)
+   - "ch" for CH sound (church → CHURCH)
+   - "th" for TH sound (think → THINK, then → THEN)
+
+PHONETIC REFERENCE EXAMPLES (study these):
+
+Adjectives:
+- ephemeral → ih-FEM-er-uhl
+- melancholy → MEL-un-kol-ee
+- pernicious → per-NISH-us
+- tenacious → teh-NAY-shus
+- perspicacious → pur-spuh-KAY-shus
+- loquacious → loh-KWAY-shus
+- magnanimous → mag-NAN-uh-mus
+- recalcitrant → rih-KAL-sih-trunt
+- lugubrious → luh-GOO-bree-us
+- perfidious → per-FID-ee-us
+- sanguine → SANG-gwin
+- querulous → KWER-yuh-lus
+- surreptitious → sur-ep-TISH-us
+- equivocal → ih-KWIV-uh-kul
+- ineffable → in-EF-uh-bul
+- inimitable → ih-NIM-ih-tuh-bul
+- inscrutable → in-SKROO-tuh-bul
+- laconic → luh-KON-ik
+- meretricious → mer-ih-TRISH-us
+- mendacious → men-DAY-shus
+- truculent → TRUK-yuh-lunt
+- obdurate → OB-dyuh-rut
+- pugnacious → pug-NAY-shus
+- litigious → lih-TIJ-us
+- fastidious → fa-STID-ee-us
+- nefarious → neh-FAIR-ee-us
+- salacious → suh-LAY-shus
+- fallacious → fuh-LAY-shus
+- capricious → kuh-PRISH-us
+- officious → uh-FISH-us
+- vivacious → vih-VAY-shus
+- egregious → ih-GREE-jus
+- specious → SPEE-shus
+- propitious → pruh-PISH-us
+- auspicious → aw-SPISH-us
+- inauspicious → in-aw-SPISH-us
+
+Nouns:
+- sycophant → SIK-uh-fant
+- equanimity → ee-kwuh-NIM-ih-tee
+- vicissitude → vih-SIS-ih-tood
+- verisimilitude → ver-ih-sih-MIL-ih-tood
+- legerdemain → lej-er-duh-MAYN
+- contumely → KON-tyoo-muh-lee
+- penury → PEN-yuh-ree
+- solecism → SOL-ih-siz-um
+- opprobrium → uh-PROH-bree-um
+- calumny → KAL-um-nee
+- turpitude → TUR-pih-tood
+- diffidence → DIF-ih-duns
+- fecundity → fih-KUN-dih-tee
+- perspicacity → pur-spih-KAS-ih-tee
+- lassitude → LAS-ih-tood
+- subterfuge → SUB-ter-fyooj
+- impecuniosity → im-pih-kyoo-nee-OS-ih-tee
+- pusillanimity → pyoo-sil-uh-NIM-ih-tee
+- malfeasance → mal-FEE-zuns
+- chicanery → shih-KAY-nuh-ree
+- nefariousness → neh-FAIR-ee-us-nus
+- obsequiousness → ub-SEE-kwee-us-nus
+- parsimony → PAR-sih-moh-nee
+- pugnacity → pug-NAS-ih-tee
+- recidivism → rih-SID-ih-viz-um
+- temerity → tuh-MER-ih-tee
+- timidity → tih-MID-ih-tee
+- torpor → TOR-pur
+- venality → vih-NAL-ih-tee
+- volubility → vol-yuh-BIL-ih-tee
+
+Verbs:
+- ameliorate → uh-MEEL-yuh-rayt
+- obfuscate → OB-fus-kayt
+- enervate → EN-er-vayt
+- exacerbate → ig-ZAS-er-bayt
+- inculcate → IN-kul-kayt
+- vituperate → vy-TOO-per-ayt
+- dissemble → dih-SEM-bul
+- expiate → EK-spee-ayt
+- fulminate → FUL-mih-nayt
+- impugn → im-PYOON
+- inveigh → in-VAY
+- prevaricate → prih-VAR-ih-kayt
+- propitiate → pruh-PISH-ee-ayt
+- remonstrate → REM-un-strayt
+- excoriate → ek-SKOR-ee-ayt
+- obtrude → ub-TROOD
+- eviscerate → ih-VIS-er-ayt
+- adumbrate → AD-um-brayt
+- capitulate → kuh-PICH-uh-layt
+- expostulate → ek-SPOS-chuh-layt
+
+═══════════════════════════════════════════════════════
+COMPLETE OUTPUT EXAMPLES (use these as the exact format)
+═══════════════════════════════════════════════════════
+
+{"word":"ephemeral","phonetic":"ih-FEM-er-uhl","senses":[{"part_of_speech":"adjective","definition":"Lasting for a very short time; transitory.","examples":["The cherry blossoms were ephemeral, fading within days of blooming.","Her fame proved ephemeral once the scandal broke."]}],"synonyms":["transient","fleeting","transitory","momentary"],"antonyms":["permanent","enduring","lasting"],"related":["ephemera","ephemerality"],"origin":"From Greek 'ephemeros' meaning 'lasting only a day', from 'epi-' (upon) + 'hemera' (day)."}
+
+{"word":"ameliorate","phonetic":"uh-MEEL-yuh-rayt","senses":[{"part_of_speech":"verb","definition":"To make something bad or unsatisfactory better; to improve.","examples":["New policies were introduced to ameliorate the living conditions in overcrowded cities.","Rest and fluids can ameliorate the symptoms of a cold."]}],"synonyms":["improve","better","alleviate","mitigate"],"antonyms":["worsen","aggravate","exacerbate"],"related":["amelioration","meliorism"],"origin":"From Latin 'ameliorare', from 'ad-' (to) + 'melior' (better); entered English in the 18th century."}
+
+{"word":"equanimity","phonetic":"ee-kwuh-NIM-ih-tee","senses":[{"part_of_speech":"noun","definition":"Mental calmness and composure, especially in difficult situations.","examples":["She faced the devastating news with remarkable equanimity.","The philosopher maintained his equanimity even as the empire crumbled around him."]}],"synonyms":["composure","calmness","serenity","poise"],"antonyms":["agitation","anxiety","perturbation"],"related":["equable","unanimity"],"origin":"From Latin 'aequanimitas', from 'aequus' (equal) + 'animus' (mind, spirit)."}
+
+{"word":"laconic","phonetic":"luh-KON-ik","senses":[{"part_of_speech":"adjective","definition":"Using very few words; brief and concise in speech or expression.","examples":["His laconic reply — simply 'No' — ended the negotiation at once.","The general was known for laconic dispatches that conveyed maximum information in minimum words."]}],"synonyms":["terse","concise","succinct","pithy"],"antonyms":["verbose","loquacious","garrulous"],"related":["laconism","taciturn"],"origin":"From Greek 'Lakonikos', referring to the Spartans of Laconia, renowned for their terse speech."}
+
+{"word":"turpitude","phonetic":"TUR-pih-tood","senses":[{"part_of_speech":"noun","definition":"Wickedness, depravity, or grossly immoral behavior.","examples":["The official was disbarred for moral turpitude following the bribery conviction.","The court cited his long history of moral turpitude when denying parole."]}],"synonyms":["depravity","wickedness","villainy","corruption"],"antonyms":["virtue","rectitude","probity"],"related":["turpitudinous"],"origin":"From Latin 'turpitudo' meaning 'baseness', from 'turpis' (shameful, base)."}
+
+{"word":"vituperate","phonetic":"vy-TOO-per-ayt","senses":[{"part_of_speech":"verb","definition":"To criticize someone harshly and abusively; to berate in strong language.","examples":["The senator vituperated his opponents during the televised debate.","She vituperated anyone who dared challenge her authority."]}],"synonyms":["berate","revile","upbraid","castigate"],"antonyms":["praise","extol","commend"],"related":["vituperation","vituperative"],"origin":"From Latin 'vituperare', from 'vitium' (fault, vice) + 'parare' (to make, prepare)."}
+
+{"word":"obfuscate","phonetic":"OB-fus-kayt","senses":[{"part_of_speech":"verb","definition":"To render obscure, unclear, or unintelligible; to confuse or bewilder.","examples":["The lawyer's jargon seemed designed to obfuscate rather than clarify.","Dense bureaucratic language can obfuscate even the simplest policy."]}],"synonyms":["obscure","confuse","muddle","cloud"],"antonyms":["clarify","elucidate","illuminate"],"related":["obfuscation","obfuscatory"],"origin":"From Latin 'obfuscare', from 'ob-' (over) + 'fuscare' (to darken), from 'fuscus' (dark)."}
+
+{"word":"perfidious","phonetic":"per-FID-ee-us","senses":[{"part_of_speech":"adjective","definition":"Deceitful and untrustworthy; guilty of betrayal or treachery.","examples":["The perfidious advisor secretly sold state secrets to the enemy.","Her perfidious behavior eventually destroyed every friendship she had cultivated."]}],"synonyms":["treacherous","deceitful","disloyal","faithless"],"antonyms":["loyal","faithful","trustworthy"],"related":["perfidy","fidelity"],"origin":"From Latin 'perfidiosus', from 'perfidia' (treachery), from 'per-' (through, away) + 'fides' (faith, trust)."}
+
+{"word":"sanguine","phonetic":"SANG-gwin","senses":[{"part_of_speech":"adjective","definition":"Optimistic or positive, especially in a difficult situation.","examples":["She remained sanguine about the company's prospects despite the losses.","Few analysts were as sanguine as the minister about the recovery."]},{"part_of_speech":"adjective","definition":"Blood-red in color.","examples":["A sanguine sunset spread across the harbor."]}],"synonyms":["optimistic","hopeful","confident","buoyant"],"antonyms":["pessimistic","gloomy","despondent"],"related":["sanguinary","sanguinity"],"origin":"From Latin 'sanguineus', from 'sanguis' (blood); a ruddy complexion was once thought to signal a cheerful temperament."}
+
+═══════════════════════════════════════════════════════
+CRITICAL REMINDERS
+═══════════════════════════════════════════════════════
+
+PHONETIC — never use these IPA characters: ə ɪ ɛ æ ɑ ɒ ɔ ʊ ʌ ɜ θ ð ʃ ʒ ŋ ˈ ˌ / \\
+If you find yourself using any of those characters, stop and rewrite using English letters.
+
+SENSES — one per genuinely distinct meaning; most words need only one
+DEFINITION — should be complete standalone; avoid starting with "a", "an", "the"
+EXAMPLES — must clearly demonstrate meaning; write full sentences
+SYNONYMS / ANTONYMS / RELATED — real single words only; use [] rather than a weak match
+ORIGIN — be accurate but general; no specific first-attestation years
+OUTPUT — raw JSON object only, no wrapping, no code fences`;
+
+const STRICT_REMINDER =
+  "\n\nFINAL REMINDER: phonetic field must use English letters + hyphens ONLY. " +
+  "ALL CAPS for stressed syllable. Absolutely NO IPA symbols (ə ɪ ɛ ˈ etc.).";
+
+export class AnthropicBatchProvider implements WordDataProvider {
+  readonly name = "anthropic";
+  private client: Anthropic;
+
+  constructor(client: Anthropic = new Anthropic()) {
+    this.client = client;
+  }
+
+  async submit(words: string[], { strict }: SubmitOptions): Promise<SubmittedBatch> {
+    const systemText = SYSTEM_PROMPT + (strict ? STRICT_REMINDER : "");
+
+    const requests = words.map((word) => ({
+      custom_id: word,
+      params: {
+        model: MODEL,
+        max_tokens: MAX_TOKENS,
+        system: [
+          {
+            type: "text" as const,
+            text: systemText,
+            cache_control: { type: "ephemeral" as const },
+          },
+        ],
+        messages: [
+          { role: "user" as const, content: `Generate word data for: ${word}` },
+        ],
+      },
+    }));
+
+    const batch = await this.client.messages.batches.create({ requests });
+    return { batchId: batch.id, status: batch.processing_status };
+  }
+
+  async status(batchId: string): Promise<BatchStatus> {
+    const batch = await this.client.messages.batches.retrieve(batchId);
+    const c = batch.request_counts;
+    return {
+      ended: batch.processing_status === "ended",
+      status: batch.processing_status,
+      processing: c.processing,
+      succeeded: c.succeeded,
+      errored: c.errored,
+    };
+  }
+
+  async *results(batchId: string): AsyncIterable<BatchResult> {
+    for await (const result of await this.client.messages.batches.results(batchId)) {
+      const word = result.custom_id;
+      if (result.result.type !== "succeeded") {
+        yield {
+          word,
+          type: "failed",
+          error: `batch result type: ${result.result.type}`,
+          raw: JSON.stringify(result.result),
+        };
+        continue;
+      }
+      const textBlock = result.result.message.content.find(
+        (b): b is Anthropic.TextBlock => b.type === "text"
+      );
+      yield { word, type: "succeeded", text: textBlock ? textBlock.text : null };
+    }
+  }
+
+  async verify(): Promise<void> {
+    // Listing models is a cheap authenticated call; no batch is submitted.
+    await this.client.models.list();
+  }
+}
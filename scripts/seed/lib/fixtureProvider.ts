@@ -0,0 +1,113 @@
+// scripts/seed/lib/fixtureProvider.ts
+//
+// Deterministic offline WordDataProvider. Submitted batches are written to
+// `stateDir` so the submit → poll → process cycle works across separate runs
+// of the CLI, just like a real batch. Responses come from `responses` when
+// given (raw text, so tests can feed code fences or broken JSON), otherwise a
+// valid entry is synthesized from the word itself.
+
+import * as fs from "fs";
+import * as path from "path";
+import type { BatchResult, BatchStatus, SubmitOptions, SubmittedBatch, WordDataProvider } from "./provider";
+
+export type FixtureResponse = string | { error: string };
+
+export interface FixtureProviderOptions {
+  stateDir: string;
+  responses?: Record<string, FixtureResponse>;
+  // Used instead of `responses` for strict (retry) submissions.
+  strictResponses?: Record<string, FixtureResponse>;
+  // How many status() calls report "in_progress" before the batch ends.
+  pollsUntilEnded?: number;
+}
+
+interface FixtureBatch {
+  words: string[];
+  strict: boolean;
+  polls: number;
+}
+
+export function synthesizeWordResponse(word: string): string {
+  return JSON.stringify({
+    word,
+    phonetic: word.replace(/[^a-zA-Z-]/g, "").toUpperCase(),
+    senses: [
+      {
+        part_of_speech: "noun",
+        definition: `Fixture definition of ${word}.`,
+        examples: [`The first example uses ${word}.`, `A second sentence with ${word} in it.`],
+      },
+    ],
+    synonyms: [],
+    antonyms: [],
+    related: [],
+    origin: `Fixture origin for ${word}, generated offline.`,
+  });
+}
+
+export class FixtureProvider implements WordDataProvider {
+  readonly name = "fixture";
+  private options: FixtureProviderOptions;
+
+  constructor(options: FixtureProviderOptions) {
+    this.options = options;
+  }
+
+  private batchFile(batchId: string): string {
+    return path.join(this.options.stateDir, `${batchId}.json`);
+  }
+
+  private readBatch(batchId: string): FixtureBatch {
+    const file = this.batchFile(batchId);
+    if (!fs.existsSync(file)) throw new Error(`Unknown fixture batch: ${batchId}`);
+    return JSON.parse(fs.readFileSync(file, "utf-8"));
+  }
+
+  private writeBatch(batchId: string, batch: FixtureBatch): void {
+    fs.writeFileSync(this.batchFile(batchId), JSON.stringify(batch, null, 2));
+  }
+
+  async submit(words: string[], { strict }: SubmitOptions): Promise<SubmittedBatch> {
+    fs.mkdirSync(this.options.stateDir, { recursive: true });
+    const existing = fs.readdirSync(this.options.stateDir).filter((f) => f.endsWith(".json"));
+    const batchId = `fixture-${existing.length + 1}`;
+    this.writeBatch(batchId, { words, strict, polls: 0 });
+    return { batchId, status: "in_progress" };
+  }
+
+  async status(batchId: string): Promise<BatchStatus> {
+    const batch = this.readBatch(batchId);
+    batch.polls++;
+    this.writeBatch(batchId, batch);
+
+    const ended = batch.polls > (this.options.pollsUntilEnded ?? 0);
+    const responses = batch.words.map((word) => this.responseFor(word, batch.strict));
+    const errored = responses.filter((r) => typeof r !== "string").length;
+    return {
+      ended,
+      status: ended ? "ended" : "in_progress",
+      processing: ended ? 0 : batch.words.length,
+      succeeded: ended ? batch.words.length - errored : 0,
+      errored: ended ? errored : 0,
+    };
+  }
+
+  async *results(batchId: string): AsyncIterable<BatchResult> {
+    const batch = this.readBatch(batchId);
+    for (const word of batch.words) {
+      const response = this.responseFor(word, batch.strict);
+      if (typeof response === "string") {
+        yield { word, type: "succeeded", text: response };
+      } else {
+        yield { word, type: "failed", error: response.error, raw: JSON.stringify(response) };
+      }
+    }
+  }
+
+  async verify(): Promise<void> {}
+
+  private responseFor(word: string, strict: boolean): FixtureResponse {
+    const table = strict ? this.options.strictResponses ?? this.options.responses : this.options.responses;
+    return table?.[word] ?? synthesizeWordResponse(word);
+  }
+}
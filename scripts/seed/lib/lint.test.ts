@@ -0,0 +1,174 @@
+import { containsWordForm, estimateSyllables, lintWordData, lintWordFiles } from "./lint";
+import type { WordData, WordSense } from "./wordData";
+
+const laconicSense: WordSense = {
+  part_of_speech: "adjective",
+  definition: "Using very few words; brief and concise in speech or expression.",
+  examples: [
+    "His laconic reply — simply 'No' — ended the negotiation at once.",
+    "She answered laconically, as always.",
+  ],
+};
+
+const laconic: WordData = {
+  word: "laconic",
+  ...laconicSense,
+  phonetic: "luh-KON-ik",
+  origin: "From Greek 'Lakonikos', referring to the Spartans of Laconia, renowned for their terse speech.",
+  senses: [laconicSense],
+  synonyms: ["terse", "concise"],
+  antonyms: ["verbose"],
+  related: ["laconism"],
+};
+
+// laconic with its one sense changed.
+function withSense(patch: Partial<WordSense>): WordData {
+  return { ...laconic, ...patch, senses: [{ ...laconicSense, ...patch }] };
+}
+
+function rules(data: WordData): string[] {
+  return lintWordData(data, `${data.word}.json`).map((issue) => issue.rule);
+}
+
+describe("containsWordForm", () => {
+  it.each([
+    ["The river began to abate.", "abate"],
+    ["The storm was abating.", "abate"],
+    ["They abetted the thief.", "abet"],
+    ["He tarried too long.", "tarry"],
+    ["She spoke gently.", "gentle"],
+    ["Her cheeks were ruddier than usual.", "ruddy"],
+    ["Two well-known obfuscations.", "obfuscation"],
+    ["A self-effacing laconic-style answer.", "laconic"],
+    ["EPHEMERAL fame.", "ephemeral"],
+    ["Her avant-garde staging divided critics.", "avant-garde"],
+    ["The teacher set two quizzes.", "quiz"],
+    ["She grew wiser with age.", "wise"],
+  ])("finds a form of the word in %p", (sentence, word) => {
+    expect(containsWordForm(sentence, word)).toBe(true);
+  });
+
+  it.each([
+    ["The storm passed quickly.", "abate"],
+    ["Her laconism was famous.", "laconic"],
+    ["The abbot prayed.", "abet"],
+  ])("rejects %p for %p", (sentence, word) => {
+    expect(containsWordForm(sentence, word)).toBe(false);
+  });
+});
+
+describe("estimateSyllables", () => {
+  it.each([
+    ["laconic", 3],
+    ["ameliorate", 4],
+    ["equanimity", 5],
+    ["gentle", 2],
+    ["fate", 1],
+  ])("%s → %i", (word, count) => {
+    expect(estimateSyllables(word)).toBe(count);
+  });
+});
+
+describe("lintWordData", () => {
+  it("passes a clean entry", () => {
+    expect(rules(laconic)).toEqual([]);
+  });
+
+  it("flags examples that don't use the word", () => {
+    expect(rules(withSense({ examples: [laconic.examples[0], "He said very little."] }))).toEqual([
+      "example-missing-word",
+    ]);
+  });
+
+  it("flags duplicate examples, ignoring case and punctuation", () => {
+    expect(rules(withSense({ examples: [laconic.examples[0], laconic.examples[0].toUpperCase() + "!"] }))).toEqual([
+      "duplicate-example",
+    ]);
+  });
+
+  it("flags a part of speech outside the allowed set", () => {
+    expect(rules(withSense({ part_of_speech: "adj." }))).toEqual(["part-of-speech"]);
+  });
+
+  it("flags definitions that start with an article", () => {
+    expect(rules(withSense({ definition: "A way of speaking tersely." }))).toEqual(["definition-article"]);
+    expect(rules(withSense({ definition: "Another way of speaking tersely." }))).toEqual([]);
+  });
+
+  it("flags specific years in the origin but not centuries", () => {
+    expect(rules({ ...laconic, origin: laconic.origin + " First recorded in 1583." })).toEqual(["origin-year"]);
+    expect(rules({ ...laconic, origin: laconic.origin + " Popular in the 1590s." })).toEqual(["origin-year"]);
+    expect(rules({ ...laconic, origin: laconic.origin + " Entered English in the 16th century." })).toEqual([]);
+  });
+
+  it("flags profanity in any text field", () => {
+    const issues = lintWordData(
+      withSense({ examples: [laconic.examples[0], "A laconic 'oh shit' was all he said."] }),
+      "laconic.json"
+    );
+    expect(issues).toEqual([
+      {
+        file: "laconic.json",
+        word: "laconic",
+        rule: "profanity",
+        severity: "error",
+        message: 'example 2 contains "shit"',
+      },
+    ]);
+    expect(rules({ ...laconic, origin: laconic.origin + " Compare Scunthorpe." })).toEqual([]);
+    expect(rules({ ...laconic, related: ["bitchiness"] })).toEqual(["profanity"]);
+  });
+
+  it("checks every sense and labels which one has the problem", () => {
+    const issues = lintWordData(
+      {
+        ...laconic,
+        senses: [
+          laconicSense,
+          { part_of_speech: "adj", definition: "The laconic style of Spartan speech.", examples: ["Laconic wit."] },
+        ],
+      },
+      "laconic.json"
+    );
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'sense 2 part_of_speech "adj" is not one of adjective, noun, verb, adverb, conjunction, preposition, interjection',
+      "sense 2 definition starts with an article: The laconic style of Spartan speech.",
+    ]);
+  });
+
+  it("warns when the phonetic is far off the spelling's syllable count", () => {
+    const issues = lintWordData({ ...laconic, phonetic: "luh-KON-ik-uh-lee-ish" }, "laconic.json");
+    expect(issues.map((issue) => [issue.rule, issue.severity])).toEqual([["phonetic-syllables", "warning"]]);
+    expect(rules({ ...laconic, phonetic: "luh-KON-ik-lee" })).toEqual([]);
+  });
+});
+
+describe("lintWordFiles", () => {
+  it("reports unreadable files, cross-file duplicates and totals", () => {
+    const report = lintWordFiles([
+      { file: "broken.json", data: undefined },
+      { file: "incomplete.json", data: { word: "terse" } },
+      { file: "laconic.json", data: laconic },
+      // Generated before senses existed.
+      {
+        file: "terse.json",
+        data: {
+          word: "terse",
+          part_of_speech: "adjective",
+          definition: "Sparing in the use of words; abrupt.",
+          phonetic: "TURS",
+          examples: ["A terse note.", laconic.examples[0]],
+          origin: "From Latin 'tersus', meaning wiped or polished.",
+        },
+      },
+    ]);
+
+    expect(report).toMatchObject({ files: 4, errors: 4, warnings: 0 });
+    expect(report.issues.map(({ file, rule, message }) => [file, rule, message])).toEqual([
+      ["broken.json", "invalid-data", "not valid JSON"],
+      ["incomplete.json", "invalid-data", "missing/invalid field: phonetic"],
+      ["terse.json", "example-missing-word", expect.stringContaining("example 2")],
+      ["terse.json", "duplicate-example", 'example also used for "laconic"'],
+    ]);
+  });
+});
@@ -0,0 +1,185 @@
+// scripts/seed/lib/lint.ts
+//
+// Content checks for generated word files, beyond the structural ones in
+// validateWordData. Errors are things SYSTEM_PROMPT explicitly forbids or
+// that would read badly in the app; warnings are heuristics worth a look.
+
+import { isInflectionOf } from "../../../services/wordForms";
+import { PARTS_OF_SPEECH, validateWordData, type WordData } from "./wordData";
+
+export type LintSeverity = "error" | "warning";
+
+export type LintRule =
+  | "invalid-data"
+  | "example-missing-word"
+  | "duplicate-example"
+  | "part-of-speech"
+  | "definition-article"
+  | "origin-year"
+  | "profanity"
+  | "phonetic-syllables";
+
+export interface LintIssue {
+  file: string;
+  word: string;
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+}
+
+export interface LintReport {
+  files: number;
+  errors: number;
+  warnings: number;
+  issues: LintIssue[];
+}
+
+export interface LintInput {
+  file: string;
+  // Parsed file contents, or undefined if the file wasn't valid JSON.
+  data: unknown;
+}
+
+// Whole words only, so e.g. "Scunthorpe" doesn't trip it.
+const PROFANITY = /\b(fuck\w*|shit\w*|cunts?|bitch\w*|assholes?|whores?|sluts?|motherfuck\w*)\b/i;
+
+// Specific years ("in 1623", "the 1590s"). Centuries are fine.
+const YEAR = /\b\d{3,4}s?\b/;
+
+const LEADING_ARTICLE = /^(a|an|the)\s/i;
+
+// Hyphenated compounds count as a whole ("avant-garde") or if any part is a
+// form of the word ("laconic-style").
+export function containsWordForm(sentence: string, word: string): boolean {
+  const tokens = sentence.match(/[A-Za-z]+(?:-[A-Za-z]+)*/g) ?? [];
+  return tokens.some((token) => [token, ...token.split("-")].some((part) => isInflectionOf(part, word)));
+}
+
+// Rough spoken-syllable count from spelling: vowel groups, less a silent final e.
+export function estimateSyllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, "");
+  let count = (w.match(/[aeiouy]+/g) ?? []).length;
+  if (w.endsWith("e") && !/[^aeiouy]le$/.test(w) && count > 1) count--;
+  return Math.max(count, 1);
+}
+
+function normalizeExample(example: string): string {
+  return example.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Every example of every sense, labelled for messages. Senses are only
+// numbered when there's more than one.
+function labelledExamples(data: WordData): Array<{ label: string; example: string }> {
+  return data.senses.flatMap((sense, s) =>
+    sense.examples.map((example, i) => ({
+      label: `${data.senses.length > 1 ? `sense ${s + 1} ` : ""}example ${i + 1}`,
+      example,
+    }))
+  );
+}
+
+export function lintWordData(data: WordData, file: string): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const report = (rule: LintRule, severity: LintSeverity, message: string) =>
+    issues.push({ file, word: data.word, rule, severity, message });
+  const examples = labelledExamples(data);
+
+  for (const { label, example } of examples) {
+    if (!containsWordForm(example, data.word)) {
+      report("example-missing-word", "error", `${label} doesn't use "${data.word}": ${example}`);
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const { label, example } of examples) {
+    const key = normalizeExample(example);
+    if (seen.has(key)) report("duplicate-example", "error", `${label} repeats an earlier example`);
+    seen.add(key);
+  }
+
+  data.senses.forEach((sense, s) => {
+    const label = data.senses.length > 1 ? `sense ${s + 1} ` : "";
+    if (!(PARTS_OF_SPEECH as readonly string[]).includes(sense.part_of_speech)) {
+      report(
+        "part-of-speech",
+        "error",
+        `${label}part_of_speech "${sense.part_of_speech}" is not one of ${PARTS_OF_SPEECH.join(", ")}`
+      );
+    }
+    if (LEADING_ARTICLE.test(sense.definition)) {
+      report("definition-article", "error", `${label}definition starts with an article: ${sense.definition}`);
+    }
+  });
+
+  const year = data.origin.match(YEAR);
+  if (year) report("origin-year", "error", `origin mentions a specific year (${year[0]})`);
+
+  for (const [field, text] of [
+    ...data.senses.map((sense, s) => [data.senses.length > 1 ? `sense ${s + 1} definition` : "definition", sense.definition]),
+    ["origin", data.origin],
+    ...examples.map(({ label, example }) => [label, example]),
+    ...(["synonyms", "antonyms", "related"] as const).map((list) => [list, data[list].join(", ")]),
+  ]) {
+    const match = text.match(PROFANITY);
+    if (match) report("profanity", "error", `${field} contains "${match[0]}"`);
+  }
+
+  const spoken = data.phonetic.split("-").length;
+  const expected = estimateSyllables(data.word);
+  if (Math.abs(spoken - expected) > Math.max(2, Math.round(expected / 2))) {
+    report(
+      "phonetic-syllables",
+      "warning",
+      `phonetic "${data.phonetic}" has ${spoken} syllables, spelling suggests about ${expected}`
+    );
+  }
+
+  return issues;
+}
+
+// Lints every file, plus checks across files: the same example sentence
+// showing up under two different words.
+export function lintWordFiles(inputs: LintInput[]): LintReport {
+  const issues: LintIssue[] = [];
+  const exampleOwners = new Map<string, string>();
+
+  for (const { file, data } of inputs) {
+    const result = validateWordData(data);
+    if (!result.valid) {
+      const word = (data as { word?: unknown } | undefined)?.word;
+      issues.push({
+        file,
+        word: typeof word === "string" ? word : "",
+        rule: "invalid-data",
+        severity: "error",
+        message: data === undefined ? "not valid JSON" : result.error,
+      });
+      continue;
+    }
+
+    const word = result.data;
+    issues.push(...lintWordData(word, file));
+
+    for (const example of new Set(labelledExamples(word).map(({ example }) => normalizeExample(example)))) {
+      const owner = exampleOwners.get(example);
+      if (owner && owner !== word.word) {
+        issues.push({
+          file,
+          word: word.word,
+          rule: "duplicate-example",
+          severity: "error",
+          message: `example also used for "${owner}"`,
+        });
+      } else {
+        exampleOwners.set(example, word.word);
+      }
+    }
+  }
+
+  return {
+    files: inputs.length,
+    errors: issues.filter((issue) => issue.severity === "error").length,
+    warnings: issues.filter((issue) => issue.severity === "warning").length,
+    issues,
+  };
+}
@@ -0,0 +1,99 @@
+import { applyPacks, formatPacks, MIN_PACK_SIZE, PACK_RULES, planPacks } from "./packs";
+import type { WordRow } from "./upload";
+
+function row(id: number, text: string, origin: string, definition = `Definition of ${text}.`): WordRow {
+  const sense = { part_of_speech: "noun", definition, examples: [`One ${text}.`, `Two ${text}s.`] };
+  return {
+    id,
+    word: text,
+    ...sense,
+    phonetic: "TEST",
+    origin,
+    senses: [sense],
+    synonyms: [],
+    antonyms: [],
+    related: [],
+    difficulty: null,
+    tags: [],
+  };
+}
+
+function rule(slug: string) {
+  return PACK_RULES.find((r) => r.slug === slug)!;
+}
+
+describe("PACK_RULES", () => {
+  it("finds words from Greek myth", () => {
+    const myth = rule("greek-myth");
+    expect(myth.matches(row(0, "mentor", "From Greek Mentor, Odysseus's adviser in Homer's Odyssey."))).toBe(true);
+    expect(myth.matches(row(0, "tantalize", "From Greek Tantalus, a mythological king punished by the gods."))).toBe(true);
+    expect(myth.matches(row(0, "ephemeral", "From Greek 'ephemeros' (lasting a day)."))).toBe(false);
+    expect(myth.matches(row(0, "pantheon", "From Latin, of all the gods."))).toBe(false);
+  });
+
+  it("finds legal words by origin or definition", () => {
+    const lawyers = rule("lawyers");
+    expect(lawyers.matches(row(0, "estoppel", "From Old French, via Law French."))).toBe(true);
+    expect(lawyers.matches(row(0, "tort", "From Latin 'tortum'.", "A wrongful act leading to legal liability."))).toBe(true);
+    expect(lawyers.matches(row(0, "torpor", "From Latin 'torpor' (numbness)."))).toBe(false);
+  });
+
+  it("matches languages as whole, capitalized words", () => {
+    expect(rule("greek").matches(row(0, "x", "From Greek 'x'."))).toBe(true);
+    expect(rule("latin-roots").matches(row(0, "x", "From Latin 'x'."))).toBe(true);
+    expect(rule("latin-roots").matches(row(0, "x", "From Latinate usage."))).toBe(false);
+    expect(rule("old-english").matches(row(0, "x", "From Old English 'x'."))).toBe(true);
+    expect(rule("french").matches(row(0, "x", "From French 'x'."))).toBe(true);
+  });
+});
+
+describe("planPacks", () => {
+  const greek = ["zephyr", "chimera", "nemesis", "mentor", "odyssey"].map((w, i) => row(i, w, `From Greek '${w}'.`));
+  const latin = row(10, "torpor", "From Latin 'torpor' (numbness).");
+
+  it("lists each pack's words alphabetically", () => {
+    const pack = planPacks([...greek, latin]).find((p) => p.slug === "greek")!;
+    expect(pack.wordIds).toEqual([1, 3, 2, 4, 0]);
+    expect(pack).toMatchObject({ title: "Words from Greek", sort_order: PACK_RULES.indexOf(rule("greek")) });
+  });
+
+  it(`skips packs with fewer than ${MIN_PACK_SIZE} words`, () => {
+    const packs = planPacks([...greek, latin]);
+    expect(packs.map((p) => p.slug)).toEqual(["greek"]);
+    expect(formatPacks(packs)).toContain("  greek: 5 words");
+    expect(formatPacks(packs)).toContain(
+      `  latin-roots: skipped (fewer than ${MIN_PACK_SIZE} words), unpublished if live`
+    );
+  });
+});
+
+describe("applyPacks", () => {
+  const config = { url: "https://test.supabase.co", serviceRoleKey: "service-key" };
+  let requests: string[];
+
+  beforeEach(() => {
+    requests = [];
+    jest.spyOn(global, "fetch").mockImplementation(async (input, init) => {
+      const url = String(input).replace(`${config.url}/rest/v1/`, "");
+      requests.push(`${init?.method} ${decodeURIComponent(url)}`);
+      const body = url.startsWith("packs?on_conflict") ? [{ id: 3, slug: "greek" }] : null;
+      return new Response(body ? JSON.stringify(body) : null, { status: 200 });
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("unpublishes generated packs that dropped below the minimum, then replaces the rest", async () => {
+    const greek = ["zephyr", "chimera", "nemesis", "mentor", "odyssey"].map((w, i) => row(i, w, `From Greek '${w}'.`));
+    await applyPacks(config, planPacks(greek));
+
+    const others = PACK_RULES.map((r) => r.slug).filter((slug) => slug !== "greek");
+    expect(requests).toEqual([
+      `DELETE packs?slug=in.(${others.join(",")})`,
+      "POST packs?on_conflict=slug&select=id,slug",
+      "POST rpc/replace_pack_words",
+    ]);
+  });
+});
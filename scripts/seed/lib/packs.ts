@@ -0,0 +1,136 @@
+// scripts/seed/lib/packs.ts
+//
+// Generates word packs from public.words by matching origin text, e.g. every
+// word whose origin mentions Greek. Re-running rebuilds each generated pack's
+// word list, and unpublishes a generated pack that has dropped below
+// MIN_PACK_SIZE; packs with other slugs (curated by hand) are never touched.
+
+import { restHeaders, type SupabaseConfig, type WordRow } from "./upload";
+
+// Packs with fewer matching words aren't worth a tab entry.
+export const MIN_PACK_SIZE = 5;
+
+export interface PackRule {
+  slug: string;
+  title: string;
+  description: string;
+  matches: (word: Pick<WordRow, "origin" | "definition">) => boolean;
+}
+
+// Listed in the order the Packs tab shows them.
+export const PACK_RULES: PackRule[] = [
+  {
+    slug: "greek-myth",
+    title: "Words from Greek myth",
+    description: "Named for the gods, heroes and monsters of Greek mythology.",
+    matches: ({ origin }) =>
+      /\bGreek\b/.test(origin) &&
+      /\b(myth(ology|ological)?|gods?|goddess|nymph|Titans?|Homer|Odyssey|Odysseus|Trojan|Zeus)\b/i.test(origin),
+  },
+  {
+    slug: "lawyers",
+    title: "Words for lawyers",
+    description: "The vocabulary of courts, contracts and legal argument.",
+    matches: ({ origin, definition }) =>
+      /\b(law|legal|court|Law French)\b/i.test(origin) || /\b(law|legal|court|lawsuit|contract)\b/i.test(definition),
+  },
+  {
+    slug: "eponyms",
+    title: "Named after people",
+    description: "Words that began as someone's name.",
+    matches: ({ origin }) => /\bnamed (after|for)\b/i.test(origin),
+  },
+  {
+    slug: "greek",
+    title: "Words from Greek",
+    description: "Every word whose origin goes back to Greek.",
+    matches: ({ origin }) => /\bGreek\b/.test(origin),
+  },
+  {
+    slug: "latin-roots",
+    title: "Latin roots",
+    description: "Every word built from Latin.",
+    matches: ({ origin }) => /\bLatin\b/.test(origin),
+  },
+  {
+    slug: "french",
+    title: "Borrowed from French",
+    description: "Words English took from French, old and new.",
+    matches: ({ origin }) => /\bFrench\b/.test(origin),
+  },
+  {
+    slug: "old-english",
+    title: "Old English",
+    description: "Words English has had since before the Normans.",
+    matches: ({ origin }) => /\bOld English\b/.test(origin),
+  },
+];
+
+export interface PlannedPack {
+  slug: string;
+  title: string;
+  description: string;
+  sort_order: number;
+  // In the order the pack steps through them: alphabetical.
+  wordIds: number[];
+}
+
+export function planPacks(words: WordRow[]): PlannedPack[] {
+  const sorted = [...words].sort((a, b) => a.word.localeCompare(b.word));
+  return PACK_RULES.map((rule, sort_order) => ({
+    slug: rule.slug,
+    title: rule.title,
+    description: rule.description,
+    sort_order,
+    wordIds: sorted.filter((word) => rule.matches(word)).map((word) => word.id),
+  })).filter((pack) => pack.wordIds.length >= MIN_PACK_SIZE);
+}
+
+async function request(config: SupabaseConfig, pathAndQuery: string, init: RequestInit): Promise<Response> {
+  const res = await fetch(`${config.url}/rest/v1/${pathAndQuery}`, {
+    ...init,
+    headers: { ...restHeaders(config), ...init.headers },
+  });
+  if (!res.ok) {
+    const body = await res.text();
+    throw new Error(`${init.method} ${pathAndQuery.split("?")[0]} failed (${res.status}): ${body}`);
+  }
+  return res;
+}
+
+// Generated packs left out of the plan for having too few words.
+export function skippedSlugs(packs: PlannedPack[]): string[] {
+  return PACK_RULES.filter((rule) => !packs.some((pack) => pack.slug === rule.slug)).map((rule) => rule.slug);
+}
+
+// Deletes skipped packs that were published before (their pack_words go with
+// them), so the app stops serving a stale word list. Then upserts the packs
+// on slug and replaces each one's word list in a single transaction
+// (replace_pack_words, supabase/migrations/0016_replace_pack_words.sql).
+export async function applyPacks(config: SupabaseConfig, packs: PlannedPack[]): Promise<void> {
+  const skipped = skippedSlugs(packs);
+  if (skipped.length > 0) {
+    await request(config, `packs?slug=in.(${skipped.join(",")})`, { method: "DELETE" });
+  }
+  if (packs.length === 0) return;
+  const res = await request(config, "packs?on_conflict=slug&select=id,slug", {
+    method: "POST",
+    headers: { Prefer: "resolution=merge-duplicates,return=representation" },
+    body: JSON.stringify(packs.map(({ wordIds, ...pack }) => pack)),
+  });
+  const ids = new Map(((await res.json()) as { id: number; slug: string }[]).map((row) => [row.slug, row.id]));
+
+  for (const pack of packs) {
+    await request(config, "rpc/replace_pack_words", {
+      method: "POST",
+      body: JSON.stringify({ p_pack_id: ids.get(pack.slug)!, p_word_ids: pack.wordIds }),
+    });
+  }
+}
+
+export function formatPacks(packs: PlannedPack[]): string {
+  return [
+    ...packs.map((pack) => `  ${pack.slug}: ${pack.wordIds.length} words`),
+    ...skippedSlugs(packs).map((slug) => `  ${slug}: skipped (fewer than ${MIN_PACK_SIZE} words), unpublished if live`),
+  ].join("\n");
+}
@@ -0,0 +1,157 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FixtureProvider, synthesizeWordResponse, type FixtureProviderOptions } from "./fixtureProvider";
+import { runGenerate, type FailureEntry, type SeedPaths } from "./pipeline";
+
+let root: string;
+let paths: SeedPaths;
+
+function setup(words: string[]) {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "seed-"));
+  paths = {
+    dataDir: path.join(root, "data"),
+    wordsFile: path.join(root, "words.txt"),
+    batchStateFile: path.join(root, "batch-state.json"),
+    failuresFile: path.join(root, "failures.json"),
+  };
+  fs.writeFileSync(paths.wordsFile, words.join("\n") + "\n");
+}
+
+function provider(options: Partial<FixtureProviderOptions> = {}) {
+  return new FixtureProvider({ stateDir: path.join(root, "fixture-batches"), ...options });
+}
+
+function savedWords(): string[] {
+  if (!fs.existsSync(paths.dataDir)) return [];
+  return fs.readdirSync(paths.dataDir).map((f) => f.replace(/\.json$/, "")).sort();
+}
+
+function readFailures(): FailureEntry[] {
+  return JSON.parse(fs.readFileSync(paths.failuresFile, "utf-8"));
+}
+
+beforeEach(() => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe("runGenerate", () => {
+  it("submits pending words, then processes them on the next run", async () => {
+    setup(["laconic", "ephemeral"]);
+    const fixtures = provider();
+
+    await runGenerate(fixtures, paths);
+    const state = JSON.parse(fs.readFileSync(paths.batchStateFile, "utf-8"));
+    expect(state).toMatchObject({ batchId: "fixture-1", provider: "fixture", wordCount: 2 });
+    expect(savedWords()).toEqual([]);
+
+    await runGenerate(fixtures, paths);
+    expect(fs.existsSync(paths.batchStateFile)).toBe(false);
+    expect(fs.existsSync(paths.failuresFile)).toBe(false);
+    expect(savedWords()).toEqual(["ephemeral", "laconic"]);
+    const saved = JSON.parse(fs.readFileSync(path.join(paths.dataDir, "laconic.json"), "utf-8"));
+    expect(saved).toMatchObject(JSON.parse(synthesizeWordResponse("laconic")));
+    expect(saved.definition).toBe("Fixture definition of laconic.");
+  });
+
+  it("keeps the batch in flight until the provider reports it ended", async () => {
+    setup(["laconic"]);
+    const fixtures = provider({ pollsUntilEnded: 2 });
+
+    await runGenerate(fixtures, paths); // submit
+    await runGenerate(fixtures, paths); // in progress
+    await runGenerate(fixtures, paths); // in progress
+    expect(fs.existsSync(paths.batchStateFile)).toBe(true);
+    expect(savedWords()).toEqual([]);
+
+    await runGenerate(fixtures, paths);
+    expect(fs.existsSync(paths.batchStateFile)).toBe(false);
+    expect(savedWords()).toEqual(["laconic"]);
+  });
+
+  it("only submits words that have no data file yet", async () => {
+    setup(["laconic", "ephemeral"]);
+    fs.mkdirSync(paths.dataDir, { recursive: true });
+    fs.writeFileSync(path.join(paths.dataDir, "laconic.json"), "{}");
+
+    await runGenerate(provider(), paths);
+    expect(JSON.parse(fs.readFileSync(paths.batchStateFile, "utf-8")).wordCount).toBe(1);
+  });
+
+  it("saves code-fenced responses", async () => {
+    setup(["laconic"]);
+    const fixtures = provider({
+      responses: { laconic: "```json\n" + synthesizeWordResponse("laconic") + "\n```" },
+    });
+
+    await runGenerate(fixtures, paths);
+    await runGenerate(fixtures, paths);
+    expect(savedWords()).toEqual(["laconic"]);
+  });
+
+  it("records partial failures and saves the rest", async () => {
+    setup(["laconic", "ephemeral", "sanguine", "torpor"]);
+    const fixtures = provider({
+      responses: {
+        ephemeral: "Sorry, I can't help with that.",
+        sanguine: JSON.stringify({ ...JSON.parse(synthesizeWordResponse("sanguine")), phonetic: "ˈsæŋɡwɪn" }),
+        torpor: { error: "batch result type: expired" },
+      },
+    });
+
+    await runGenerate(fixtures, paths);
+    await runGenerate(fixtures, paths);
+
+    expect(savedWords()).toEqual(["laconic"]);
+    expect(readFailures()).toEqual([
+      { word: "ephemeral", error: "JSON parse failed", rawResponse: "Sorry, I can't help with that." },
+      { word: "sanguine", error: "invalid phonetic: ˈsæŋɡwɪn", rawResponse: expect.any(String) },
+      { word: "torpor", error: "batch result type: expired", rawResponse: expect.any(String) },
+    ]);
+  });
+
+  it("retries failures with the strict prompt until they succeed", async () => {
+    setup(["laconic", "ephemeral"]);
+    const fixtures = provider({
+      responses: { ephemeral: '{"word": "ephemeral"' },
+      strictResponses: {},
+    });
+
+    await runGenerate(fixtures, paths);
+    await runGenerate(fixtures, paths);
+    expect(readFailures().map((f) => f.word)).toEqual(["ephemeral"]);
+
+    await runGenerate(fixtures, paths, { retry: true });
+    expect(fs.existsSync(paths.failuresFile)).toBe(false);
+    const state = JSON.parse(fs.readFileSync(paths.batchStateFile, "utf-8"));
+    expect(state).toMatchObject({ batchId: "fixture-2", wordCount: 1 });
+    expect(JSON.parse(fs.readFileSync(path.join(root, "fixture-batches", "fixture-2.json"), "utf-8"))).toMatchObject({
+      words: ["ephemeral"],
+      strict: true,
+    });
+
+    await runGenerate(fixtures, paths);
+    expect(savedWords()).toEqual(["ephemeral", "laconic"]);
+    expect(fs.existsSync(paths.failuresFile)).toBe(false);
+  });
+
+  it("does nothing on retry without failures", async () => {
+    setup(["laconic"]);
+    await runGenerate(provider(), paths, { retry: true });
+    expect(fs.existsSync(paths.batchStateFile)).toBe(false);
+  });
+
+  it("refuses to poll a batch submitted by another provider", async () => {
+    setup(["laconic"]);
+    fs.writeFileSync(
+      paths.batchStateFile,
+      JSON.stringify({ batchId: "msgbatch_123", submittedAt: "2026-01-01T00:00:00Z", wordCount: 1 })
+    );
+    await expect(runGenerate(provider(), paths)).rejects.toThrow("--provider=anthropic");
+  });
+});
@@ -0,0 +1,211 @@
+// scripts/seed/lib/pipeline.ts
+//
+// The generate state machine, independent of which provider runs the batch:
+//   No batch-state.json  → submit new batch, write batch-state.json, exit
+//   batch-state.json exists → poll status; if ended, process results and delete state file
+//   retry → read failures.json, resubmit those words with the strict prompt
+
+import * as fs from "fs";
+import * as path from "path";
+import type { WordDataProvider } from "./provider";
+import { parseWordResponse, validateWordData } from "./wordData";
+
+export interface SeedPaths {
+  dataDir: string;
+  wordsFile: string;
+  batchStateFile: string;
+  failuresFile: string;
+}
+
+export const DEFAULT_PATHS: SeedPaths = {
+  dataDir: path.resolve("scripts/seed/data"),
+  wordsFile: path.resolve("scripts/seed/words.txt"),
+  batchStateFile: path.resolve("scripts/seed/batch-state.json"),
+  failuresFile: path.resolve("scripts/seed/failures.json"),
+};
+
+export interface BatchState {
+  batchId: string;
+  provider: string;
+  submittedAt: string;
+  wordCount: number;
+}
+
+export interface FailureEntry {
+  word: string;
+  error: string;
+  rawResponse: string;
+}
+
+export interface ProcessSummary {
+  saved: number;
+  failures: FailureEntry[];
+}
+
+export function getPendingWords(paths: SeedPaths): string[] {
+  const all = fs
+    .readFileSync(paths.wordsFile, "utf-8")
+    .trim()
+    .split("\n")
+    .map((w) => w.trim())
+    .filter(Boolean);
+  return all.filter((w) => !fs.existsSync(path.join(paths.dataDir, `${w}.json`)));
+}
+
+export async function submitBatch(
+  provider: WordDataProvider,
+  words: string[],
+  paths: SeedPaths,
+  isRetry = false
+): Promise<BatchState> {
+  fs.mkdirSync(paths.dataDir, { recursive: true });
+
+  console.log(`Submitting batch of ${words.length} words to ${provider.name}...`);
+  const batch = await provider.submit(words, { strict: isRetry });
+
+  const state: BatchState = {
+    batchId: batch.batchId,
+    provider: provider.name,
+    submittedAt: new Date().toISOString(),
+    wordCount: words.length,
+  };
+  fs.writeFileSync(paths.batchStateFile, JSON.stringify(state, null, 2));
+
+  console.log(`✓ Batch submitted: ${batch.batchId}`);
+  console.log(`  Words: ${words.length} | Status: ${batch.status}`);
+  console.log(`\nRe-run "npm run seed:generate" to process results.`);
+  return state;
+}
+
+// Returns null while the batch is still running.
+export async function pollAndProcess(
+  provider: WordDataProvider,
+  paths: SeedPaths
+): Promise<ProcessSummary | null> {
+  const state: BatchState = JSON.parse(fs.readFileSync(paths.batchStateFile, "utf-8"));
+  // Batches from before providers existed were always Anthropic's.
+  const owner = state.provider ?? "anthropic";
+  if (owner !== provider.name) {
+    throw new Error(
+      `batch ${state.batchId} was submitted with the ${owner} provider; re-run with --provider=${owner}`
+    );
+  }
+
+  console.log(`Checking batch ${state.batchId}...`);
+  const status = await provider.status(state.batchId);
+  console.log(
+    `Status: ${status.status} | ` +
+      `processing: ${status.processing} | succeeded: ${status.succeeded} | errored: ${status.errored}`
+  );
+
+  if (!status.ended) {
+    console.log("Still in progress. Re-run to check again.");
+    return null;
+  }
+
+  fs.mkdirSync(paths.dataDir, { recursive: true });
+  const failures: FailureEntry[] = [];
+  let saved = 0;
+
+  for await (const result of provider.results(state.batchId)) {
+    const word = result.word;
+
+    if (result.type === "failed") {
+      failures.push({ word, error: result.error, rawResponse: result.raw });
+      continue;
+    }
+
+    if (result.text === null) {
+      failures.push({ word, error: "no text block in response", rawResponse: "" });
+      continue;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = parseWordResponse(result.text);
+    } catch {
+      failures.push({
+        word,
+        error: "JSON parse failed",
+        rawResponse: result.text.slice(0, 500),
+      });
+      continue;
+    }
+
+    const validation = validateWordData(parsed);
+    if (!validation.valid) {
+      failures.push({
+        word,
+        error: validation.error,
+        rawResponse: result.text.slice(0, 500),
+      });
+      continue;
+    }
+
+    fs.writeFileSync(
+      path.join(paths.dataDir, `${word}.json`),
+      JSON.stringify(validation.data, null, 2)
+    );
+    saved++;
+  }
+
+  if (failures.length > 0) {
+    fs.writeFileSync(paths.failuresFile, JSON.stringify(failures, null, 2));
+    console.log(`\n⚠  ${failures.length} failures → ${path.basename(paths.failuresFile)}`);
+    console.log(`   Run "npm run seed:generate -- --retry" to resubmit.`);
+  }
+
+  console.log(`\n✓ Saved ${saved} word files to ${paths.dataDir}`);
+
+  fs.unlinkSync(paths.batchStateFile);
+  return { saved, failures };
+}
+
+export async function retryFailures(
+  provider: WordDataProvider,
+  paths: SeedPaths
+): Promise<BatchState | null> {
+  if (!fs.existsSync(paths.failuresFile)) {
+    console.log("No failures.json found. Nothing to retry.");
+    return null;
+  }
+  const failures: FailureEntry[] = JSON.parse(fs.readFileSync(paths.failuresFile, "utf-8"));
+  if (failures.length === 0) {
+    console.log("failures.json is empty. Nothing to retry.");
+    return null;
+  }
+  const words = failures.map((f) => f.word);
+  console.log(`Retrying ${words.length} failures with stricter prompt...`);
+  fs.unlinkSync(paths.failuresFile);
+  return submitBatch(provider, words, paths, true);
+}
+
+// One CLI invocation: retry, poll/process an in-flight batch, or submit the
+// words that don't have a data file yet.
+export async function runGenerate(
+  provider: WordDataProvider,
+  paths: SeedPaths = DEFAULT_PATHS,
+  { retry = false }: { retry?: boolean } = {}
+): Promise<void> {
+  if (retry) {
+    await retryFailures(provider, paths);
+    return;
+  }
+
+  if (fs.existsSync(paths.batchStateFile)) {
+    await pollAndProcess(provider, paths);
+    return;
+  }
+
+  const pending = getPendingWords(paths);
+  if (pending.length === 0) {
+    const dataCount = fs.existsSync(paths.dataDir)
+      ? fs.readdirSync(paths.dataDir).filter((f) => f.endsWith(".json")).length
+      : 0;
+    console.log(`All words processed (${dataCount} files in ${paths.dataDir}).`);
+    return;
+  }
+
+  console.log(`Found ${pending.length} pending words.`);
+  await submitBatch(provider, pending, paths);
+}
@@ -0,0 +1,40 @@
+// scripts/seed/lib/provider.ts
+//
+// A WordDataProvider turns a list of words into raw model responses via a
+// submit → poll → results batch lifecycle. The pipeline (pipeline.ts) owns
+// parsing, validation and the batch-state.json / failures.json files, so any
+// backend that speaks this interface can drive it.
+
+export interface SubmitOptions {
+  // Retry pass: ask the backend to be stricter about the output format.
+  strict: boolean;
+}
+
+export interface SubmittedBatch {
+  batchId: string;
+  status: string;
+}
+
+export interface BatchStatus {
+  ended: boolean;
+  status: string;
+  processing: number;
+  succeeded: number;
+  errored: number;
+}
+
+export type BatchResult =
+  // `text` is null when the response had no text content.
+  | { word: string; type: "succeeded"; text: string | null }
+  | { word: string; type: "failed"; error: string; raw: string };
+
+export interface WordDataProvider {
+  // Recorded in batch-state.json so a batch is only ever polled by the
+  // backend that created it.
+  readonly name: string;
+  submit(words: string[], options: SubmitOptions): Promise<SubmittedBatch>;
+  status(batchId: string): Promise<BatchStatus>;
+  results(batchId: string): AsyncIterable<BatchResult>;
+  // Cheap credentials check for --dry-run.
+  verify(): Promise<void>;
+}
@@ -0,0 +1,63 @@
+import { applyWordRoots, formatRootSummary, planWordRoots, summarizeRoots } from "./roots";
+
+const WORDS = [
+  { id: 0, origin: "From Latin 'aequanimitas', from 'aequus' (equal) + 'animus' (mind, spirit)." },
+  { id: 1, origin: "From Latin 'unanimus', from 'unus' (one) + 'animus' (mind)." },
+  { id: 2, origin: "Of uncertain origin." },
+];
+
+describe("planWordRoots", () => {
+  it("numbers each word's roots in origin order", () => {
+    expect(planWordRoots(WORDS).filter((row) => row.word_id === 1)).toEqual([
+      { word_id: 1, position: 0, language: "Latin", root: "unanimus", meaning: null },
+      { word_id: 1, position: 1, language: "Latin", root: "unus", meaning: "one" },
+      { word_id: 1, position: 2, language: "Latin", root: "animus", meaning: "mind" },
+    ]);
+  });
+
+  it("skips words without parseable roots", () => {
+    expect(planWordRoots(WORDS).some((row) => row.word_id === 2)).toBe(false);
+  });
+});
+
+describe("summarizeRoots", () => {
+  it("counts roots and ranks the most shared first", () => {
+    const summary = summarizeRoots(planWordRoots(WORDS), 2);
+    expect(summary).toEqual({
+      words: 2,
+      roots: 5,
+      top: [
+        { language: "Latin", root: "animus", words: 2 },
+        { language: "Latin", root: "aequanimitas", words: 1 },
+      ],
+    });
+    expect(formatRootSummary(summary)).toBe(
+      ["5 roots across 2 words. Most shared:", "  animus (Latin): 2 words", "  aequanimitas (Latin): 1 word"].join("\n")
+    );
+  });
+});
+
+describe("applyWordRoots", () => {
+  const config = { url: "https://test.supabase.co", serviceRoleKey: "service-key" };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("replaces the table in one request", async () => {
+    const fetchMock = jest.spyOn(global, "fetch").mockResolvedValue(new Response(null, { status: 204 }));
+    const rows = planWordRoots([{ id: 3, origin: "From Latin 'animus' (mind)." }]);
+
+    await applyWordRoots(config, rows);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://test.supabase.co/rest/v1/rpc/replace_word_roots");
+    expect(JSON.parse(String(init?.body))).toEqual({ p_rows: rows });
+  });
+
+  it("surfaces a failed replace", async () => {
+    jest.spyOn(global, "fetch").mockResolvedValue(new Response("boom", { status: 500 }));
+    await expect(applyWordRoots(config, [])).rejects.toThrow("Replace failed (500): boom");
+  });
+});
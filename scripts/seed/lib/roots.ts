@@ -0,0 +1,68 @@
+// scripts/seed/lib/roots.ts
+//
+// Parses every word's origin into public.word_roots with the same parser the
+// app uses to link roots on the Origin line (services/etymology.ts). Each run
+// replaces the whole table, so edited origins and parser changes both carry
+// through.
+
+import { parseOrigin } from "../../../services/etymology";
+import { restHeaders, type SupabaseConfig, type WordRow } from "./upload";
+
+export interface WordRootRow {
+  word_id: number;
+  position: number;
+  language: string;
+  root: string;
+  meaning: string | null;
+}
+
+export function planWordRoots(words: Pick<WordRow, "id" | "origin">[]): WordRootRow[] {
+  return words.flatMap(({ id, origin }) =>
+    parseOrigin(origin ?? "").map((root, position) => ({ word_id: id, position, ...root }))
+  );
+}
+
+export interface RootSummary {
+  words: number;
+  roots: number;
+  // Roots shared by the most words, for a spot check of the parse.
+  top: Array<{ language: string; root: string; words: number }>;
+}
+
+export function summarizeRoots(rows: WordRootRow[], topCount = 10): RootSummary {
+  const counts = new Map<string, { language: string; root: string; words: number }>();
+  for (const { language, root } of rows) {
+    const key = `${language}:${root}`;
+    const entry = counts.get(key) ?? { language, root, words: 0 };
+    entry.words++;
+    counts.set(key, entry);
+  }
+  return {
+    words: new Set(rows.map((row) => row.word_id)).size,
+    roots: counts.size,
+    top: [...counts.values()]
+      .sort((a, b) => b.words - a.words || a.root.localeCompare(b.root))
+      .slice(0, topCount),
+  };
+}
+
+export function formatRootSummary(summary: RootSummary): string {
+  return [
+    `${summary.roots} roots across ${summary.words} words. Most shared:`,
+    ...summary.top.map(({ language, root, words }) => `  ${root} (${language}): ${words} word${words === 1 ? "" : "s"}`),
+  ].join("\n");
+}
+
+// Swaps in the new rows in a single transaction (replace_word_roots,
+// supabase/migrations/0017_replace_word_roots.sql).
+export async function applyWordRoots(config: SupabaseConfig, rows: WordRootRow[]): Promise<void> {
+  const res = await fetch(`${config.url}/rest/v1/rpc/replace_word_roots`, {
+    method: "POST",
+    headers: restHeaders(config),
+    body: JSON.stringify({ p_rows: rows }),
+  });
+  if (!res.ok) {
+    const body = await res.text();
+    throw new Error(`Replace failed (${res.status}): ${body}`);
+  }
+}
@@ -0,0 +1,78 @@
+import { formatTrackPlans, planTrackWords, type TrackWordRow } from "./tracks";
+import type { WordRow } from "./upload";
+
+function row(id: number, text: string, difficulty: number | null, tags: string[]): WordRow {
+  const sense = { part_of_speech: "noun", definition: `Definition of ${text}.`, examples: [`One ${text}.`, `Two ${text}s.`] };
+  return {
+    id,
+    word: text,
+    ...sense,
+    phonetic: "TEST",
+    origin: `Made up for the ${text} test.`,
+    senses: [sense],
+    synonyms: [],
+    antonyms: [],
+    related: [],
+    difficulty,
+    tags,
+  };
+}
+
+const ROWS = [
+  row(0, "abate", 1, ["gre", "kaplan", "sat"]),
+  row(1, "laconic", 2, ["gre"]),
+  row(2, "torpor", 3, ["gre"]),
+  row(3, "sanguine", 2, ["princeton", "sat"]),
+  row(4, "zeal", null, []),
+];
+
+function members(plans: ReturnType<typeof planTrackWords>, track: string): number[] {
+  return plans.find((plan) => plan.track === track)!.inserts.map((insert) => insert.word_id).sort();
+}
+
+describe("planTrackWords", () => {
+  it("puts each word on the tracks its tags and difficulty match", () => {
+    const plans = planTrackWords([], ROWS);
+    expect(members(plans, "sat")).toEqual([0, 3]);
+    expect(members(plans, "gre")).toEqual([0, 1]);
+    expect(members(plans, "advanced")).toEqual([2]);
+  });
+
+  it("numbers a new track's words from 0", () => {
+    const gre = planTrackWords([], ROWS).find((plan) => plan.track === "gre")!;
+    expect(gre.inserts.map((insert) => insert.position).sort()).toEqual([0, 1]);
+    expect(gre.total).toBe(2);
+  });
+
+  it("keeps existing positions and appends new members", () => {
+    const existing: TrackWordRow[] = [
+      { track: "sat", position: 0, word_id: 3 },
+      { track: "sat", position: 1, word_id: 0 },
+    ];
+    const added = [...ROWS, row(5, "quixotic", 2, ["sat"]), row(6, "nadir", 1, ["sat"])];
+
+    const sat = planTrackWords(existing, added).find((plan) => plan.track === "sat")!;
+    expect(sat.inserts.map((insert) => insert.word_id).sort()).toEqual([5, 6]);
+    expect(sat.inserts.map((insert) => insert.position).sort()).toEqual([2, 3]);
+    expect(sat.total).toBe(4);
+  });
+
+  it("never removes a word whose tags stop matching", () => {
+    const existing: TrackWordRow[] = [{ track: "advanced", position: 0, word_id: 1 }];
+    const advanced = planTrackWords(existing, ROWS).find((plan) => plan.track === "advanced")!;
+    expect(advanced.inserts).toEqual([{ track: "advanced", position: 1, word_id: 2 }]);
+    expect(advanced.total).toBe(2);
+  });
+
+  it("assigns the same positions whatever order the rows come in", () => {
+    expect(planTrackWords([], [...ROWS].reverse())).toEqual(planTrackWords([], ROWS));
+  });
+});
+
+describe("formatTrackPlans", () => {
+  it("summarizes each track for --dry-run", () => {
+    expect(formatTrackPlans(planTrackWords([], ROWS))).toBe(
+      ["  sat: 2 new, 2 in total", "  gre: 2 new, 2 in total", "  advanced: 1 new, 1 in total"].join("\n")
+    );
+  });
+});
@@ -0,0 +1,97 @@
+// scripts/seed/lib/tracks.ts
+//
+// Fills public.track_words, the per-track rotations the app offers in
+// Settings → Word Track. A track's positions work like words.id does for the
+// full rotation: once a word has a position it keeps it, new members are
+// appended in a seeded shuffle, and nothing is removed, even if a word's
+// tags later stop matching.
+
+import type { WordTrack } from "../../../services/wordRotation";
+import { restHeaders, seededShuffle, SHUFFLE_SEED, type SupabaseConfig, type WordRow, type WordTier } from "./upload";
+
+const PAGE_SIZE = 1000;
+const BATCH_SIZE = 500;
+
+export type TrackId = Exclude<WordTrack, "all">;
+
+// Who belongs on each track, from the tags and difficulty build-wordlist.js
+// assigns. Keep in step with WORD_TRACKS in services/wordRotation.ts.
+export const TRACK_MEMBERSHIP: Record<TrackId, (word: WordTier) => boolean> = {
+  sat: (word) => word.tags.includes("sat"),
+  gre: (word) => word.tags.includes("gre") && word.difficulty !== null && word.difficulty <= 2,
+  advanced: (word) => word.difficulty === 3,
+};
+
+export interface TrackWordRow {
+  track: TrackId;
+  position: number;
+  word_id: number;
+}
+
+export interface TrackPlan {
+  track: TrackId;
+  inserts: TrackWordRow[];
+  // Words on the track once the plan is applied.
+  total: number;
+}
+
+export function planTrackWords(existing: TrackWordRow[], rows: WordRow[]): TrackPlan[] {
+  return (Object.keys(TRACK_MEMBERSHIP) as TrackId[]).map((track) => {
+    const current = existing.filter((row) => row.track === track);
+    const onTrack = new Set(current.map((row) => row.word_id));
+    const nextPosition = current.reduce((max, row) => Math.max(max, row.position + 1), 0);
+
+    // Sorted first so the shuffle doesn't depend on row order.
+    const added = rows
+      .filter((row) => !onTrack.has(row.id) && TRACK_MEMBERSHIP[track](row))
+      .sort((a, b) => a.word.localeCompare(b.word));
+
+    return {
+      track,
+      inserts: seededShuffle(added, SHUFFLE_SEED + nextPosition).map((row, i) => ({
+        track,
+        position: nextPosition + i,
+        word_id: row.id,
+      })),
+      total: current.length + added.length,
+    };
+  });
+}
+
+export async function fetchTrackWords(config: SupabaseConfig): Promise<TrackWordRow[]> {
+  const rows: TrackWordRow[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const res = await fetch(
+      `${config.url}/rest/v1/track_words?select=track,position,word_id&order=track.asc,position.asc&limit=${PAGE_SIZE}&offset=${offset}`,
+      { headers: restHeaders(config) }
+    );
+    if (!res.ok) {
+      const body = await res.text();
+      throw new Error(`Fetch failed (${res.status}): ${body}`);
+    }
+    const page = (await res.json()) as TrackWordRow[];
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) return rows;
+  }
+}
+
+export async function applyTrackPlans(config: SupabaseConfig, plans: TrackPlan[]): Promise<void> {
+  const rows = plans.flatMap((plan) => plan.inserts);
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const res = await fetch(`${config.url}/rest/v1/track_words`, {
+      method: "POST",
+      headers: { ...restHeaders(config), Prefer: "return=minimal" },
+      body: JSON.stringify(rows.slice(i, i + BATCH_SIZE)),
+    });
+    if (!res.ok) {
+      const body = await res.text();
+      throw new Error(`Insert failed (${res.status}): ${body}`);
+    }
+  }
+}
+
+export function formatTrackPlans(plans: TrackPlan[]): string {
+  return plans
+    .map((plan) => `  ${plan.track}: ${plan.inserts.length} new, ${plan.total} in total`)
+    .join("\n");
+}
@@ -0,0 +1,251 @@
+/**
+ * @jest-environment node
+ */
+import * as http from "http";
+import type { AddressInfo } from "net";
+import {
+  applyPlan,
+  fetchExistingWords,
+  formatPlan,
+  planUpload,
+  rowsAfter,
+  type LocalWord,
+  type SupabaseConfig,
+  type WordRow,
+} from "./upload";
+
+function word(text: string, definition = `Definition of ${text}.`): LocalWord {
+  const sense = { part_of_speech: "noun", definition, examples: [`One ${text}.`, `Two ${text}s.`] };
+  return {
+    word: text,
+    ...sense,
+    phonetic: "TEST",
+    origin: `Made up for the ${text} test.`,
+    senses: [sense],
+    synonyms: [],
+    antonyms: [],
+    related: [],
+    difficulty: null,
+    tags: [],
+  };
+}
+
+// Just enough of PostgREST's /rest/v1/words for the uploader: paged, ordered
+// selects and upserts on id, with the table's unique constraint on word.
+class StandInServer {
+  rows = new Map<number, WordRow & { audio_url?: string }>();
+  requests: Array<{ method: string; url: string; prefer?: string }> = [];
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<SupabaseConfig> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return { url: `http://127.0.0.1:${port}`, serviceRoleKey: "service-key" };
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url!, "http://localhost");
+    this.requests.push({ method: req.method!, url: url.pathname + url.search, prefer: req.headers.prefer as string });
+
+    const reply = (status: number, body?: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(body === undefined ? undefined : JSON.stringify(body));
+    };
+
+    if (req.headers.authorization !== "Bearer service-key") return reply(401, { message: "bad key" });
+    if (url.pathname !== "/rest/v1/words") return reply(404, { message: "not found" });
+
+    if (req.method === "GET") {
+      const columns = url.searchParams.get("select")!.split(",");
+      const limit = Number(url.searchParams.get("limit"));
+      const offset = Number(url.searchParams.get("offset"));
+      const page = [...this.rows.values()]
+        .sort((a, b) => a.id - b.id)
+        .slice(offset, offset + limit)
+        .map((row) => Object.fromEntries(columns.map((c) => [c, row[c as keyof WordRow]])));
+      return reply(200, page);
+    }
+
+    if (req.method === "POST" && url.searchParams.get("on_conflict") === "id") {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const incoming = JSON.parse(body) as WordRow[];
+        for (const row of incoming) {
+          const clash = [...this.rows.values()].find((r) => r.word === row.word && r.id !== row.id);
+          if (clash) return reply(409, { message: `duplicate key value violates unique constraint: ${row.word}` });
+        }
+        for (const row of incoming) this.rows.set(row.id, { ...this.rows.get(row.id), ...row });
+        reply(201);
+      });
+      return;
+    }
+
+    reply(405, { message: "method not allowed" });
+  }
+}
+
+let server: StandInServer;
+let config: SupabaseConfig;
+
+async function upload(local: LocalWord[]) {
+  const plan = planUpload(await fetchExistingWords(config), local);
+  await applyPlan(config, plan);
+  return plan;
+}
+
+function idsByWord(): Record<string, number> {
+  return Object.fromEntries([...server.rows.values()].map((row) => [row.word, row.id]));
+}
+
+beforeEach(async () => {
+  jest.spyOn(process.stdout, "write").mockImplementation(() => true);
+  server = new StandInServer();
+  config = await server.start();
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await server.stop();
+});
+
+describe("incremental upload", () => {
+  const initial = ["abate", "laconic", "ephemeral", "torpor", "sanguine"].map((w) => word(w));
+
+  it("assigns ids 0..N-1 on an empty table", async () => {
+    const plan = await upload(initial);
+    expect(plan.inserts).toHaveLength(5);
+    expect(Object.values(idsByWord()).sort()).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("is idempotent", async () => {
+    await upload(initial);
+    const before = idsByWord();
+    server.requests = [];
+
+    const plan = await upload(initial);
+    expect(plan).toMatchObject({ inserts: [], updates: [], unchanged: 5, total: 5 });
+    expect(server.requests.filter((r) => r.method === "POST")).toEqual([]);
+    expect(idsByWord()).toEqual(before);
+  });
+
+  it("keeps existing ids and appends new words at the end", async () => {
+    await upload(initial);
+    const before = idsByWord();
+
+    const plan = await upload([word("zeal"), ...initial, word("bucolic")]);
+    expect(plan.inserts.map((row) => row.id).sort()).toEqual([5, 6]);
+
+    const after = idsByWord();
+    for (const [w, id] of Object.entries(before)) expect(after[w]).toBe(id);
+    expect([after.zeal, after.bucolic].sort()).toEqual([5, 6]);
+  });
+
+  it("assigns the same ids to new words whatever order the files are read in", () => {
+    const existing = initial.map((data, id) => ({ ...data, id }));
+    const added = ["zeal", "bucolic", "quixotic", "nadir"].map((w) => word(w));
+    const forward = planUpload(existing, [...initial, ...added]).inserts;
+    const backward = planUpload(existing, [...added].reverse().concat(initial)).inserts;
+    expect(backward).toEqual(forward);
+  });
+
+  it("updates changed content in place and leaves other columns alone", async () => {
+    await upload(initial);
+    const id = idsByWord().torpor;
+    server.rows.get(id)!.audio_url = "https://cdn.example.com/torpor.mp3";
+
+    const edited = initial.map((data) => (data.word === "torpor" ? word("torpor", "Sluggish inactivity.") : data));
+    const plan = await upload(edited);
+
+    expect(plan.updates).toEqual([
+      { row: expect.objectContaining({ id, word: "torpor" }), changed: ["definition", "senses"] },
+    ]);
+    expect(server.rows.get(id)).toMatchObject({
+      id,
+      definition: "Sluggish inactivity.",
+      audio_url: "https://cdn.example.com/torpor.mp3",
+    });
+    expect(server.requests.at(-1)?.prefer).toBe("resolution=merge-duplicates,return=minimal");
+  });
+
+  it("never removes or renumbers words missing from the local data", async () => {
+    await upload(initial);
+    const before = idsByWord();
+
+    const plan = await upload([...initial.slice(1), word("zeal")]);
+    expect(plan.missingLocally).toEqual(["abate"]);
+    expect(plan.inserts).toEqual([expect.objectContaining({ word: "zeal", id: 5 })]);
+    expect(idsByWord()).toEqual({ ...before, zeal: 5 });
+  });
+
+  it("backfills senses and word lists on rows uploaded before they existed", async () => {
+    const legacy = { ...word("torpor"), id: 0 } as Partial<WordRow>;
+    delete legacy.senses;
+    delete legacy.synonyms;
+    delete legacy.antonyms;
+    delete legacy.related;
+    server.rows.set(0, legacy as WordRow);
+
+    const plan = await upload([{ ...word("torpor"), synonyms: ["lethargy"] }]);
+    expect(plan.updates).toEqual([
+      { row: expect.objectContaining({ id: 0 }), changed: ["senses", "synonyms", "antonyms", "related"] },
+    ]);
+    expect(server.rows.get(0)).toMatchObject({ senses: word("torpor").senses, synonyms: ["lethargy"] });
+  });
+
+  it("updates difficulty and tags from words-meta.json", async () => {
+    await upload(initial);
+    const tagged = initial.map((data) => (data.word === "laconic" ? { ...data, difficulty: 2, tags: ["gre", "sat"] } : data));
+
+    const plan = await upload(tagged);
+    expect(plan.updates).toEqual([{ row: expect.objectContaining({ word: "laconic" }), changed: ["difficulty", "tags"] }]);
+    expect(server.rows.get(idsByWord().laconic)).toMatchObject({ difficulty: 2, tags: ["gre", "sat"] });
+  });
+
+  it("lists every row the table will hold", () => {
+    const existing = initial.slice(0, 2).map((data, id) => ({ ...data, id }));
+    const plan = planUpload(existing, [word("abate", "Lessen."), word("zeal")]);
+    expect(rowsAfter(existing, plan)).toEqual([
+      expect.objectContaining({ id: 0, word: "abate", definition: "Lessen." }),
+      expect.objectContaining({ id: 1, word: "laconic" }),
+      expect.objectContaining({ id: 2, word: "zeal" }),
+    ]);
+  });
+
+  it("ignores duplicate local entries", () => {
+    expect(planUpload([], [word("zeal"), word("zeal", "Something else.")]).inserts).toHaveLength(1);
+  });
+
+  it("pages through tables larger than one request", async () => {
+    for (let id = 0; id < 2500; id++) server.rows.set(id, { ...word(`w${id}`), id });
+    expect(await fetchExistingWords(config)).toHaveLength(2500);
+    expect(server.requests.map((r) => r.url)).toEqual([
+      expect.stringContaining("&limit=1000&offset=0"),
+      expect.stringContaining("&limit=1000&offset=1000"),
+      expect.stringContaining("&limit=1000&offset=2000"),
+    ]);
+  });
+
+  it("surfaces server errors", async () => {
+    await expect(fetchExistingWords({ ...config, serviceRoleKey: "wrong" })).rejects.toThrow("Fetch failed (401)");
+  });
+});
+
+describe("formatPlan", () => {
+  it("lists each difference for --dry-run", () => {
+    const existing = [word("abate"), word("torpor"), word("sanguine")].map((data, id) => ({ ...data, id }));
+    const plan = planUpload(existing, [word("abate"), word("torpor", "Sluggish inactivity."), word("zeal")]);
+    expect(formatPlan(plan)).toBe(
+      [
+        "1 new, 1 changed, 1 unchanged, 1 only in the table (kept)",
+        "  + 3 zeal",
+        "  ~ 1 torpor (definition, senses)",
+        "  = sanguine (not in scripts/seed/data)",
+      ].join("\n")
+    );
+  });
+});
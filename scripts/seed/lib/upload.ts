@@ -0,0 +1,200 @@
+// scripts/seed/lib/upload.ts
+//
+// Incremental upload of scripts/seed/data to public.words. A word's id is its
+// place in the daily rotation, so once a word has an id it keeps it forever:
+//   - words already in the table keep their id; changed content is updated in place
+//   - new words are appended after the current highest id
+//   - words in the table but no longer in scripts/seed/data are left alone
+// On an empty table ids are assigned by a seeded shuffle, as the original
+// one-shot upload did. Re-running with unchanged data writes nothing.
+// Difficulty and tags come from scripts/seed/words-meta.json; see
+// build-wordlist.js.
+
+import type { WordData } from "./wordData";
+
+// Constant seed for reproducible shuffle — never change this
+export const SHUFFLE_SEED = 20260101;
+
+const PAGE_SIZE = 1000;
+const BATCH_SIZE = 500;
+
+const CONTENT_FIELDS = [
+  "part_of_speech",
+  "definition",
+  "phonetic",
+  "examples",
+  "origin",
+  "senses",
+  "synonyms",
+  "antonyms",
+  "related",
+  "difficulty",
+  "tags",
+] as const;
+
+type ContentField = (typeof CONTENT_FIELDS)[number];
+
+// One entry of words-meta.json. Words missing from it upload as null / [].
+export interface WordTier {
+  difficulty: number | null;
+  tags: string[];
+}
+
+export type LocalWord = WordData & WordTier;
+
+export type WordRow = LocalWord & { id: number };
+
+export interface SupabaseConfig {
+  url: string;
+  serviceRoleKey: string;
+}
+
+export interface UploadPlan {
+  inserts: WordRow[];
+  updates: Array<{ row: WordRow; changed: ContentField[] }>;
+  unchanged: number;
+  // In the table but not in the local data; kept so past dates don't move.
+  missingLocally: string[];
+  // Row count once the plan is applied.
+  total: number;
+}
+
+// Mulberry32 — fast, seedable 32-bit PRNG
+function mulberry32(seed: number) {
+  return function () {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function seededShuffle<T>(arr: T[], seed: number): T[] {
+  const result = [...arr];
+  const rand = mulberry32(seed);
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function sameContent(a: LocalWord, b: LocalWord, field: ContentField): boolean {
+  return JSON.stringify(a[field] ?? null) === JSON.stringify(b[field] ?? null);
+}
+
+export function planUpload(existing: WordRow[], local: LocalWord[]): UploadPlan {
+  const byWord = new Map(existing.map((row) => [row.word, row]));
+  const localWords = new Set<string>();
+  const added: LocalWord[] = [];
+  const updates: UploadPlan["updates"] = [];
+  let unchanged = 0;
+
+  for (const data of local) {
+    if (localWords.has(data.word)) continue;
+    localWords.add(data.word);
+
+    const row = byWord.get(data.word);
+    if (!row) {
+      added.push(data);
+      continue;
+    }
+    const changed = CONTENT_FIELDS.filter((field) => !sameContent(row, data, field));
+    if (changed.length > 0) {
+      updates.push({ row: { ...data, id: row.id }, changed });
+    } else {
+      unchanged++;
+    }
+  }
+
+  // The first upload shuffles in file order, matching the ids already live.
+  // Later additions are sorted first so the result doesn't depend on readdir
+  // order, and seeded by their first id so each batch gets its own shuffle.
+  const nextId = existing.reduce((max, row) => Math.max(max, row.id + 1), 0);
+  const ordered =
+    existing.length === 0
+      ? seededShuffle(added, SHUFFLE_SEED)
+      : seededShuffle(
+          [...added].sort((a, b) => a.word.localeCompare(b.word)),
+          SHUFFLE_SEED + nextId
+        );
+
+  return {
+    inserts: ordered.map((data, i) => ({ ...data, id: nextId + i })),
+    updates,
+    unchanged,
+    missingLocally: existing.filter((row) => !localWords.has(row.word)).map((row) => row.word),
+    total: existing.length + ordered.length,
+  };
+}
+
+export function restHeaders(config: SupabaseConfig): Record<string, string> {
+  return {
+    apikey: config.serviceRoleKey,
+    Authorization: `Bearer ${config.serviceRoleKey}`,
+    "Content-Type": "application/json",
+  };
+}
+
+export async function fetchExistingWords(config: SupabaseConfig): Promise<WordRow[]> {
+  const select = ["id", "word", ...CONTENT_FIELDS].join(",");
+  const rows: WordRow[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const res = await fetch(
+      `${config.url}/rest/v1/words?select=${select}&order=id.asc&limit=${PAGE_SIZE}&offset=${offset}`,
+      { headers: restHeaders(config) }
+    );
+    if (!res.ok) {
+      const body = await res.text();
+      throw new Error(`Fetch failed (${res.status}): ${body}`);
+    }
+    const page = (await res.json()) as WordRow[];
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) return rows;
+  }
+}
+
+// Upserts on id; columns not in the row (audio_url, created_at) are untouched.
+async function upsertBatch(config: SupabaseConfig, rows: WordRow[]): Promise<void> {
+  const res = await fetch(`${config.url}/rest/v1/words?on_conflict=id`, {
+    method: "POST",
+    headers: {
+      ...restHeaders(config),
+      Prefer: "resolution=merge-duplicates,return=minimal",
+    },
+    body: JSON.stringify(rows),
+  });
+  if (!res.ok) {
+    const body = await res.text();
+    throw new Error(`Upsert failed (${res.status}): ${body}`);
+  }
+}
+
+// Every row in the table once the plan is applied, by id.
+export function rowsAfter(existing: WordRow[], plan: UploadPlan): WordRow[] {
+  const byId = new Map(existing.map((row) => [row.id, row]));
+  for (const { row } of plan.updates) byId.set(row.id, row);
+  for (const row of plan.inserts) byId.set(row.id, row);
+  return [...byId.values()].sort((a, b) => a.id - b.id);
+}
+
+export async function applyPlan(config: SupabaseConfig, plan: UploadPlan): Promise<void> {
+  const rows = [...plan.updates.map((update) => update.row), ...plan.inserts];
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    await upsertBatch(config, rows.slice(i, i + BATCH_SIZE));
+    process.stdout.write(`\r  ${Math.min(i + BATCH_SIZE, rows.length)} / ${rows.length}`);
+  }
+  if (rows.length > 0) process.stdout.write("\n");
+}
+
+export function formatPlan(plan: UploadPlan): string {
+  const lines = [
+    `${plan.inserts.length} new, ${plan.updates.length} changed, ${plan.unchanged} unchanged` +
+      (plan.missingLocally.length > 0 ? `, ${plan.missingLocally.length} only in the table (kept)` : ""),
+  ];
+  for (const row of plan.inserts) lines.push(`  + ${row.id} ${row.word}`);
+  for (const { row, changed } of plan.updates) lines.push(`  ~ ${row.id} ${row.word} (${changed.join(", ")})`);
+  for (const word of plan.missingLocally) lines.push(`  = ${word} (not in scripts/seed/data)`);
+  return lines.join("\n");
+}
@@ -0,0 +1,121 @@
+import { isValidPhonetic, parseWordResponse, validateWordData } from "./wordData";
+
+const valid = {
+  word: "laconic",
+  part_of_speech: "adjective",
+  definition: "Using very few words.",
+  phonetic: "luh-KON-ik",
+  examples: ["His laconic reply ended it.", "She was laconic by nature."],
+  origin: "From Greek 'Lakonikos', referring to the Spartans.",
+};
+
+describe("parseWordResponse", () => {
+  it("parses a bare JSON object", () => {
+    expect(parseWordResponse(JSON.stringify(valid))).toEqual(valid);
+  });
+
+  it("strips a ```json code fence", () => {
+    expect(parseWordResponse("```json\n" + JSON.stringify(valid) + "\n```")).toEqual(valid);
+  });
+
+  it("strips a bare ``` fence and surrounding whitespace", () => {
+    expect(parseWordResponse("  ```\n" + JSON.stringify(valid) + "\n```  \n")).toEqual(valid);
+  });
+
+  it("throws on text that isn't JSON", () => {
+    expect(() => parseWordResponse("Here is the word data you asked for:")).toThrow();
+    expect(() => parseWordResponse('```json\n{"word": "laconic",\n```')).toThrow();
+  });
+});
+
+describe("isValidPhonetic", () => {
+  it("accepts respellings with one capitalized stressed syllable", () => {
+    expect(isValidPhonetic("ih-FEM-er-uhl")).toBe(true);
+    expect(isValidPhonetic("SANG-gwin")).toBe(true);
+  });
+
+  it("rejects IPA, stray hyphens and missing stress", () => {
+    expect(isValidPhonetic("ɪˈfɛm(ə)rəl")).toBe(false);
+    expect(isValidPhonetic("-luh-KON-ik")).toBe(false);
+    expect(isValidPhonetic("luh--KON-ik")).toBe(false);
+    expect(isValidPhonetic("luh-kon-ik")).toBe(false);
+  });
+});
+
+const sanguine = {
+  word: "sanguine",
+  phonetic: "SANG-gwin",
+  senses: [
+    {
+      part_of_speech: "adjective",
+      definition: "Optimistic or positive, especially in a difficult situation.",
+      examples: ["She remained sanguine about the outcome.", "Few were as sanguine as the minister."],
+    },
+    { part_of_speech: "adjective", definition: "Blood-red in color.", examples: ["A sanguine sunset."] },
+  ],
+  synonyms: ["optimistic", "hopeful"],
+  antonyms: ["pessimistic"],
+  related: ["sanguinary"],
+  origin: "From Latin 'sanguineus', from 'sanguis' (blood).",
+};
+
+describe("validateWordData", () => {
+  it("fills in senses and word lists for a single-sense entry", () => {
+    expect(validateWordData(valid)).toEqual({
+      valid: true,
+      data: {
+        ...valid,
+        senses: [{ part_of_speech: valid.part_of_speech, definition: valid.definition, examples: valid.examples }],
+        synonyms: [],
+        antonyms: [],
+        related: [],
+      },
+    });
+  });
+
+  it("copies the first sense to the top-level fields", () => {
+    const result = validateWordData(sanguine);
+    expect(result).toEqual({
+      valid: true,
+      data: { ...sanguine, ...sanguine.senses[0] },
+    });
+  });
+
+  it("checks each sense and word list", () => {
+    expect(validateWordData({ ...sanguine, senses: [] })).toEqual({
+      valid: false,
+      error: "senses count 0 (expected 1-4)",
+    });
+    expect(validateWordData({ ...sanguine, senses: [sanguine.senses[1]] })).toEqual({
+      valid: false,
+      error: "sense 1: examples count 1 (need ≥2)",
+    });
+    expect(
+      validateWordData({ ...sanguine, senses: [sanguine.senses[0], { ...sanguine.senses[1], definition: "Red" }] })
+    ).toEqual({ valid: false, error: "sense 2: definition length 3 (expected 5-160)" });
+    expect(validateWordData({ ...sanguine, antonyms: "pessimistic" })).toEqual({
+      valid: false,
+      error: "antonyms must be an array of strings",
+    });
+    expect(validateWordData({ ...sanguine, related: ["Sanguine"] })).toEqual({
+      valid: false,
+      error: "related contains the word itself",
+    });
+  });
+
+  it("reports the first problem", () => {
+    expect(validateWordData(null)).toEqual({ valid: false, error: "not an object" });
+    expect(validateWordData({ ...valid, origin: undefined })).toEqual({
+      valid: false,
+      error: "missing/invalid field: origin",
+    });
+    expect(validateWordData({ ...valid, examples: ["Only one."] })).toEqual({
+      valid: false,
+      error: "examples count 1 (need ≥2)",
+    });
+    expect(validateWordData({ ...valid, phonetic: "luh-kon-ik" })).toEqual({
+      valid: false,
+      error: "invalid phonetic: luh-kon-ik",
+    });
+  });
+});
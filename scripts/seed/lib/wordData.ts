@@ -0,0 +1,163 @@
+// scripts/seed/lib/wordData.ts
+//
+// The shape of one generated word file (scripts/seed/data/<word>.json) and
+// the checks every provider's output has to pass before it is saved.
+
+export interface WordSense {
+  part_of_speech: string;
+  definition: string;
+  examples: string[];
+}
+
+// part_of_speech, definition and examples repeat the first (primary) sense,
+// matching public.words' own columns. Files generated before senses existed
+// have only those; validateWordData fills in the rest.
+export interface WordData extends WordSense {
+  word: string;
+  phonetic: string;
+  origin: string;
+  senses: WordSense[];
+  synonyms: string[];
+  antonyms: string[];
+  related: string[];
+}
+
+export const MAX_SENSES = 4;
+export const MAX_RELATED_WORDS = 8;
+
+// The parts of speech SYSTEM_PROMPT allows the model to choose from.
+export const PARTS_OF_SPEECH = [
+  "adjective",
+  "noun",
+  "verb",
+  "adverb",
+  "conjunction",
+  "preposition",
+  "interjection",
+] as const;
+
+export function isValidPhonetic(p: string): boolean {
+  if (!/^[a-zA-Z-]+$/.test(p)) return false; // rejects IPA and any non-alpha chars
+  if (/^-|-$|--/.test(p)) return false; // no leading/trailing/consecutive hyphens
+  const syllables = p.split("-");
+  // At least one syllable must be ALL-CAPS and ≥2 chars (the primary stressed syllable)
+  return syllables.some(
+    (s) => s.length >= 2 && s === s.toUpperCase() && /[A-Z]/.test(s)
+  );
+}
+
+function validateSense(
+  sense: unknown,
+  label: string,
+  minExamples: number
+): { valid: true; sense: WordSense } | { valid: false; error: string } {
+  if (!sense || typeof sense !== "object") return { valid: false, error: `${label}not an object` };
+  const s = sense as Record<string, unknown>;
+
+  for (const f of ["part_of_speech", "definition"]) {
+    if (!s[f] || typeof s[f] !== "string")
+      return { valid: false, error: `${label}missing/invalid field: ${f}` };
+  }
+
+  const def = s.definition as string;
+  if (def.length < 5 || def.length > 160)
+    return { valid: false, error: `${label}definition length ${def.length} (expected 5-160)` };
+
+  if (!Array.isArray(s.examples) || s.examples.length < minExamples)
+    return {
+      valid: false,
+      error: `${label}examples count ${Array.isArray(s.examples) ? s.examples.length : 0} (need ≥${minExamples})`,
+    };
+  if (s.examples.some((e) => !e || typeof e !== "string"))
+    return { valid: false, error: `${label}examples must be non-empty strings` };
+
+  return {
+    valid: true,
+    sense: { part_of_speech: s.part_of_speech as string, definition: def, examples: s.examples as string[] },
+  };
+}
+
+function validateWordList(
+  value: unknown,
+  field: string,
+  word: string
+): { valid: true; words: string[] } | { valid: false; error: string } {
+  if (value === undefined) return { valid: true, words: [] };
+  if (!Array.isArray(value) || value.some((w) => !w || typeof w !== "string"))
+    return { valid: false, error: `${field} must be an array of strings` };
+  if (value.length > MAX_RELATED_WORDS)
+    return { valid: false, error: `${field} count ${value.length} (max ${MAX_RELATED_WORDS})` };
+  if (value.some((w: string) => w.toLowerCase() === word.toLowerCase()))
+    return { valid: false, error: `${field} contains the word itself` };
+  return { valid: true, words: value };
+}
+
+// Accepts the current format (senses + word lists) and the older single-sense
+// one, and returns the full WordData either way.
+export function validateWordData(
+  data: unknown
+): { valid: true; data: WordData } | { valid: false; error: string } {
+  if (!data || typeof data !== "object")
+    return { valid: false, error: "not an object" };
+  const d = data as Record<string, unknown>;
+
+  for (const f of ["word", "phonetic", "origin"]) {
+    if (!d[f] || typeof d[f] !== "string")
+      return { valid: false, error: `missing/invalid field: ${f}` };
+  }
+  const word = d.word as string;
+
+  const origin = d.origin as string;
+  if (origin.length < 20 || origin.length > 400)
+    return { valid: false, error: `origin length ${origin.length} (expected 20-400)` };
+
+  if (!isValidPhonetic(d.phonetic as string))
+    return { valid: false, error: `invalid phonetic: ${d.phonetic}` };
+
+  const senses: WordSense[] = [];
+  if (d.senses === undefined) {
+    const primary = validateSense(d, "", 2);
+    if (!primary.valid) return primary;
+    senses.push(primary.sense);
+  } else {
+    if (!Array.isArray(d.senses) || d.senses.length === 0 || d.senses.length > MAX_SENSES)
+      return {
+        valid: false,
+        error: `senses count ${Array.isArray(d.senses) ? d.senses.length : 0} (expected 1-${MAX_SENSES})`,
+      };
+    for (const [i, raw] of d.senses.entries()) {
+      // The primary sense carries the examples the app leads with.
+      const sense = validateSense(raw, `sense ${i + 1}: `, i === 0 ? 2 : 1);
+      if (!sense.valid) return sense;
+      senses.push(sense.sense);
+    }
+  }
+
+  const lists: Record<string, string[]> = {};
+  for (const field of ["synonyms", "antonyms", "related"]) {
+    const list = validateWordList(d[field], field, word);
+    if (!list.valid) return list;
+    lists[field] = list.words;
+  }
+
+  return {
+    valid: true,
+    data: {
+      word,
+      ...senses[0],
+      phonetic: d.phonetic as string,
+      origin,
+      senses,
+      synonyms: lists.synonyms,
+      antonyms: lists.antonyms,
+      related: lists.related,
+    },
+  };
+}
+
+// Model output is supposed to be a bare JSON object, but tolerate it being
+// wrapped in a ```json code fence. Throws if what's left isn't JSON.
+export function parseWordResponse(text: string): unknown {
+  const raw = text.replace(/^\s*```(?:json)?\s*/i, "").replace(/```\s*$/, "").trim();
+  return JSON.parse(raw);
+}
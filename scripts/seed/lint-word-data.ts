@@ -0,0 +1,51 @@
+// scripts/seed/lint-word-data.ts
+//
+// Usage:
+//   npm run seed:lint                         — print a JSON report of scripts/seed/data/*.json to stdout
+//   npm run seed:lint -- --out=lint-report.json — write the report to a file instead
+//
+// A one-line summary goes to stderr. Exits 1 if any file has errors;
+// warnings alone don't fail the run. See lib/lint.ts for the rules.
+
+import * as fs from "fs";
+import * as path from "path";
+import { lintWordFiles, type LintInput } from "./lib/lint";
+
+const DATA_DIR = path.resolve("scripts/seed/data");
+
+function readInputs(): LintInput[] {
+  if (!fs.existsSync(DATA_DIR)) throw new Error(`${DATA_DIR} doesn't exist — run seed:generate first`);
+  return fs
+    .readdirSync(DATA_DIR)
+    .filter((f) => f.endsWith(".json"))
+    .sort()
+    .map((file) => {
+      try {
+        return { file, data: JSON.parse(fs.readFileSync(path.join(DATA_DIR, file), "utf-8")) };
+      } catch {
+        return { file, data: undefined };
+      }
+    });
+}
+
+function main(): void {
+  const outArg = process.argv.find((arg) => arg.startsWith("--out="));
+  const report = lintWordFiles(readInputs());
+  const json = JSON.stringify(report, null, 2);
+
+  if (outArg) {
+    fs.writeFileSync(path.resolve(outArg.slice("--out=".length)), json + "\n");
+  } else {
+    process.stdout.write(json + "\n");
+  }
+
+  console.error(`Linted ${report.files} files: ${report.errors} errors, ${report.warnings} warnings.`);
+  if (report.errors > 0) process.exit(1);
+}
+
+try {
+  main();
+} catch (err: unknown) {
+  console.error("Error:", err instanceof Error ? err.message : String(err));
+  process.exit(1);
+}
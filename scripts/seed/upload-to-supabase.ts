@@ -3,13 +3,28 @@
 // Usage:
 //   SUPABASE_URL=https://xxxx.supabase.co \
 //   SUPABASE_SERVICE_ROLE_KEY=eyJ... \
-//   tsx scripts/seed/upload-to-supabase.ts
+//   tsx scripts/seed/upload-to-supabase.ts [--dry-run]
 //
-// Reads all scripts/seed/data/*.json files, assigns deterministic IDs via
-// a seeded shuffle, and bulk-inserts into public.words in batches of 500.
+// Reads all scripts/seed/data/*.json files plus the difficulty and tags in
+// scripts/seed/words-meta.json, diffs them against public.words and upserts
+// the difference: existing words keep their ids, new words are appended to
+// the rotation. Then appends newly matching words to each track in
+// public.track_words. --dry-run prints both diffs without writing.
+// See lib/upload.ts and lib/tracks.ts for how ids and positions are assigned.
 
 import * as fs from "fs";
 import * as path from "path";
+import { applyTrackPlans, fetchTrackWords, formatTrackPlans, planTrackWords } from "./lib/tracks";
+import {
+  applyPlan,
+  fetchExistingWords,
+  formatPlan,
+  planUpload,
+  rowsAfter,
+  type LocalWord,
+  type WordTier,
+} from "./lib/upload";
+import { validateWordData } from "./lib/wordData";
 
 // Load .env
 const envPath = path.resolve(".env");
@@ -23,9 +38,7 @@ if (fs.existsSync(envPath)) {
 const SUPABASE_URL = process.env.SUPABASE_URL;
 const SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
 const DATA_DIR = path.resolve("scripts/seed/data");
-const BATCH_SIZE = 500;
-// Constant seed for reproducible shuffle — never change this
-const SHUFFLE_SEED = 20260101;
+const META_FILE = path.resolve("scripts/seed/words-meta.json");
 
 if (!SUPABASE_URL || !SERVICE_ROLE_KEY) {
   console.error(
@@ -34,56 +47,15 @@ if (!SUPABASE_URL || !SERVICE_ROLE_KEY) {
   process.exit(1);
 }
 
-interface WordData {
-  word: string;
-  part_of_speech: string;
-  definition: string;
-  phonetic: string;
-  examples: string[];
-  origin: string;
-}
-
-// Mulberry32 — fast, seedable 32-bit PRNG
-function mulberry32(seed: number) {
-  return function () {
-    seed |= 0;
-    seed = (seed + 0x6d2b79f5) | 0;
-    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
-    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
-}
-
-function seededShuffle<T>(arr: T[], seed: number): T[] {
-  const result = [...arr];
-  const rand = mulberry32(seed);
-  for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(rand() * (i + 1));
-    [result[i], result[j]] = [result[j], result[i]];
+function readWordTiers(): Record<string, WordTier> {
+  if (!fs.existsSync(META_FILE)) {
+    console.warn(`No ${META_FILE}; run build-wordlist.js to tag words by difficulty.`);
+    return {};
   }
-  return result;
+  return JSON.parse(fs.readFileSync(META_FILE, "utf-8"));
 }
 
-async function insertBatch(
-  rows: Array<WordData & { id: number }>
-): Promise<void> {
-  const res = await fetch(`${SUPABASE_URL}/rest/v1/words`, {
-    method: "POST",
-    headers: {
-      apikey: SERVICE_ROLE_KEY!,
-      Authorization: `Bearer ${SERVICE_ROLE_KEY}`,
-      "Content-Type": "application/json",
-      Prefer: "return=minimal",
-    },
-    body: JSON.stringify(rows),
-  });
-  if (!res.ok) {
-    const body = await res.text();
-    throw new Error(`Insert failed (${res.status}): ${body}`);
-  }
-}
-
-async function main(): Promise<void> {
+function readLocalWords(): LocalWord[] {
   const files = fs
     .readdirSync(DATA_DIR)
     .filter((f) => f.endsWith(".json"))
@@ -91,33 +63,66 @@ async function main(): Promise<void> {
 
   console.log(`Reading ${files.length} word files...`);
 
-  const seen = new Set<string>();
-  const words: WordData[] = [];
+  const tiers = readWordTiers();
+  // Validating also fills in senses and word lists for files generated
+  // before they existed.
+  const words: LocalWord[] = [];
   for (const file of files) {
+    let data: unknown;
     try {
-      const data = JSON.parse(fs.readFileSync(file, "utf-8")) as WordData;
-      if (!seen.has(data.word)) {
-        seen.add(data.word);
-        words.push(data);
-      }
+      data = JSON.parse(fs.readFileSync(file, "utf-8"));
     } catch {
       console.warn(`Skipping unreadable file: ${file}`);
+      continue;
+    }
+    const result = validateWordData(data);
+    if (result.valid) {
+      const tier = tiers[result.data.word];
+      words.push({ ...result.data, difficulty: tier?.difficulty ?? null, tags: tier?.tags ?? [] });
+    } else {
+      console.warn(`Skipping invalid file: ${file} (${result.error})`);
     }
   }
+  return words;
+}
+
+async function main(): Promise<void> {
+  const isDryRun = process.argv.includes("--dry-run");
+  const config = { url: SUPABASE_URL!, serviceRoleKey: SERVICE_ROLE_KEY! };
 
-  console.log(`Shuffling ${words.length} words with seed ${SHUFFLE_SEED}...`);
-  const shuffled = seededShuffle(words, SHUFFLE_SEED);
+  const local = readLocalWords();
+  const existing = await fetchExistingWords(config);
+  console.log(`${existing.length} words already in Supabase.`);
 
-  const rows = shuffled.map((w, i) => ({ id: i, ...w }));
+  const plan = planUpload(existing, local);
+  console.log(formatPlan(plan));
 
-  console.log(`Uploading in batches of ${BATCH_SIZE}...`);
-  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
-    const batch = rows.slice(i, i + BATCH_SIZE);
-    await insertBatch(batch);
-    process.stdout.write(`\r  ${Math.min(i + BATCH_SIZE, rows.length)} / ${rows.length}`);
+  const trackPlans = planTrackWords(await fetchTrackWords(config), rowsAfter(existing, plan));
+  console.log("Tracks:");
+  console.log(formatTrackPlans(trackPlans));
+
+  if (isDryRun) {
+    console.log("Dry run — nothing written.");
+    return;
+  }
+
+  await applyPlan(config, plan);
+  console.log(`✓ Supabase now has ${plan.total} words.`);
+  if (plan.inserts.length > 0) {
+    console.log(
+      "New words join the daily rotation once a new epoch starts: " +
+        "select public.add_word_rotation_epoch('<YYYY-MM-DD>');"
+    );
   }
 
-  console.log(`\n✓ Uploaded ${rows.length} words to Supabase.`);
+  await applyTrackPlans(config, trackPlans);
+  for (const { track, inserts } of trackPlans) {
+    if (inserts.length === 0) continue;
+    console.log(
+      `New ${track} words join its rotation once a new epoch starts: ` +
+        `select public.add_word_rotation_epoch('<YYYY-MM-DD>', null, '${track}');`
+    );
+  }
 }
 
 main().catch((err: unknown) => {
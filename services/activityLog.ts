@@ -0,0 +1,29 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { deviceTimeZone, toDayKey } from "./dates";
+import type { ActivityEvent, ActivityKind } from "./streaks";
+
+const ACTIVITY_KEY = "@vocabudaily/activity";
+
+export async function getActivity(): Promise<ActivityEvent[]> {
+  const raw = await AsyncStorage.getItem(ACTIVITY_KEY);
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return [];
+  }
+}
+
+// Records at most one event of each kind per local day.
+export async function recordActivity(kind: ActivityKind, now: Date = new Date()): Promise<void> {
+  const timeZone = deviceTimeZone();
+  const today = toDayKey(now, timeZone);
+  const events = await getActivity();
+  const seen = events.some(
+    (e) => e.kind === kind && toDayKey(new Date(e.at), e.timeZone) === today
+  );
+  if (seen) return;
+
+  events.push({ at: now.toISOString(), timeZone, kind });
+  await AsyncStorage.setItem(ACTIVITY_KEY, JSON.stringify(events));
+}
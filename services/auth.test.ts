@@ -0,0 +1,90 @@
+jest.mock("expo-linking", () => ({ createURL: (path: string) => `vocabudaily://${path}` }));
+jest.mock("./supabase", () => ({
+  supabase: {
+    auth: {
+      getSession: jest.fn(),
+      signInAnonymously: jest.fn(),
+      updateUser: jest.fn(),
+      signInWithOtp: jest.fn(),
+      signOut: jest.fn(),
+    },
+  },
+}));
+
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+import { ensureSession, isAnonymous, sendMagicLink, signOut, upgradeWithEmail } from "./auth";
+
+const auth = supabase.auth as unknown as Record<string, jest.Mock>;
+const anonymousSession = { user: { id: "anon", is_anonymous: true } };
+
+beforeEach(() => {
+  Object.values(auth).forEach((fn) => fn.mockReset());
+});
+
+describe("ensureSession", () => {
+  it("reuses a persisted session", async () => {
+    const session = { user: { id: "user-1" } };
+    auth.getSession.mockResolvedValue({ data: { session } });
+
+    expect(await ensureSession()).toBe(session);
+    expect(auth.signInAnonymously).not.toHaveBeenCalled();
+  });
+
+  it("signs in anonymously on first launch", async () => {
+    auth.getSession.mockResolvedValue({ data: { session: null } });
+    auth.signInAnonymously.mockResolvedValue({ data: { session: anonymousSession }, error: null });
+
+    expect(await ensureSession()).toBe(anonymousSession);
+  });
+
+  it("surfaces sign-in errors", async () => {
+    auth.getSession.mockResolvedValue({ data: { session: null } });
+    auth.signInAnonymously.mockResolvedValue({ data: {}, error: new Error("Anonymous sign-ins are disabled") });
+
+    await expect(ensureSession()).rejects.toThrow("Anonymous sign-ins are disabled");
+  });
+});
+
+describe("upgradeWithEmail", () => {
+  it("attaches the email to the current user and redirects back into the app", async () => {
+    auth.updateUser.mockResolvedValue({ error: null });
+
+    await upgradeWithEmail("  reader@example.com ");
+    expect(auth.updateUser).toHaveBeenCalledWith(
+      { email: "reader@example.com" },
+      { emailRedirectTo: "vocabudaily://auth/callback" }
+    );
+  });
+});
+
+describe("sendMagicLink", () => {
+  it("never creates a new account", async () => {
+    auth.signInWithOtp.mockResolvedValue({ error: null });
+
+    await sendMagicLink("reader@example.com");
+    expect(auth.signInWithOtp).toHaveBeenCalledWith({
+      email: "reader@example.com",
+      options: { emailRedirectTo: "vocabudaily://auth/callback", shouldCreateUser: false },
+    });
+  });
+});
+
+describe("signOut", () => {
+  it("falls back to a fresh anonymous user", async () => {
+    auth.signOut.mockResolvedValue({ error: null });
+    auth.getSession.mockResolvedValue({ data: { session: null } });
+    auth.signInAnonymously.mockResolvedValue({ data: { session: anonymousSession }, error: null });
+
+    await signOut();
+    expect(auth.signInAnonymously).toHaveBeenCalled();
+  });
+});
+
+describe("isAnonymous", () => {
+  it("treats a missing user as anonymous", () => {
+    expect(isAnonymous(null)).toBe(true);
+    expect(isAnonymous({ is_anonymous: true } as User)).toBe(true);
+    expect(isAnonymous({ is_anonymous: false } as User)).toBe(false);
+  });
+});
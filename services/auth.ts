@@ -0,0 +1,66 @@
+import * as Linking from "expo-linking";
+import type { Session, User } from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+
+// Where email links land; handled by app/auth/callback.tsx.
+export const AUTH_REDIRECT_URL = Linking.createURL("auth/callback");
+
+export function isAnonymous(user: User | null | undefined): boolean {
+  return !user || user.is_anonymous === true;
+}
+
+// Restores the persisted session, or silently signs in anonymously on first
+// launch so user-owned rows always have an auth.uid() to hang off.
+export async function ensureSession(): Promise<Session> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (session) return session;
+
+  const { data, error } = await supabase.auth.signInAnonymously();
+  if (error) throw error;
+  return data.session!;
+}
+
+// Attaches an email to the current anonymous user. Supabase emails a
+// confirmation link; once it's opened the same user (and everything it
+// owns) becomes a permanent account.
+export async function upgradeWithEmail(email: string): Promise<void> {
+  const { error } = await supabase.auth.updateUser(
+    { email: email.trim() },
+    { emailRedirectTo: AUTH_REDIRECT_URL }
+  );
+  if (error) throw error;
+}
+
+export async function setPassword(password: string): Promise<void> {
+  const { error } = await supabase.auth.updateUser({ password });
+  if (error) throw error;
+}
+
+// Signs in to an existing account on this device (e.g. after a reinstall).
+export async function sendMagicLink(email: string): Promise<void> {
+  const { error } = await supabase.auth.signInWithOtp({
+    email: email.trim(),
+    options: { emailRedirectTo: AUTH_REDIRECT_URL, shouldCreateUser: false },
+  });
+  if (error) throw error;
+}
+
+export async function signInWithPassword(email: string, password: string): Promise<void> {
+  const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+  if (error) throw error;
+}
+
+// Completes a magic link or email confirmation opened via AUTH_REDIRECT_URL.
+export async function completeEmailLink(code: string): Promise<void> {
+  const { error } = await supabase.auth.exchangeCodeForSession(code);
+  if (error) throw error;
+}
+
+// Signing out drops back to a fresh anonymous user rather than no user.
+export async function signOut(): Promise<void> {
+  const { error } = await supabase.auth.signOut();
+  if (error) throw error;
+  await ensureSession();
+}
@@ -0,0 +1,31 @@
+// Calendar-day helpers. A day key is "YYYY-MM-DD" for a calendar date in
+// some time zone; arithmetic on keys is done in UTC so DST never shifts it.
+
+const DAY_MS = 86_400_000;
+
+export function deviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function toDayKey(date: Date, timeZone: string = deviceTimeZone()): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)!.value;
+  return `${get("year")}-${get("month")}-${get("day")}`;
+}
+
+export function dayKeyToUTCDate(key: string): Date {
+  return new Date(`${key}T00:00:00Z`);
+}
+
+export function addDays(key: string, days: number): string {
+  return new Date(dayKeyToUTCDate(key).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((dayKeyToUTCDate(to).getTime() - dayKeyToUTCDate(from).getTime()) / DAY_MS);
+}
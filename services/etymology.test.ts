@@ -0,0 +1,55 @@
+import { parseOrigin, splitOrigin } from "./etymology";
+
+const EQUANIMITY = "From Latin 'aequanimitas', from 'aequus' (equal) + 'animus' (mind, spirit).";
+
+describe("parseOrigin", () => {
+  it("finds each quoted root with its language and meaning", () => {
+    expect(parseOrigin(EQUANIMITY)).toEqual([
+      { language: "Latin", root: "aequanimitas", meaning: null },
+      { language: "Latin", root: "aequus", meaning: "equal" },
+      { language: "Latin", root: "animus", meaning: "mind, spirit" },
+    ]);
+  });
+
+  it("reads a meaning given as \"meaning '…'\" without treating it as a root", () => {
+    const origin = "From Greek 'ephemeros' meaning 'lasting only a day', from 'epi-' (upon) + 'hemera' (day).";
+    expect(parseOrigin(origin)).toEqual([
+      { language: "Greek", root: "ephemeros", meaning: "lasting only a day" },
+      { language: "Greek", root: "epi-", meaning: "upon" },
+      { language: "Greek", root: "hemera", meaning: "day" },
+    ]);
+  });
+
+  it("prefers the longest language name and follows language changes", () => {
+    const origin = "From Old French 'estoupail' (stopper), from Latin 'stuppa' (tow).";
+    expect(parseOrigin(origin).map(({ language, root }) => `${language}:${root}`)).toEqual([
+      "Old French:estoupail",
+      "Latin:stuppa",
+    ]);
+  });
+
+  it("lowercases roots and lists each once", () => {
+    expect(parseOrigin("From Greek 'Lakonikos', from 'Lakonia' and 'lakonikos'.")).toEqual([
+      { language: "Greek", root: "lakonikos", meaning: null },
+      { language: "Greek", root: "lakonia", meaning: null },
+    ]);
+  });
+
+  it("skips apostrophes, phrases and terms with no language", () => {
+    expect(parseOrigin("From Greek Mentor, Odysseus's adviser in Homer's Odyssey.")).toEqual([]);
+    expect(parseOrigin("Coined from 'laughing gas' in 1799.")).toEqual([]);
+    expect(parseOrigin("Of uncertain origin, perhaps from 'flimflam'.")).toEqual([]);
+  });
+});
+
+describe("splitOrigin", () => {
+  it("keeps the text intact around the roots", () => {
+    const segments = splitOrigin(EQUANIMITY);
+    expect(segments.map((s) => s.text).join("")).toBe(EQUANIMITY);
+    expect(segments.filter((s) => s.root).map((s) => s.text)).toEqual(["aequanimitas", "aequus", "animus"]);
+  });
+
+  it("returns plain text when there are no roots", () => {
+    expect(splitOrigin("Of uncertain origin.")).toEqual([{ text: "Of uncertain origin." }]);
+  });
+});
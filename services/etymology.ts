@@ -0,0 +1,85 @@
+// Picks the language and root morphemes out of an origin string such as
+//   From Latin 'aequanimitas', from 'aequus' (equal) + 'animus' (mind, spirit).
+// A root is a quoted single term with a language named before it; a term
+// with no language of its own inherits the last one named. Shared by the
+// Origin line in WordCard and the seed script that fills public.word_roots,
+// so the app only links roots the table knows about.
+
+export interface OriginRoot {
+  language: string;
+  // Lowercased, with any affix hyphen kept: "aequus", "ad-".
+  root: string;
+  // From "(equal)" after the term or "meaning 'equal'" after it.
+  meaning: string | null;
+}
+
+export interface OriginSegment {
+  text: string;
+  root?: OriginRoot;
+}
+
+// Longest first, so "Old French" wins over "French".
+const LANGUAGES = [
+  "Old High German", "Anglo-Norman", "Anglo-French", "Middle English", "Old English",
+  "Middle French", "Old French", "Medieval Latin", "Late Latin", "Vulgar Latin", "New Latin",
+  "Ancient Greek", "Middle Dutch", "Old Norse", "Provençal",
+  "Greek", "Latin", "French", "Italian", "Spanish", "Portuguese", "German", "Dutch", "Norse",
+  "Arabic", "Hebrew", "Persian", "Sanskrit", "Hindi", "Turkish", "Russian", "Yiddish",
+  "Japanese", "Chinese", "Gaelic", "Celtic",
+];
+
+const LANGUAGE_PATTERN = new RegExp(`\\b(${LANGUAGES.join("|")})\\b`, "g");
+
+// An opening quote after a space, "(" or the start, and a closing quote not
+// followed by a letter, so the apostrophe in "Odysseus's" starts nothing.
+const QUOTED = /(^|[\s(])'([^']+)'(?![A-Za-z])/g;
+
+const ROOT_TERM = /^-?\p{L}{2,}(-\p{L}+)*-?$/u;
+const MEANING_AFTER = /^\s*\(([^)]+)\)/;
+const MEANING_INTRO = /\bmeaning\s*$/i;
+
+export function splitOrigin(origin: string): OriginSegment[] {
+  const segments: OriginSegment[] = [];
+  let language: string | null = null;
+  let last = 0;
+  let scanned = 0;
+  let previous: OriginRoot | null = null;
+
+  for (const match of origin.matchAll(QUOTED)) {
+    const quote = match.index! + match[1].length;
+    const term = match[2];
+    const end = quote + term.length + 2;
+
+    for (const found of origin.slice(scanned, quote).matchAll(LANGUAGE_PATTERN)) language = found[1];
+    scanned = end;
+
+    // "'ephemeros' meaning 'lasting only a day'": a gloss, not a root.
+    if (MEANING_INTRO.test(origin.slice(last, quote))) {
+      if (previous && !previous.meaning) previous.meaning = term;
+      continue;
+    }
+    if (!language || !ROOT_TERM.test(term)) continue;
+
+    const root: OriginRoot = {
+      language,
+      root: term.toLowerCase(),
+      meaning: origin.slice(end).match(MEANING_AFTER)?.[1] ?? null,
+    };
+    if (quote + 1 > last) segments.push({ text: origin.slice(last, quote + 1) });
+    segments.push({ text: term, root });
+    last = end - 1;
+    previous = root;
+  }
+
+  if (last < origin.length) segments.push({ text: origin.slice(last) });
+  return segments;
+}
+
+// Each distinct root once, in the order the origin names them.
+export function parseOrigin(origin: string): OriginRoot[] {
+  const roots = new Map<string, OriginRoot>();
+  for (const { root } of splitOrigin(origin)) {
+    if (root && !roots.has(`${root.language}:${root.root}`)) roots.set(`${root.language}:${root.root}`, root);
+  }
+  return [...roots.values()];
+}
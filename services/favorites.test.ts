@@ -0,0 +1,187 @@
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("./supabase", () => ({
+  supabase: { auth: { getSession: jest.fn() }, from: jest.fn() },
+}));
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { supabase } from "./supabase";
+import type { Word } from "./wordService";
+import {
+  filterFavorites,
+  getFavorites,
+  subscribeFavorites,
+  syncFavorites,
+  toggleFavorite,
+  type FavoriteWord,
+} from "./favorites";
+
+function makeWord(id: number, word: string, definition = `Meaning of ${word}.`): Word {
+  return { id, word, part_of_speech: "noun", definition, phonetic: "WURD", examples: [], origin: "Test." };
+}
+
+function makeFavorite(word: Word, savedAt: string): FavoriteWord {
+  return { id: word.id, savedAt, word };
+}
+
+const getSession = supabase.auth.getSession as jest.Mock;
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  getSession.mockResolvedValue({ data: { session: null } });
+  (supabase.from as jest.Mock).mockReset();
+});
+
+describe("toggleFavorite", () => {
+  it("saves a snapshot and unsaves it again", async () => {
+    const word = makeWord(7, "laconic");
+
+    expect(await toggleFavorite(word)).toBe(true);
+    expect(await getFavorites()).toEqual([expect.objectContaining({ id: 7, word })]);
+
+    expect(await toggleFavorite(word)).toBe(false);
+    expect(await getFavorites()).toEqual([]);
+  });
+
+  it("notifies subscribers", async () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeFavorites(listener);
+    await toggleFavorite(makeWord(1, "sanguine"));
+    unsubscribe();
+    await toggleFavorite(makeWord(2, "torpor"));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith([expect.objectContaining({ id: 1 })]);
+  });
+
+  it("keeps both of two toggles made at once", async () => {
+    await Promise.all([toggleFavorite(makeWord(1, "sanguine")), toggleFavorite(makeWord(2, "torpor"))]);
+    expect((await getFavorites()).map((f) => f.id).sort()).toEqual([1, 2]);
+  });
+
+  it("does not touch Supabase while signed out", async () => {
+    await toggleFavorite(makeWord(1, "sanguine"));
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+});
+
+describe("filterFavorites", () => {
+  const favorites = [
+    makeFavorite(makeWord(1, "torpor", "Sluggish inactivity."), "2026-02-01T00:00:00Z"),
+    makeFavorite(makeWord(2, "laconic", "Using very few words."), "2026-03-01T00:00:00Z"),
+    makeFavorite(makeWord(3, "equanimity", "Mental calmness."), "2026-01-01T00:00:00Z"),
+  ];
+
+  it("sorts by date saved, newest first", () => {
+    expect(filterFavorites(favorites, "", "recent").map((f) => f.id)).toEqual([2, 1, 3]);
+  });
+
+  it("sorts alphabetically", () => {
+    expect(filterFavorites(favorites, "", "alphabetical").map((f) => f.word.word)).toEqual([
+      "equanimity",
+      "laconic",
+      "torpor",
+    ]);
+  });
+
+  it("searches words and definitions case-insensitively", () => {
+    expect(filterFavorites(favorites, "LAC", "recent").map((f) => f.id)).toEqual([2]);
+    expect(filterFavorites(favorites, "calm", "recent").map((f) => f.id)).toEqual([3]);
+  });
+});
+
+describe("syncFavorites", () => {
+  it("pushes removals and saves, then pulls remote-only favorites", async () => {
+    const remote = makeWord(9, "penury");
+    const calls: string[] = [];
+    (supabase.from as jest.Mock).mockImplementation(() => ({
+      delete: () => ({
+        in: async (_column: string, ids: number[]) => {
+          calls.push(`delete ${ids.join(",")}`);
+          return { error: null };
+        },
+      }),
+      upsert: async (rows: Array<{ word_id: number }>) => {
+        calls.push(`upsert ${rows.map((r) => r.word_id).join(",")}`);
+        return { error: null };
+      },
+      select: async () => {
+        calls.push("select");
+        return {
+          data: [
+            { word_id: 1, saved_at: "2026-02-01T00:00:00Z", words: makeWord(1, "torpor") },
+            { word_id: 9, saved_at: "2026-01-05T00:00:00Z", words: remote },
+          ],
+          error: null,
+        };
+      },
+    }));
+
+    await toggleFavorite(makeWord(1, "torpor"));
+    await toggleFavorite(makeWord(4, "sanguine"));
+    await toggleFavorite(makeWord(4, "sanguine"));
+    getSession.mockResolvedValue({ data: { session: { user: { id: "user-1" } } } });
+
+    await syncFavorites();
+
+    expect(calls).toEqual(["delete 4", "upsert 1", "select"]);
+    expect((await getFavorites()).map((f) => f.id)).toEqual([1, 9]);
+  });
+
+  it("drops favorites unsaved on another device, but keeps new local ones", async () => {
+    let remote = [1, 2];
+    (supabase.from as jest.Mock).mockImplementation(() => ({
+      delete: () => ({ in: async () => ({ error: null }) }),
+      upsert: async (rows: Array<{ word_id: number }>) => {
+        remote = [...new Set([...remote, ...rows.map((r) => r.word_id)])];
+        return { error: null };
+      },
+      select: async () => ({
+        data: remote.map((id) => ({ word_id: id, saved_at: "2026-02-01T00:00:00Z", words: makeWord(id, `word${id}`) })),
+        error: null,
+      }),
+    }));
+    getSession.mockResolvedValue({ data: { session: { user: { id: "user-1" } } } });
+
+    await syncFavorites();
+    expect((await getFavorites()).map((f) => f.id)).toEqual([1, 2]);
+
+    // Unsaved elsewhere, while this device saves word 3.
+    remote = [1];
+    await toggleFavorite(makeWord(3, "sanguine"));
+    await syncFavorites();
+
+    expect((await getFavorites()).map((f) => f.id).sort()).toEqual([1, 3]);
+    expect(remote.sort()).toEqual([1, 3]);
+  });
+
+  it("uploads everything after switching to another user instead of dropping it", async () => {
+    const tables: Record<string, number[]> = { anon: [], account: [5] };
+    let user = "anon";
+    (supabase.from as jest.Mock).mockImplementation(() => ({
+      delete: () => ({ in: async () => ({ error: null }) }),
+      upsert: async (rows: Array<{ user_id: string; word_id: number }>) => {
+        for (const row of rows) tables[row.user_id] = [...new Set([...tables[row.user_id], row.word_id])];
+        return { error: null };
+      },
+      select: async () => ({
+        data: tables[user].map((id) => ({ word_id: id, saved_at: "2026-02-01T00:00:00Z", words: makeWord(id, `word${id}`) })),
+        error: null,
+      }),
+    }));
+    getSession.mockImplementation(async () => ({ data: { session: { user: { id: user } } } }));
+
+    await toggleFavorite(makeWord(1, "torpor"));
+    await syncFavorites();
+    expect(tables.anon).toEqual([1]);
+
+    // Signing in to an existing account that has other favorites.
+    user = "account";
+    await syncFavorites();
+
+    expect((await getFavorites()).map((f) => f.id).sort()).toEqual([1, 5]);
+    expect(tables.account.sort()).toEqual([1, 5]);
+  });
+});
@@ -0,0 +1,184 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { supabase } from "./supabase";
+import { WORD_COLUMNS, type Word } from "./wordService";
+
+const FAVORITES_KEY = "@vocabudaily/favorites";
+// Ids unsaved locally that still have to be deleted from user_favorites.
+const PENDING_REMOVALS_KEY = "@vocabudaily/favoriteRemovals";
+// Ids that were in user_favorites at the last sync, and whose table that
+// was. A local favorite listed here but gone from the table was unsaved on
+// another device.
+const SYNCED_KEY = "@vocabudaily/favoritesSynced";
+
+export interface FavoriteWord {
+  id: number;
+  savedAt: string;
+  // Snapshot of the word when it was saved, so the list works offline.
+  word: Word;
+}
+
+export type FavoriteSort = "recent" | "alphabetical";
+
+interface SyncedFavorites {
+  userId: string;
+  ids: number[];
+}
+
+type Listener = (favorites: FavoriteWord[]) => void;
+const listeners = new Set<Listener>();
+
+// Local read-modify-writes run one at a time, so quick toggles and a sync
+// finishing in between can't overwrite each other.
+let writes: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const result = writes.then(task);
+  writes = result.catch(() => {});
+  return result;
+}
+
+async function readList<T>(key: string): Promise<T[]> {
+  const raw = await AsyncStorage.getItem(key);
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return [];
+  }
+}
+
+async function readSynced(): Promise<SyncedFavorites | null> {
+  const raw = await AsyncStorage.getItem(SYNCED_KEY);
+  if (!raw) return null;
+  try {
+    const synced = JSON.parse(raw);
+    return typeof synced?.userId === "string" && Array.isArray(synced.ids) ? synced : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeFavorites(favorites: FavoriteWord[]): Promise<void> {
+  await AsyncStorage.setItem(FAVORITES_KEY, JSON.stringify(favorites));
+  listeners.forEach((listener) => listener(favorites));
+}
+
+export function getFavorites(): Promise<FavoriteWord[]> {
+  return readList<FavoriteWord>(FAVORITES_KEY);
+}
+
+export function subscribeFavorites(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Saves or unsaves `word` and returns whether it is now saved.
+export async function toggleFavorite(word: Word): Promise<boolean> {
+  const saved = await serialized(async () => {
+    const favorites = await getFavorites();
+    const removals = await readList<number>(PENDING_REMOVALS_KEY);
+    const wasSaved = favorites.some((f) => f.id === word.id);
+
+    if (wasSaved) {
+      await writeFavorites(favorites.filter((f) => f.id !== word.id));
+      await AsyncStorage.setItem(PENDING_REMOVALS_KEY, JSON.stringify([...removals, word.id]));
+    } else {
+      await writeFavorites([{ id: word.id, savedAt: new Date().toISOString(), word }, ...favorites]);
+      await AsyncStorage.setItem(
+        PENDING_REMOVALS_KEY,
+        JSON.stringify(removals.filter((id) => id !== word.id))
+      );
+      // A fresh save, so the next sync uploads it rather than treating it
+      // as removed elsewhere.
+      const synced = await readSynced();
+      if (synced) {
+        await AsyncStorage.setItem(
+          SYNCED_KEY,
+          JSON.stringify({ ...synced, ids: synced.ids.filter((id) => id !== word.id) })
+        );
+      }
+    }
+    return !wasSaved;
+  });
+
+  syncFavorites().catch((error) => console.warn("Favorites sync failed:", error));
+  return saved;
+}
+
+export function filterFavorites(
+  favorites: FavoriteWord[],
+  query: string,
+  sort: FavoriteSort
+): FavoriteWord[] {
+  const q = query.trim().toLowerCase();
+  const matches = q
+    ? favorites.filter(
+        (f) => f.word.word.toLowerCase().includes(q) || f.word.definition.toLowerCase().includes(q)
+      )
+    : [...favorites];
+  return matches.sort((a, b) =>
+    sort === "alphabetical"
+      ? a.word.word.localeCompare(b.word.word)
+      : b.savedAt.localeCompare(a.savedAt)
+  );
+}
+
+// Two-way sync with public.user_favorites for signed-in users; a no-op
+// otherwise. Local removals are pushed first so they aren't pulled back, then
+// favorites saved since the last sync. The table wins for everything else:
+// rows added elsewhere are pulled in, and favorites synced before but gone
+// from the table (unsaved on another device) are dropped. After a switch to
+// another user (signing in to an existing account, or signing out to a fresh
+// anonymous one) nothing counts as synced, so every local favorite is
+// uploaded to the new user rather than dropped.
+export async function syncFavorites(): Promise<void> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) return;
+
+  const removals = await readList<number>(PENDING_REMOVALS_KEY);
+  if (removals.length > 0) {
+    const { error } = await supabase.from("user_favorites").delete().in("word_id", removals);
+    if (error) throw error;
+  }
+
+  const lastSync = await readSynced();
+  const synced = new Set(lastSync?.userId === session.user.id ? lastSync.ids : []);
+  const unsynced = (await getFavorites()).filter((f) => !synced.has(f.id));
+  if (unsynced.length > 0) {
+    const { error } = await supabase
+      .from("user_favorites")
+      .upsert(
+        unsynced.map((f) => ({ user_id: session.user.id, word_id: f.id, saved_at: f.savedAt })),
+        { onConflict: "user_id,word_id", ignoreDuplicates: true }
+      );
+    if (error) throw error;
+  }
+
+  const { data, error } = await supabase
+    .from("user_favorites")
+    .select(`word_id, saved_at, words(${WORD_COLUMNS})`);
+  if (error) throw error;
+  const rows = (data ?? []) as unknown as { word_id: number; saved_at: string; words: Word | null }[];
+
+  // Merged against the current local state, which may have changed while
+  // the requests were in flight.
+  await serialized(async () => {
+    const pending = (await readList<number>(PENDING_REMOVALS_KEY)).filter((id) => !removals.includes(id));
+    const remote = new Set(rows.map((row) => row.word_id));
+    const local = await getFavorites();
+    const kept = local.filter((f) => remote.has(f.id) || !synced.has(f.id));
+    const known = new Set(local.map((f) => f.id));
+    const pulled: FavoriteWord[] = rows
+      .filter((row) => row.words && !known.has(row.word_id) && !pending.includes(row.word_id))
+      .map((row) => ({ id: row.word_id, savedAt: row.saved_at, word: row.words! }));
+
+    if (pulled.length > 0 || kept.length !== local.length) await writeFavorites([...kept, ...pulled]);
+    await AsyncStorage.setItem(PENDING_REMOVALS_KEY, JSON.stringify(pending));
+    const next: SyncedFavorites = { userId: session.user.id, ids: [...remote] };
+    await AsyncStorage.setItem(SYNCED_KEY, JSON.stringify(next));
+  });
+}
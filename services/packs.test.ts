@@ -0,0 +1,172 @@
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("./supabase", () => ({ supabase: { from: jest.fn() } }));
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { supabase } from "./supabase";
+import type { Word } from "./wordService";
+import {
+  countSeen,
+  getPack,
+  getPackProgress,
+  getPacks,
+  getPackWords,
+  markPackWordSeen,
+  resetPackProgress,
+  resumeIndex,
+} from "./packs";
+
+function makeWord(id: number, word: string): Word {
+  return { id, word, part_of_speech: "noun", definition: `Meaning of ${word}.`, phonetic: "WURD", examples: [], origin: "Greek." };
+}
+
+const WORDS = [makeWord(4, "chimera"), makeWord(9, "mentor"), makeWord(2, "nemesis")];
+const WORD_IDS = WORDS.map((word) => word.id);
+
+interface QueryResult {
+  data: unknown;
+  error: Error | null;
+}
+
+// A query chain that resolves to `result` however it ends: awaited,
+// .range(), .in() or .maybeSingle().
+interface MockQuery extends PromiseLike<QueryResult> {
+  select: jest.Mock;
+  order: jest.Mock;
+  eq: jest.Mock;
+  range: jest.Mock;
+  in: jest.Mock;
+  maybeSingle: jest.Mock;
+}
+
+function queryFor(result: QueryResult): MockQuery {
+  const query: MockQuery = {
+    select: jest.fn(() => query),
+    order: jest.fn(() => query),
+    eq: jest.fn(() => query),
+    range: jest.fn(async () => result),
+    in: jest.fn(async () => result),
+    maybeSingle: jest.fn(async () => result),
+    then: (resolve, reject) => Promise.resolve(result).then(resolve, reject),
+  };
+  return query;
+}
+
+// Answers supabase.from(table) with that table's query.
+function serveTables(tables: Record<string, MockQuery>) {
+  (supabase.from as jest.Mock).mockImplementation((table: string) => tables[table]);
+}
+
+function servePacks(result: QueryResult) {
+  serveTables({ packs: queryFor(result) });
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  (supabase.from as jest.Mock).mockReset();
+});
+
+describe("getPacks", () => {
+  it("flattens the word count", async () => {
+    servePacks({
+      data: [{ id: 1, slug: "greek-myth", title: "Words from Greek myth", description: "Gods.", pack_words: [{ count: 3 }] }],
+      error: null,
+    });
+    expect(await getPacks()).toEqual([
+      { id: 1, slug: "greek-myth", title: "Words from Greek myth", description: "Gods.", word_count: 3 },
+    ]);
+  });
+
+  it("surfaces errors", async () => {
+    servePacks({ data: null, error: new Error("Network request failed") });
+    await expect(getPacks()).rejects.toThrow("Network request failed");
+  });
+});
+
+describe("getPack", () => {
+  const GREEK_MYTH = { id: 1, slug: "greek-myth", title: "Words from Greek myth", description: "Gods." };
+
+  it("returns the word ids in pack order", async () => {
+    const packs = queryFor({ data: GREEK_MYTH, error: null });
+    const packWords = queryFor({ data: WORD_IDS.map((word_id) => ({ word_id })), error: null });
+    serveTables({ packs, pack_words: packWords });
+
+    expect(await getPack("greek-myth")).toEqual({ ...GREEK_MYTH, word_count: 3, wordIds: WORD_IDS });
+    expect(packs.eq).toHaveBeenCalledWith("slug", "greek-myth");
+    expect(packWords.eq).toHaveBeenCalledWith("pack_id", 1);
+    expect(packWords.order).toHaveBeenCalledWith("position");
+    expect(packWords.range).toHaveBeenCalledWith(0, 999);
+  });
+
+  it("pages through the ids of a large pack", async () => {
+    const packWords = queryFor({ data: null, error: null });
+    const ids = Array.from({ length: 1005 }, (_, i) => i);
+    packWords.range
+      .mockResolvedValueOnce({ data: ids.slice(0, 1000).map((word_id) => ({ word_id })), error: null })
+      .mockResolvedValueOnce({ data: ids.slice(1000).map((word_id) => ({ word_id })), error: null });
+    serveTables({ packs: queryFor({ data: GREEK_MYTH, error: null }), pack_words: packWords });
+
+    expect((await getPack("greek-myth"))?.wordIds).toEqual(ids);
+    expect(packWords.range).toHaveBeenLastCalledWith(1000, 1999);
+  });
+
+  it("returns null for an unknown slug", async () => {
+    servePacks({ data: null, error: null });
+    expect(await getPack("nope")).toBeNull();
+  });
+});
+
+describe("getPackWords", () => {
+  it("returns the words in the order asked for", async () => {
+    const rows = [...WORDS].reverse().map((word) => ({ ...word, updated_at: "2026-01-01T00:00:00Z" }));
+    const words = queryFor({ data: rows, error: null });
+    serveTables({ words });
+
+    expect(await getPackWords(WORD_IDS)).toEqual(WORDS);
+    expect(words.in).toHaveBeenCalledWith("id", WORD_IDS);
+  });
+
+  it("skips the request for an empty page", async () => {
+    expect(await getPackWords([])).toEqual([]);
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+});
+
+describe("pack progress", () => {
+  it("records each word once per pack", async () => {
+    await markPackWordSeen(1, 4);
+    await markPackWordSeen(1, 9);
+    expect(await markPackWordSeen(1, 4)).toEqual([4, 9]);
+    await markPackWordSeen(2, 4);
+
+    expect(await getPackProgress()).toEqual({ 1: [4, 9], 2: [4] });
+  });
+
+  it("keeps every word marked seen at once", async () => {
+    await Promise.all([markPackWordSeen(1, 4), markPackWordSeen(1, 9), markPackWordSeen(1, 2)]);
+    expect(await getPackProgress()).toEqual({ 1: [4, 9, 2] });
+  });
+
+  it("resets one pack", async () => {
+    await markPackWordSeen(1, 4);
+    await markPackWordSeen(2, 9);
+    await resetPackProgress(1);
+    expect(await getPackProgress()).toEqual({ 2: [9] });
+  });
+
+  it("ignores a corrupt store", async () => {
+    await AsyncStorage.setItem("@vocabudaily/packProgress", "{not json");
+    expect(await getPackProgress()).toEqual({});
+  });
+
+  it("resumes at the first unseen word, or the start when done", () => {
+    expect(resumeIndex(WORD_IDS, [])).toBe(0);
+    expect(resumeIndex(WORD_IDS, [4, 2])).toBe(1);
+    expect(resumeIndex(WORD_IDS, [4, 9, 2])).toBe(0);
+  });
+
+  it("only counts words still in the pack", () => {
+    expect(countSeen({ wordIds: WORD_IDS }, [4, 9, 77])).toBe(2);
+  });
+});
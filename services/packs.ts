@@ -0,0 +1,127 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { supabase } from "./supabase";
+import { getWordsByIds, type Word } from "./wordService";
+
+const PROGRESS_KEY = "@vocabudaily/packProgress";
+
+const WORD_ID_PAGE_SIZE = 1000;
+
+// Progress read-modify-writes run one at a time, so quick Next taps can't
+// overwrite each other's seen words.
+let writes: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const result = writes.then(task);
+  writes = result.catch(() => {});
+  return result;
+}
+
+// One row of public.packs; see supabase/migrations/0012_packs.sql.
+export interface Pack {
+  id: number;
+  slug: string;
+  title: string;
+  description: string;
+  word_count: number;
+}
+
+// A pack with its word ids; packs can hold thousands of words, so the words
+// themselves are loaded a page at a time with getPackWords.
+export interface PackWithWordIds extends Pack {
+  // In the pack's order.
+  wordIds: number[];
+}
+
+// Keyed by packs.id: ids of the words seen in that pack, in the order seen.
+export type PackProgress = Record<number, number[]>;
+
+export async function getPacks(): Promise<Pack[]> {
+  const { data, error } = await supabase
+    .from("packs")
+    .select("id, slug, title, description, pack_words(count)")
+    .order("sort_order")
+    .order("title");
+  if (error) throw error;
+  const rows = data as unknown as (Omit<Pack, "word_count"> & { pack_words: { count: number }[] })[];
+  return rows.map(({ pack_words, ...pack }) => ({ ...pack, word_count: pack_words[0]?.count ?? 0 }));
+}
+
+async function fetchPackWordIds(packId: number): Promise<number[]> {
+  const wordIds: number[] = [];
+  for (;;) {
+    const { data, error } = await supabase
+      .from("pack_words")
+      .select("word_id")
+      .eq("pack_id", packId)
+      .order("position")
+      .range(wordIds.length, wordIds.length + WORD_ID_PAGE_SIZE - 1);
+    if (error) throw error;
+    wordIds.push(...(data as { word_id: number }[]).map((row) => row.word_id));
+    if (data.length < WORD_ID_PAGE_SIZE) return wordIds;
+  }
+}
+
+export async function getPack(slug: string): Promise<PackWithWordIds | null> {
+  const { data, error } = await supabase
+    .from("packs")
+    .select("id, slug, title, description")
+    .eq("slug", slug)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  const pack = data as Omit<Pack, "word_count">;
+  const wordIds = await fetchPackWordIds(pack.id);
+  return { ...pack, word_count: wordIds.length, wordIds };
+}
+
+// The words for `ids`, in that order.
+export async function getPackWords(ids: number[]): Promise<Word[]> {
+  if (ids.length === 0) return [];
+  const byId = new Map<number, Word>((await getWordsByIds(ids)).map(({ updated_at, ...word }) => [word.id, word]));
+  return ids.flatMap((id) => {
+    const word = byId.get(id);
+    return word ? [word] : [];
+  });
+}
+
+export async function getPackProgress(): Promise<PackProgress> {
+  const raw = await AsyncStorage.getItem(PROGRESS_KEY);
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
+
+// Returns the pack's seen word ids, including this one.
+export function markPackWordSeen(packId: number, wordId: number): Promise<number[]> {
+  return serialized(async () => {
+    const progress = await getPackProgress();
+    const seen = progress[packId] ?? [];
+    if (seen.includes(wordId)) return seen;
+    progress[packId] = [...seen, wordId];
+    await AsyncStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+    return progress[packId];
+  });
+}
+
+export function resetPackProgress(packId: number): Promise<void> {
+  return serialized(async () => {
+    const progress = await getPackProgress();
+    delete progress[packId];
+    await AsyncStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+  });
+}
+
+// Where to resume a pack: its first unseen word, or the start once every
+// word has been seen.
+export function resumeIndex(wordIds: number[], seen: number[]): number {
+  const index = wordIds.findIndex((id) => !seen.includes(id));
+  return index === -1 ? 0 : index;
+}
+
+// Seen words still in the pack; a rebuilt pack may have dropped some.
+export function countSeen(pack: Pick<PackWithWordIds, "wordIds">, seen: number[]): number {
+  return pack.wordIds.filter((id) => seen.includes(id)).length;
+}
@@ -0,0 +1,47 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { WordTrack } from "./wordRotation";
+
+const PREFERENCES_KEY = "@vocabudaily/preferences";
+
+export type PronunciationRate = "normal" | "slow";
+
+export interface Preferences {
+  // Forgive one missed day a week when computing streaks.
+  streakFreeze: boolean;
+  notificationsEnabled: boolean;
+  // Local time of day the daily notification fires.
+  notificationHour: number;
+  notificationMinute: number;
+  // Days of the week to notify on, 0 = Sunday (Date#getDay).
+  notificationWeekdays: number[];
+  // Pronunciation playback speed; "slow" helps learners hear each syllable.
+  pronunciationRate: PronunciationRate;
+  // Which rotation the daily word comes from; change it with setWordTrack.
+  wordTrack: WordTrack;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  streakFreeze: false,
+  notificationsEnabled: true,
+  notificationHour: 9,
+  notificationMinute: 0,
+  notificationWeekdays: [0, 1, 2, 3, 4, 5, 6],
+  pronunciationRate: "normal",
+  wordTrack: "all",
+};
+
+export async function getPreferences(): Promise<Preferences> {
+  const raw = await AsyncStorage.getItem(PREFERENCES_KEY);
+  if (!raw) return DEFAULT_PREFERENCES;
+  try {
+    return { ...DEFAULT_PREFERENCES, ...JSON.parse(raw) };
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+export async function updatePreferences(patch: Partial<Preferences>): Promise<Preferences> {
+  const next = { ...(await getPreferences()), ...patch };
+  await AsyncStorage.setItem(PREFERENCES_KEY, JSON.stringify(next));
+  return next;
+}
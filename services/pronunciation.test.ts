@@ -0,0 +1,139 @@
+jest.mock("expo-speech", () => ({
+  speak: jest.fn(),
+  stop: jest.fn(async () => {}),
+}));
+
+const mockPlayer = {
+  play: jest.fn(),
+  remove: jest.fn(),
+  setPlaybackRate: jest.fn(),
+  addListener: jest.fn(),
+};
+jest.mock("expo-audio", () => ({
+  createAudioPlayer: jest.fn(() => mockPlayer),
+}));
+
+import { createAudioPlayer } from "expo-audio";
+import * as Speech from "expo-speech";
+import { pronounce, RECORDING_LOAD_TIMEOUT_MS, stopPronunciation } from "./pronunciation";
+import type { Word } from "./wordService";
+
+const recorded: Word = {
+  id: 1,
+  word: "ephemeral",
+  part_of_speech: "adjective",
+  definition: "Lasting a very short time.",
+  phonetic: "ih-FEM-er-uhl",
+  examples: [],
+  origin: "",
+  audio_url: "https://cdn.example.com/ephemeral.mp3",
+};
+
+const word: Word = {
+  id: 1,
+  word: "ephemeral",
+  part_of_speech: "adjective",
+  definition: "Lasting a very short time.",
+  phonetic: "ih-FEM-er-uhl",
+  examples: [],
+  origin: "",
+};
+
+describe("pronounce", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPlayer.addListener.mockReturnValue({ remove: jest.fn() });
+  });
+
+  afterEach(() => stopPronunciation());
+
+  it("reads the word with text-to-speech when there is no recording", async () => {
+    await pronounce(word);
+    expect(Speech.speak).toHaveBeenCalledWith("ephemeral", { language: "en-US", rate: 1.0 });
+    expect(createAudioPlayer).not.toHaveBeenCalled();
+  });
+
+  it("slows text-to-speech down", async () => {
+    await pronounce({ ...word, audio_url: null }, "slow");
+    expect(Speech.speak).toHaveBeenCalledWith("ephemeral", { language: "en-US", rate: 0.6 });
+  });
+
+  it("prefers the curated recording at the chosen rate", async () => {
+    await pronounce({ ...word, audio_url: "https://cdn.example.com/ephemeral.mp3" }, "slow");
+    expect(createAudioPlayer).toHaveBeenCalledWith("https://cdn.example.com/ephemeral.mp3");
+    expect(mockPlayer.setPlaybackRate).toHaveBeenCalledWith(0.6);
+    expect(mockPlayer.play).toHaveBeenCalled();
+    expect(Speech.speak).not.toHaveBeenCalled();
+  });
+
+  it("releases the player once the recording finishes", async () => {
+    await pronounce({ ...word, audio_url: "https://cdn.example.com/ephemeral.mp3" });
+    const onStatus = mockPlayer.addListener.mock.calls[0][1];
+    onStatus({ didJustFinish: false });
+    expect(mockPlayer.remove).not.toHaveBeenCalled();
+    onStatus({ didJustFinish: true });
+    expect(mockPlayer.remove).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back to text-to-speech if the recording can't be played", async () => {
+    (createAudioPlayer as jest.Mock).mockImplementationOnce(() => {
+      throw new Error("unsupported source");
+    });
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    await pronounce({ ...word, audio_url: "https://cdn.example.com/broken" });
+    expect(Speech.speak).toHaveBeenCalledWith("ephemeral", { language: "en-US", rate: 1.0 });
+  });
+
+  it("stops whatever was playing first", async () => {
+    await pronounce({ ...word, audio_url: "https://cdn.example.com/ephemeral.mp3" });
+    await pronounce(word);
+    expect(mockPlayer.remove).toHaveBeenCalledTimes(1);
+    expect(Speech.stop).toHaveBeenCalledTimes(2);
+  });
+
+  it("falls back to text-to-speech when the player reports a failed load", async () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    await pronounce(recorded);
+    const onStatus = mockPlayer.addListener.mock.calls[0][1];
+    onStatus({ playbackState: "failed", isLoaded: false, didJustFinish: false });
+    expect(mockPlayer.remove).toHaveBeenCalledTimes(1);
+    expect(Speech.speak).toHaveBeenCalledWith("ephemeral", { language: "en-US", rate: 1.0 });
+  });
+
+  it("falls back to text-to-speech when the recording doesn't load in time", async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      await pronounce(recorded, "slow");
+      jest.advanceTimersByTime(RECORDING_LOAD_TIMEOUT_MS);
+      expect(Speech.speak).toHaveBeenCalledWith("ephemeral", { language: "en-US", rate: 0.6 });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("keeps playing a recording that loaded in time", async () => {
+    jest.useFakeTimers();
+    try {
+      await pronounce(recorded);
+      mockPlayer.addListener.mock.calls[0][1]({ playbackState: "ready", isLoaded: true, didJustFinish: false });
+      jest.advanceTimersByTime(RECORDING_LOAD_TIMEOUT_MS);
+      expect(mockPlayer.remove).not.toHaveBeenCalled();
+      expect(Speech.speak).not.toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("only stops the given pronunciation if it is still playing", async () => {
+    const first = await pronounce(recorded);
+    const second = await pronounce(word);
+    jest.clearAllMocks();
+
+    await stopPronunciation(first);
+    expect(Speech.stop).not.toHaveBeenCalled();
+
+    await stopPronunciation(second);
+    expect(Speech.stop).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,102 @@
+import { createAudioPlayer, type AudioPlayer } from "expo-audio";
+import * as Speech from "expo-speech";
+import type { PronunciationRate } from "./preferences";
+import type { Word } from "./wordService";
+
+// Playback speed multipliers for recordings and text-to-speech alike.
+export const PLAYBACK_RATES: Record<PronunciationRate, number> = {
+  normal: 1.0,
+  slow: 0.6,
+};
+
+// A recording that hasn't loaded by then is treated as broken.
+export const RECORDING_LOAD_TIMEOUT_MS = 5000;
+
+// What the player reports in playbackState when a source fails to load
+// ("error" on Android, AVPlayerItem's "failed" on iOS).
+const FAILED_PLAYBACK_STATES = ["error", "failed"];
+
+let player: AudioPlayer | null = null;
+let loadTimeout: ReturnType<typeof setTimeout> | null = null;
+// Bumped by every pronounce() call, so callers can tell whether the current
+// pronunciation is still theirs.
+let playback = 0;
+
+function releasePlayer() {
+  if (loadTimeout) clearTimeout(loadTimeout);
+  loadTimeout = null;
+  player?.remove();
+  player = null;
+}
+
+// Stops the current pronunciation. Given the id pronounce() returned, it only
+// stops that one, leaving alone anything another card has started since.
+export async function stopPronunciation(id?: number): Promise<void> {
+  if (id !== undefined && id !== playback) return;
+  releasePlayer();
+  await Speech.stop();
+}
+
+function speak(word: Word, rate: number) {
+  Speech.speak(word.word, { language: "en-US", rate });
+}
+
+function warnFallback(word: Word, error: unknown) {
+  console.warn(`Couldn't play recording for "${word.word}", using text-to-speech:`, error);
+}
+
+// Loading errors arrive as status updates, not exceptions, so a failed or
+// stalled load falls back to text-to-speech from here.
+function playRecording(word: Word, url: string, rate: number) {
+  const next = createAudioPlayer(url);
+  player = next;
+  next.setPlaybackRate(rate);
+
+  const fallBack = (error: unknown) => {
+    subscription.remove();
+    if (player !== next) return;
+    warnFallback(word, error);
+    releasePlayer();
+    speak(word, rate);
+  };
+
+  const subscription = next.addListener("playbackStatusUpdate", (status) => {
+    if (FAILED_PLAYBACK_STATES.includes(status.playbackState)) {
+      fallBack(new Error(`Playback ${status.playbackState}`));
+      return;
+    }
+    if (status.isLoaded && loadTimeout && player === next) {
+      clearTimeout(loadTimeout);
+      loadTimeout = null;
+    }
+    if (!status.didJustFinish) return;
+    subscription.remove();
+    if (player === next) releasePlayer();
+  });
+  loadTimeout = setTimeout(
+    () => fallBack(new Error(`Not loaded after ${RECORDING_LOAD_TIMEOUT_MS}ms`)),
+    RECORDING_LOAD_TIMEOUT_MS
+  );
+  next.play();
+}
+
+// Plays the word's curated recording (words.audio_url) if it has one,
+// otherwise reads the word aloud with on-device text-to-speech. Resolves to
+// an id for stopPronunciation().
+export async function pronounce(word: Word, rate: PronunciationRate = "normal"): Promise<number> {
+  await stopPronunciation();
+  const id = ++playback;
+  const multiplier = PLAYBACK_RATES[rate];
+
+  if (word.audio_url) {
+    try {
+      playRecording(word, word.audio_url, multiplier);
+      return id;
+    } catch (error) {
+      warnFallback(word, error);
+      releasePlayer();
+    }
+  }
+  speak(word, multiplier);
+  return id;
+}
@@ -0,0 +1,98 @@
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("./supabase", () => ({ supabase: { rpc: jest.fn() } }));
+
+import { supabase } from "./supabase";
+import type { Word } from "./wordService";
+import { availableKinds, buildQuestion, generateQuestion, recordAnswer } from "./quizService";
+
+function makeWord(id: number, word: string, examples: string[] = []): Word {
+  return {
+    id,
+    word,
+    part_of_speech: "adjective",
+    definition: `Definition of ${word}.`,
+    phonetic: "WURD",
+    examples,
+    origin: "Test.",
+  };
+}
+
+const target = makeWord(1, "laconic", [
+  "He gave a curt reply.",
+  "His laconic answer ended the debate.",
+]);
+const distractors = [makeWord(2, "verbose"), makeWord(3, "garrulous"), makeWord(4, "prolix")];
+
+// Deterministic stand-in for Math.random
+function seeded(values: number[]) {
+  let i = 0;
+  return () => values[i++ % values.length];
+}
+
+describe("buildQuestion", () => {
+  it("asks for the definition of the word", () => {
+    const q = buildQuestion(target, distractors, "definition", seeded([0.5]))!;
+    expect(q.prompt).toBe("laconic");
+    expect(q.choices).toHaveLength(4);
+    expect(q.choices[q.answerIndex]).toBe("Definition of laconic.");
+    expect(q.choices).toEqual(expect.arrayContaining(["Definition of verbose.", "Definition of prolix."]));
+  });
+
+  it("asks for the word given its definition", () => {
+    const q = buildQuestion(target, distractors, "reverse", seeded([0.1, 0.9]))!;
+    expect(q.prompt).toBe("Definition of laconic.");
+    expect(q.choices[q.answerIndex]).toBe("laconic");
+  });
+
+  it("masks the word in an example that uses it", () => {
+    const q = buildQuestion(target, distractors, "fill-in")!;
+    expect(q.prompt).toBe("His _____ answer ended the debate.");
+    expect(q.choices[q.answerIndex]).toBe("laconic");
+  });
+
+  it("returns null for fill-in when no example uses the word", () => {
+    expect(buildQuestion(makeWord(1, "laconic", ["Nothing here."]), distractors, "fill-in")).toBeNull();
+  });
+
+  it("ignores the target and duplicate distractors", () => {
+    const dupes = [target, distractors[0], { ...distractors[0], id: 9 }, distractors[1]];
+    expect(buildQuestion(target, dupes, "reverse")).toBeNull();
+  });
+
+  it("places the answer according to the shuffle", () => {
+    const positions = new Set(
+      [0, 0.3, 0.6, 0.99].map((r) => buildQuestion(target, distractors, "reverse", () => r)!.answerIndex)
+    );
+    expect(positions.size).toBeGreaterThan(1);
+  });
+});
+
+describe("availableKinds", () => {
+  it("omits fill-in when the examples never use the word", () => {
+    expect(availableKinds(target)).toEqual(["definition", "reverse", "fill-in"]);
+    expect(availableKinds(makeWord(1, "laconic"))).toEqual(["definition", "reverse"]);
+  });
+});
+
+describe("generateQuestion", () => {
+  it("fetches distractors for the target's part of speech", async () => {
+    const select = jest.fn().mockResolvedValue({ data: distractors, error: null });
+    (supabase.rpc as jest.Mock).mockReturnValue({ select });
+
+    const q = await generateQuestion(target, "definition");
+    expect(supabase.rpc).toHaveBeenCalledWith("get_distractors", { target_id: 1, pos: "adjective", n: 5 });
+    expect(q?.choices).toHaveLength(4);
+  });
+});
+
+describe("recordAnswer", () => {
+  it("counts answered and correct questions", () => {
+    const q = buildQuestion(target, distractors, "reverse")!;
+    let score = { answered: 0, correct: 0 };
+    score = recordAnswer(score, q, q.answerIndex);
+    score = recordAnswer(score, q, (q.answerIndex + 1) % 4);
+    expect(score).toEqual({ answered: 2, correct: 1 });
+  });
+});
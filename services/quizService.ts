@@ -0,0 +1,103 @@
+import { supabase } from "./supabase";
+import { findWordForms, maskWordForms } from "./wordForms";
+import { WORD_COLUMNS, type Word } from "./wordService";
+
+// definition: word → pick its definition
+// reverse:    definition → pick the word
+// fill-in:    example sentence with the word masked → pick the word
+export type QuestionKind = "definition" | "reverse" | "fill-in";
+
+export interface QuizQuestion {
+  kind: QuestionKind;
+  wordId: number;
+  prompt: string;
+  choices: string[];
+  answerIndex: number;
+}
+
+export interface QuizScore {
+  answered: number;
+  correct: number;
+}
+
+export const QUESTION_KINDS: QuestionKind[] = ["definition", "reverse", "fill-in"];
+const DISTRACTOR_COUNT = 3;
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Builds a question from `target` and already-fetched distractors. Returns
+// null when the question can't be asked, e.g. a fill-in for a word whose
+// examples never use it, or too few distinct distractors.
+export function buildQuestion(
+  target: Word,
+  distractors: Word[],
+  kind: QuestionKind,
+  random: () => number = Math.random
+): QuizQuestion | null {
+  const field = kind === "definition" ? "definition" : "word";
+  const answer = target[field];
+
+  const wrong: string[] = [];
+  for (const d of distractors) {
+    const choice = d[field];
+    if (d.id !== target.id && choice !== answer && !wrong.includes(choice)) wrong.push(choice);
+  }
+  if (wrong.length < DISTRACTOR_COUNT) return null;
+
+  let prompt: string;
+  if (kind === "definition") {
+    prompt = target.word;
+  } else if (kind === "reverse") {
+    prompt = target.definition;
+  } else {
+    const example = target.examples.find((e) => findWordForms(e, target.word).length > 0);
+    if (!example) return null;
+    prompt = maskWordForms(example, target.word);
+  }
+
+  const choices = shuffle([answer, ...wrong.slice(0, DISTRACTOR_COUNT)], random);
+  return { kind, wordId: target.id, prompt, choices, answerIndex: choices.indexOf(answer) };
+}
+
+// Other words with the same part of speech, padded with any part of speech
+// if there aren't enough. Fetches a couple extra in case of duplicates.
+export async function fetchDistractors(target: Word): Promise<Word[]> {
+  const { data, error } = await supabase
+    .rpc("get_distractors", {
+      target_id: target.id,
+      pos: target.part_of_speech,
+      n: DISTRACTOR_COUNT + 2,
+    })
+    .select(WORD_COLUMNS);
+  if (error) throw error;
+  return data as Word[];
+}
+
+// Fill-in is only offered when one of the examples actually uses the word.
+export function availableKinds(target: Word): QuestionKind[] {
+  return QUESTION_KINDS.filter(
+    (kind) => kind !== "fill-in" || target.examples.some((e) => findWordForms(e, target.word).length > 0)
+  );
+}
+
+export async function generateQuestion(
+  target: Word,
+  kind: QuestionKind,
+  random: () => number = Math.random
+): Promise<QuizQuestion | null> {
+  return buildQuestion(target, await fetchDistractors(target), kind, random);
+}
+
+export function recordAnswer(score: QuizScore, question: QuizQuestion, choiceIndex: number): QuizScore {
+  return {
+    answered: score.answered + 1,
+    correct: score.correct + (choiceIndex === question.answerIndex ? 1 : 0),
+  };
+}
@@ -0,0 +1,97 @@
+import { createCard, getDueCards, isDue, previewInterval, scheduleReview, type ReviewCard } from "./reviewScheduler";
+
+const NOW = new Date("2026-03-15T09:00:00Z");
+const DAY_MS = 86_400_000;
+
+function daysUntilDue(card: ReviewCard, from: Date): number {
+  return (new Date(card.due).getTime() - from.getTime()) / DAY_MS;
+}
+
+describe("createCard", () => {
+  it("becomes due one day after the word was viewed", () => {
+    const card = createCard(42, NOW);
+    expect(card).toMatchObject({ wordId: 42, ease: 2.5, repetitions: 0, lapses: 0 });
+    expect(isDue(card, NOW)).toBe(false);
+    expect(isDue(card, new Date(NOW.getTime() + DAY_MS))).toBe(true);
+  });
+});
+
+describe("scheduleReview", () => {
+  it("follows the SM-2 1 → 6 → interval × ease progression on Good", () => {
+    let card = createCard(1, NOW);
+    card = scheduleReview(card, "good", NOW);
+    expect(card.intervalDays).toBe(1);
+    card = scheduleReview(card, "good", NOW);
+    expect(card.intervalDays).toBe(6);
+    card = scheduleReview(card, "good", NOW);
+    expect(card.intervalDays).toBe(15); // 6 × 2.5
+    expect(card.repetitions).toBe(3);
+    expect(daysUntilDue(card, NOW)).toBe(15);
+  });
+
+  it("keeps ease unchanged on Good and raises it on Easy", () => {
+    const card = createCard(1, NOW);
+    expect(scheduleReview(card, "good", NOW).ease).toBe(2.5);
+    expect(scheduleReview(card, "easy", NOW).ease).toBe(2.6);
+    expect(scheduleReview(card, "hard", NOW).ease).toBe(2.36);
+  });
+
+  it("gives longer intervals for Easy and shorter for Hard", () => {
+    let card = createCard(1, NOW);
+    card = scheduleReview(card, "good", NOW);
+    card = scheduleReview(card, "good", NOW);
+
+    const hard = scheduleReview(card, "hard", NOW).intervalDays;
+    const good = scheduleReview(card, "good", NOW).intervalDays;
+    const easy = scheduleReview(card, "easy", NOW).intervalDays;
+    expect(hard).toBeLessThan(good);
+    expect(good).toBeLessThan(easy);
+  });
+
+  it("always moves a Hard card forward by at least a day", () => {
+    const card: ReviewCard = { ...createCard(1, NOW), repetitions: 4, intervalDays: 2, ease: 1.3 };
+    expect(scheduleReview(card, "hard", NOW).intervalDays).toBe(3);
+  });
+
+  it("resets repetitions and brings the card back in ten minutes on Again", () => {
+    let card = createCard(1, NOW);
+    card = scheduleReview(card, "good", NOW);
+    card = scheduleReview(card, "good", NOW);
+    card = scheduleReview(card, "again", NOW);
+
+    expect(card).toMatchObject({ repetitions: 0, intervalDays: 0, lapses: 1, ease: 1.7 });
+    expect(new Date(card.due).getTime() - NOW.getTime()).toBe(10 * 60_000);
+    expect(card.lastReviewed).toBe(NOW.toISOString());
+  });
+
+  it("never lets ease drop below 1.3", () => {
+    let card = createCard(1, NOW);
+    for (let i = 0; i < 10; i++) card = scheduleReview(card, "again", NOW);
+    expect(card.ease).toBe(1.3);
+  });
+
+  it("does not mutate the input card", () => {
+    const card = createCard(1, NOW);
+    const copy = { ...card };
+    scheduleReview(card, "easy", NOW);
+    expect(card).toEqual(copy);
+  });
+});
+
+describe("getDueCards", () => {
+  it("returns only due cards, most overdue first", () => {
+    const later = { ...createCard(1, NOW), due: "2026-03-14T00:00:00.000Z" };
+    const earlier = { ...createCard(2, NOW), due: "2026-03-10T00:00:00.000Z" };
+    const future = { ...createCard(3, NOW), due: "2026-03-20T00:00:00.000Z" };
+    expect(getDueCards([later, future, earlier], NOW).map((c) => c.wordId)).toEqual([2, 1]);
+  });
+});
+
+describe("previewInterval", () => {
+  it("formats minutes, days and months", () => {
+    const card: ReviewCard = { ...createCard(1, NOW), repetitions: 2, intervalDays: 20 };
+    expect(previewInterval(card, "again", NOW)).toBe("10m");
+    expect(previewInterval(createCard(1, NOW), "good", NOW)).toBe("1d");
+    expect(previewInterval(card, "good", NOW)).toBe("2mo");
+  });
+});
@@ -0,0 +1,107 @@
+// SM-2 spaced-repetition scheduling, with Anki-style Again/Hard/Good/Easy
+// grades mapped onto SM-2 quality scores. Pure: callers pass `now` and
+// persist the returned cards themselves.
+
+export type Grade = "again" | "hard" | "good" | "easy";
+
+export interface ReviewCard {
+  wordId: number;
+  ease: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  due: string; // ISO timestamp
+  lastReviewed: string | null;
+}
+
+export const GRADES: Grade[] = ["again", "hard", "good", "easy"];
+
+const DAY_MS = 86_400_000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// A failed card comes back later in the same session.
+const RELEARN_DELAY_MS = 10 * 60_000;
+const HARD_MULTIPLIER = 1.2;
+const EASY_BONUS = 1.3;
+
+const QUALITY: Record<Grade, number> = {
+  again: 0,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+// A word becomes reviewable the day after it was first seen.
+export function createCard(wordId: number, now: Date = new Date()): ReviewCard {
+  return {
+    wordId,
+    ease: INITIAL_EASE,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+    due: new Date(now.getTime() + DAY_MS).toISOString(),
+    lastReviewed: null,
+  };
+}
+
+function nextEase(ease: number, quality: number): number {
+  const adjusted = ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  return Math.max(MIN_EASE, Math.round(adjusted * 100) / 100);
+}
+
+function nextInterval(card: ReviewCard, grade: Grade, ease: number): number {
+  const repetitions = card.repetitions + 1;
+  if (repetitions === 1) return grade === "easy" ? 4 : 1;
+  if (repetitions === 2) {
+    if (grade === "hard") return 3;
+    return grade === "easy" ? 8 : 6;
+  }
+  if (grade === "hard") return Math.max(card.intervalDays + 1, Math.round(card.intervalDays * HARD_MULTIPLIER));
+  const interval = Math.round(card.intervalDays * ease);
+  return grade === "easy" ? Math.round(interval * EASY_BONUS) : interval;
+}
+
+export function scheduleReview(card: ReviewCard, grade: Grade, now: Date = new Date()): ReviewCard {
+  const ease = nextEase(card.ease, QUALITY[grade]);
+
+  if (grade === "again") {
+    return {
+      ...card,
+      ease,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: card.lapses + 1,
+      due: new Date(now.getTime() + RELEARN_DELAY_MS).toISOString(),
+      lastReviewed: now.toISOString(),
+    };
+  }
+
+  const intervalDays = nextInterval(card, grade, ease);
+  return {
+    ...card,
+    ease,
+    intervalDays,
+    repetitions: card.repetitions + 1,
+    due: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    lastReviewed: now.toISOString(),
+  };
+}
+
+export function isDue(card: ReviewCard, now: Date = new Date()): boolean {
+  return new Date(card.due).getTime() <= now.getTime();
+}
+
+// Most overdue first.
+export function getDueCards(cards: ReviewCard[], now: Date = new Date()): ReviewCard[] {
+  return cards.filter((card) => isDue(card, now)).sort((a, b) => a.due.localeCompare(b.due));
+}
+
+// Short label for the interval a grade would give, e.g. "10m", "6d", "3mo".
+export function previewInterval(card: ReviewCard, grade: Grade, now: Date = new Date()): string {
+  const ms = new Date(scheduleReview(card, grade, now).due).getTime() - now.getTime();
+  if (ms < DAY_MS) return `${Math.round(ms / 60_000)}m`;
+  const days = Math.round(ms / DAY_MS);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${Math.round((days / 365) * 10) / 10}y`;
+}
@@ -0,0 +1,41 @@
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { getTrackedWords, gradeReview, recordWordViewed } from "./reviewStore";
+import type { Word } from "./wordService";
+
+function makeWord(id: number, word: string): Word {
+  return { id, word, part_of_speech: "noun", definition: `Meaning of ${word}.`, phonetic: "WURD", examples: [], origin: "" };
+}
+
+const NOW = new Date("2026-03-15T12:00:00Z");
+
+beforeEach(() => AsyncStorage.clear());
+
+describe("review store", () => {
+  it("keeps every view recorded at once", async () => {
+    await Promise.all([recordWordViewed(makeWord(1, "torpor"), NOW), recordWordViewed(makeWord(2, "laconic"), NOW)]);
+    expect((await getTrackedWords()).map((word) => word.id).sort()).toEqual([1, 2]);
+  });
+
+  it("keeps a grade made while a view is being recorded", async () => {
+    await recordWordViewed(makeWord(1, "torpor"), NOW);
+    const [, card] = await Promise.all([
+      recordWordViewed(makeWord(1, "torpor"), NOW),
+      gradeReview(1, "easy", NOW),
+      recordWordViewed(makeWord(2, "laconic"), NOW),
+    ]);
+
+    const stored = JSON.parse((await AsyncStorage.getItem("@vocabudaily/reviews"))!);
+    expect(stored[1].card).toEqual(card);
+    expect(Object.keys(stored).sort()).toEqual(["1", "2"]);
+  });
+
+  it("rejects a grade for an untracked word without blocking later writes", async () => {
+    await expect(gradeReview(9, "good", NOW)).rejects.toThrow("No review card for word 9.");
+    await recordWordViewed(makeWord(1, "torpor"), NOW);
+    expect(await getTrackedWords()).toHaveLength(1);
+  });
+});
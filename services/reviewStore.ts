@@ -0,0 +1,79 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { createCard, getDueCards, scheduleReview, type Grade, type ReviewCard } from "./reviewScheduler";
+import type { Word } from "./wordService";
+
+const REVIEWS_KEY = "@vocabudaily/reviews";
+
+export interface ReviewItem {
+  card: ReviewCard;
+  // Snapshot of the word so reviews work offline.
+  word: Word;
+}
+
+// Keyed by words.id
+type ReviewState = Record<number, ReviewItem>;
+
+// Read-modify-writes run one at a time, so two screens recording a view at
+// once, or a grade landing in between, can't overwrite each other.
+let writes: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const result = writes.then(task);
+  writes = result.catch(() => {});
+  return result;
+}
+
+async function readState(): Promise<ReviewState> {
+  const raw = await AsyncStorage.getItem(REVIEWS_KEY);
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
+
+async function writeState(state: ReviewState): Promise<void> {
+  await AsyncStorage.setItem(REVIEWS_KEY, JSON.stringify(state));
+}
+
+// Starts tracking a word the first time it is viewed; later views only
+// refresh the snapshot and leave the schedule alone.
+export function recordWordViewed(word: Word, now: Date = new Date()): Promise<void> {
+  return serialized(async () => {
+    const state = await readState();
+    const existing = state[word.id];
+    state[word.id] = { card: existing?.card ?? createCard(word.id, now), word };
+    await writeState(state);
+  });
+}
+
+export async function getDueReviews(now: Date = new Date()): Promise<ReviewItem[]> {
+  const state = await readState();
+  return getDueCards(Object.values(state).map((item) => item.card), now).map(
+    (card) => state[card.wordId]
+  );
+}
+
+// Earliest upcoming due date, or null if nothing is tracked.
+export async function getNextReviewDate(): Promise<Date | null> {
+  const dues = Object.values(await readState()).map((item) => item.card.due);
+  if (dues.length === 0) return null;
+  return new Date(dues.sort()[0]);
+}
+
+export function gradeReview(wordId: number, grade: Grade, now: Date = new Date()): Promise<ReviewCard> {
+  return serialized(async () => {
+    const state = await readState();
+    const item = state[wordId];
+    if (!item) throw new Error(`No review card for word ${wordId}.`);
+    const card = scheduleReview(item.card, grade, now);
+    state[wordId] = { ...item, card };
+    await writeState(state);
+    return card;
+  });
+}
+
+export async function getTrackedWords(): Promise<Word[]> {
+  return Object.values(await readState()).map((item) => item.word);
+}
@@ -0,0 +1,166 @@
+import { addDays, daysBetween, toDayKey } from "./dates";
+import { computeStreaks, groupActivityDays, type ActivityEvent } from "./streaks";
+
+const NY = "America/New_York";
+
+function opened(at: string, timeZone = NY): ActivityEvent {
+  return { at, timeZone, kind: "open" };
+}
+
+// One open per day at 9 AM New York time, EDT or EST as appropriate.
+function dailyOpens(from: string, count: number): ActivityEvent[] {
+  const events: ActivityEvent[] = [];
+  for (let i = 0; i < count; i++) {
+    const key = addDays(from, i);
+    const offset = key >= "2026-03-08" && key < "2026-11-01" ? "-04:00" : "-05:00";
+    events.push(opened(`${key}T09:00:00${offset}`));
+  }
+  return events;
+}
+
+describe("day keys", () => {
+  it("uses the calendar date in the given zone", () => {
+    const date = new Date("2026-03-15T03:30:00Z");
+    expect(toDayKey(date, "UTC")).toBe("2026-03-15");
+    expect(toDayKey(date, NY)).toBe("2026-03-14");
+    expect(toDayKey(date, "Asia/Tokyo")).toBe("2026-03-15");
+  });
+
+  it("counts whole days across DST changes", () => {
+    expect(daysBetween("2026-03-07", "2026-03-09")).toBe(2);
+    expect(addDays("2026-10-31", 2)).toBe("2026-11-02");
+  });
+});
+
+describe("groupActivityDays", () => {
+  it("merges events that fall on the same local day", () => {
+    const days = groupActivityDays([
+      opened("2026-03-15T08:00:00-04:00"),
+      { at: "2026-03-15T22:00:00-04:00", timeZone: NY, kind: "learn" },
+    ]);
+    expect(days).toHaveLength(1);
+    expect(days[0]).toMatchObject({ key: "2026-03-15", kinds: ["open", "learn"] });
+  });
+
+  it("puts a late-night event on the local day, not the UTC day", () => {
+    const [day] = groupActivityDays([opened("2026-03-16T03:30:00Z")]);
+    expect(day.key).toBe("2026-03-15");
+  });
+});
+
+describe("computeStreaks", () => {
+  it("returns zeros with no history", () => {
+    expect(computeStreaks([], new Date(), NY)).toEqual({ current: 0, longest: 0, frozenDays: [] });
+  });
+
+  it("counts consecutive days up to today", () => {
+    const events = dailyOpens("2026-03-10", 5);
+    expect(computeStreaks(events, new Date("2026-03-14T20:00:00-04:00"), NY)).toMatchObject({
+      current: 5,
+      longest: 5,
+    });
+  });
+
+  it("keeps the streak alive until today is over", () => {
+    const events = dailyOpens("2026-03-10", 5);
+    expect(computeStreaks(events, new Date("2026-03-15T23:00:00-04:00"), NY).current).toBe(5);
+    expect(computeStreaks(events, new Date("2026-03-16T00:30:00-04:00"), NY).current).toBe(0);
+  });
+
+  it("is not broken by the spring-forward DST transition", () => {
+    const events = dailyOpens("2026-03-05", 7); // crosses 2026-03-08
+    expect(computeStreaks(events, new Date("2026-03-11T12:00:00-04:00"), NY).current).toBe(7);
+  });
+
+  it("is not broken by the fall-back DST transition", () => {
+    const events = dailyOpens("2026-10-29", 6); // crosses 2026-11-01
+    expect(computeStreaks(events, new Date("2026-11-03T12:00:00-05:00"), NY).current).toBe(6);
+  });
+
+  it("handles activity just after midnight on the short DST day", () => {
+    const events = [
+      opened("2026-03-07T23:30:00-05:00"),
+      opened("2026-03-08T00:15:00-05:00"),
+      opened("2026-03-09T00:15:00-04:00"),
+    ];
+    expect(computeStreaks(events, new Date("2026-03-09T12:00:00-04:00"), NY).current).toBe(3);
+  });
+
+  it("tracks the longest streak separately from the current one", () => {
+    const events = [...dailyOpens("2026-02-01", 10), ...dailyOpens("2026-03-01", 3)];
+    expect(computeStreaks(events, new Date("2026-03-03T12:00:00-05:00"), NY)).toMatchObject({
+      current: 3,
+      longest: 10,
+    });
+  });
+
+  it("breaks on a missed day without a freeze", () => {
+    const events = [...dailyOpens("2026-03-01", 3), ...dailyOpens("2026-03-05", 2)];
+    expect(computeStreaks(events, new Date("2026-03-06T12:00:00-05:00"), NY).current).toBe(2);
+  });
+
+  it("bridges a single missed day with a freeze", () => {
+    const events = [...dailyOpens("2026-03-01", 3), ...dailyOpens("2026-03-05", 2)];
+    expect(computeStreaks(events, new Date("2026-03-06T12:00:00-05:00"), NY, { freeze: true })).toEqual({
+      current: 5,
+      longest: 5,
+      frozenDays: ["2026-03-04"],
+    });
+  });
+
+  it("allows only one freeze per week", () => {
+    const events = [
+      ...dailyOpens("2026-03-01", 2),
+      ...dailyOpens("2026-03-04", 2), // 03-03 frozen
+      ...dailyOpens("2026-03-07", 2), // 03-06 missed again within the cooldown
+    ];
+    const streaks = computeStreaks(events, new Date("2026-03-08T12:00:00-05:00"), NY, { freeze: true });
+    expect(streaks).toMatchObject({ current: 2, longest: 4, frozenDays: ["2026-03-03"] });
+  });
+
+  it("does not bridge two missed days even with a freeze", () => {
+    const events = [...dailyOpens("2026-03-01", 3), ...dailyOpens("2026-03-06", 1)];
+    expect(computeStreaks(events, new Date("2026-03-06T12:00:00-05:00"), NY, { freeze: true }).current).toBe(1);
+  });
+
+  it("keeps the current streak alive if yesterday can be frozen", () => {
+    const events = dailyOpens("2026-03-01", 3);
+    const now = new Date("2026-03-05T08:00:00-05:00");
+    expect(computeStreaks(events, now, NY).current).toBe(0);
+    expect(computeStreaks(events, now, NY, { freeze: true })).toMatchObject({
+      current: 3,
+      frozenDays: ["2026-03-04"],
+    });
+  });
+
+  it("survives flying east across the date line", () => {
+    // Opened in Los Angeles on the evening of the 15th, landed in Tokyo on the 17th.
+    const events = [
+      opened("2026-03-14T19:00:00-07:00", "America/Los_Angeles"),
+      opened("2026-03-15T19:00:00-07:00", "America/Los_Angeles"),
+      opened("2026-03-17T08:00:00+09:00", "Asia/Tokyo"),
+    ];
+    expect(computeStreaks(events, new Date("2026-03-17T12:00:00+09:00"), "Asia/Tokyo").current).toBe(3);
+  });
+
+  it("counts the repeated calendar day once when flying west", () => {
+    const events = [
+      opened("2026-03-15T09:00:00+09:00", "Asia/Tokyo"),
+      opened("2026-03-15T20:00:00-07:00", "America/Los_Angeles"),
+      opened("2026-03-16T09:00:00-07:00", "America/Los_Angeles"),
+    ];
+    expect(computeStreaks(events, new Date("2026-03-16T12:00:00-07:00"), "America/Los_Angeles").current).toBe(2);
+  });
+
+  it("keeps the streak alive right after landing in a zone ahead", () => {
+    const events = [opened("2026-03-15T23:00:00-07:00", "America/Los_Angeles")];
+    const landed = new Date("2026-03-17T05:00:00+09:00"); // 13 hours later
+    expect(toDayKey(landed, "Asia/Tokyo")).toBe("2026-03-17");
+    expect(computeStreaks(events, landed, "Asia/Tokyo").current).toBe(1);
+  });
+
+  it("does not treat a real missed day as a time-zone jump", () => {
+    const events = [opened("2026-03-01T23:59:00-05:00"), opened("2026-03-03T00:01:00-05:00")];
+    expect(computeStreaks(events, new Date("2026-03-03T12:00:00-05:00"), NY).current).toBe(1);
+  });
+});
@@ -0,0 +1,115 @@
+import { addDays, daysBetween, toDayKey } from "./dates";
+
+// "open": the app was opened that day. "learn": the user reviewed or quizzed.
+export type ActivityKind = "open" | "learn";
+
+export interface ActivityEvent {
+  at: string; // ISO timestamp
+  // Zone the device was in at the time, so each event lands on the calendar
+  // day the user actually lived it, even after they travel.
+  timeZone: string;
+  kind: ActivityKind;
+}
+
+export interface ActivityDay {
+  key: string;
+  kinds: ActivityKind[];
+  first: number; // epoch ms
+  last: number;
+  timeZones: string[];
+}
+
+export interface StreakOptions {
+  // Forgive a single missed day, at most once per FREEZE_COOLDOWN_DAYS.
+  freeze?: boolean;
+}
+
+export interface Streaks {
+  current: number;
+  longest: number;
+  // Missed days bridged by a freeze, oldest first.
+  frozenDays: string[];
+}
+
+export const FREEZE_COOLDOWN_DAYS = 7;
+// Two activity days on either side of a time-zone change count as
+// consecutive if they are at most this far apart in real time, even when the
+// calendar skipped a date (e.g. flying west-to-east over the date line).
+const TIME_ZONE_JUMP_MS = 48 * 3_600_000;
+
+export function groupActivityDays(events: ActivityEvent[]): ActivityDay[] {
+  const days = new Map<string, ActivityDay>();
+  for (const event of events) {
+    const at = new Date(event.at).getTime();
+    const key = toDayKey(new Date(at), event.timeZone);
+    const day = days.get(key) ?? { key, kinds: [], first: at, last: at, timeZones: [] };
+    if (!day.kinds.includes(event.kind)) day.kinds.push(event.kind);
+    if (!day.timeZones.includes(event.timeZone)) day.timeZones.push(event.timeZone);
+    day.first = Math.min(day.first, at);
+    day.last = Math.max(day.last, at);
+    days.set(key, day);
+  }
+  return [...days.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+function crossedTimeZones(prev: ActivityDay, next: ActivityDay): boolean {
+  return (
+    prev.timeZones.some((tz) => !next.timeZones.includes(tz)) &&
+    next.first - prev.last <= TIME_ZONE_JUMP_MS
+  );
+}
+
+export function computeStreaks(
+  events: ActivityEvent[],
+  now: Date,
+  timeZone: string,
+  options: StreakOptions = {}
+): Streaks {
+  const days = groupActivityDays(events);
+  const today = toDayKey(now, timeZone);
+  const frozenDays: string[] = [];
+  let longest = 0;
+  let run = 0;
+  let lastFreeze: string | null = null;
+
+  const canFreeze = (missed: string) =>
+    options.freeze === true &&
+    (lastFreeze === null || daysBetween(lastFreeze, missed) > FREEZE_COOLDOWN_DAYS);
+
+  for (let i = 0; i < days.length; i++) {
+    const day = days[i];
+    const prev = days[i - 1];
+    if (!prev) {
+      run = 1;
+    } else {
+      const gap = daysBetween(prev.key, day.key);
+      if (gap === 1 || crossedTimeZones(prev, day)) {
+        run += 1;
+      } else if (gap === 2 && canFreeze(addDays(prev.key, 1))) {
+        lastFreeze = addDays(prev.key, 1);
+        frozenDays.push(lastFreeze);
+        run += 1;
+      } else {
+        run = 1;
+      }
+    }
+    longest = Math.max(longest, run);
+  }
+
+  // Today isn't over, so a streak that reached yesterday is still alive.
+  const last = days[days.length - 1];
+  let current = 0;
+  if (last) {
+    const sinceLast = daysBetween(last.key, today);
+    const jumped =
+      !last.timeZones.includes(timeZone) && now.getTime() - last.last <= TIME_ZONE_JUMP_MS;
+    if (sinceLast <= 1 || (sinceLast === 2 && jumped)) {
+      current = run;
+    } else if (sinceLast === 2 && canFreeze(addDays(last.key, 1))) {
+      frozenDays.push(addDays(last.key, 1));
+      current = run;
+    }
+  }
+
+  return { current, longest, frozenDays };
+}
@@ -1,7 +1,17 @@
 import { createClient } from "@supabase/supabase-js";
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import Constants from "expo-constants";
 
 const SUPABASE_URL = Constants.expoConfig.extra.SUPABASE_URL;
 const SUPABASE_ANON_KEY = Constants.expoConfig.extra.SUPABASE_ANON_KEY;
 
-export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+  auth: {
+    storage: AsyncStorage,
+    autoRefreshToken: true,
+    persistSession: true,
+    // Email links come back through the vocabudaily:// scheme, not a browser URL.
+    detectSessionInUrl: false,
+    flowType: "pkce",
+  },
+});
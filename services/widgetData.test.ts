@@ -0,0 +1,108 @@
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("./supabase", () => ({ supabase: {} }));
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { WordCache } from "./wordCache";
+import { getDailyWordId, type Word } from "./wordService";
+import { buildWidgetPayload, updateWidgetData, WIDGET_DATA_VERSION } from "./widgetData";
+
+const TODAY = new Date("2026-03-15T12:00:00Z");
+const DAY = 86_400_000;
+
+function makeWord(id: number): Word {
+  return {
+    id,
+    word: `word${id}`,
+    part_of_speech: "noun",
+    definition: `Definition of word ${id}.`,
+    phonetic: "WURD",
+    examples: [],
+    origin: "",
+  };
+}
+
+function cacheFor(dates: Date[]): WordCache {
+  const cache: WordCache = {};
+  for (const date of dates) {
+    const id = getDailyWordId(date);
+    cache[id] = { word: makeWord(id), updatedAt: "2026-01-01T00:00:00Z" };
+  }
+  return cache;
+}
+
+describe("buildWidgetPayload", () => {
+  it("has an entry for today and each cached upcoming day", () => {
+    const dates = [0, 1, 2].map((offset) => new Date(TODAY.getTime() + offset * DAY));
+    const payload = buildWidgetPayload(cacheFor(dates), TODAY, 2);
+
+    expect(payload.version).toBe(WIDGET_DATA_VERSION);
+    expect(payload.updatedAt).toBe("2026-03-15T12:00:00.000Z");
+    expect(payload.entries).toEqual([
+      {
+        date: "2026-03-15",
+        word: `word${getDailyWordId(dates[0])}`,
+        phonetic: "WURD",
+        partOfSpeech: "noun",
+        definition: `Definition of word ${getDailyWordId(dates[0])}.`,
+      },
+      expect.objectContaining({ date: "2026-03-16", word: `word${getDailyWordId(dates[1])}` }),
+      expect.objectContaining({ date: "2026-03-17", word: `word${getDailyWordId(dates[2])}` }),
+    ]);
+  });
+
+  it("skips days missing from the cache", () => {
+    const payload = buildWidgetPayload(cacheFor([new Date(TODAY.getTime() + 2 * DAY)]), TODAY, 2);
+    expect(payload.entries.map((entry) => entry.date)).toEqual(["2026-03-17"]);
+  });
+
+  it("uses the current word for today when the cache lacks it", () => {
+    const current = makeWord(getDailyWordId(TODAY));
+    const payload = buildWidgetPayload({}, TODAY, 2, current);
+    expect(payload.entries).toEqual([expect.objectContaining({ date: "2026-03-15", word: current.word })]);
+  });
+
+  it("ignores a current word that isn't today's", () => {
+    const payload = buildWidgetPayload({}, TODAY, 2, makeWord(getDailyWordId(TODAY) + 5));
+    expect(payload.entries).toEqual([]);
+  });
+
+  it("shows a day's scheduled override instead of its rotation word", () => {
+    const cache: WordCache = { 42: { word: makeWord(42), updatedAt: "2026-01-01T00:00:00Z" } };
+    const schedule = { track: "all" as const, days: { "2026-03-16": 42 } };
+    const payload = buildWidgetPayload(cache, TODAY, 2, undefined, schedule);
+    expect(payload.entries).toEqual([expect.objectContaining({ date: "2026-03-16", word: "word42" })]);
+  });
+
+  it("writes an empty phonetic rather than null", () => {
+    const id = getDailyWordId(TODAY);
+    const cache: WordCache = {
+      [id]: { word: { ...makeWord(id), phonetic: null as unknown as string }, updatedAt: "" },
+    };
+    expect(buildWidgetPayload(cache, TODAY, 0).entries[0].phonetic).toBe("");
+  });
+});
+
+describe("updateWidgetData", () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it("writes the payload built from the word cache as JSON", async () => {
+    const id = getDailyWordId(TODAY);
+    await AsyncStorage.setItem(
+      "@vocabudaily/wordCache",
+      JSON.stringify({ [id]: { word: makeWord(id), updatedAt: "2026-01-01T00:00:00Z" } })
+    );
+    const storage = { setData: jest.fn() };
+
+    await updateWidgetData(undefined, TODAY, storage);
+
+    expect(storage.setData).toHaveBeenCalledTimes(1);
+    const written = JSON.parse(storage.setData.mock.calls[0][0]);
+    expect(written.entries).toEqual([expect.objectContaining({ date: "2026-03-15", word: `word${id}` })]);
+  });
+
+  it("does nothing without a native widget store", async () => {
+    await expect(updateWidgetData(makeWord(1), TODAY, null)).resolves.toBeUndefined();
+  });
+});
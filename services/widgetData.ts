@@ -0,0 +1,80 @@
+import { requireOptionalNativeModule } from "expo";
+import {
+  PREFETCH_DAYS,
+  readWordCache,
+  readWordSchedule,
+  scheduledWordId,
+  type WordCache,
+  type WordSchedule,
+} from "./wordCache";
+import { addDays } from "./dates";
+import { getWordDay, type Word } from "./wordService";
+
+// Bump when the shape changes; the widget ignores payloads it doesn't know.
+export const WIDGET_DATA_VERSION = 1;
+
+export interface WidgetEntry {
+  date: string; // "YYYY-MM-DD" word day; the widget shows the entry for its local date
+  word: string;
+  phonetic: string;
+  partOfSpeech: string;
+  definition: string;
+}
+
+export interface WidgetPayload {
+  version: number;
+  updatedAt: string;
+  entries: WidgetEntry[];
+}
+
+// Where the payload ends up. On Android this is the WidgetStorage module in
+// modules/widget-storage, which writes SharedPreferences and redraws the widget.
+export interface WidgetStorage {
+  setData(json: string): void;
+}
+
+function toEntry(day: string, word: Word): WidgetEntry {
+  return {
+    date: day,
+    word: word.word,
+    phonetic: word.phonetic ?? "",
+    partOfSpeech: word.part_of_speech,
+    definition: word.definition,
+  };
+}
+
+// One entry per day from `from` through `days` days ahead, using whatever the
+// word cache holds, so the widget can roll over at midnight with the app
+// closed. `current` covers today's word even if it never reached the cache;
+// `schedule` puts each day's override in place of its rotation word.
+export function buildWidgetPayload(
+  cache: WordCache,
+  from: Date,
+  days: number = PREFETCH_DAYS,
+  current?: Word,
+  schedule: WordSchedule | null = null
+): WidgetPayload {
+  const today = getWordDay(from);
+  const entries: WidgetEntry[] = [];
+  for (let offset = 0; offset <= days; offset++) {
+    const day = addDays(today, offset);
+    const id = scheduledWordId(schedule, day);
+    const word = cache[id]?.word ?? (current?.id === id ? current : undefined);
+    if (word) entries.push(toEntry(day, word));
+  }
+  return { version: WIDGET_DATA_VERSION, updatedAt: from.toISOString(), entries };
+}
+
+// Null on iOS, web and Expo Go, where there is no widget to feed.
+const nativeStorage = requireOptionalNativeModule<WidgetStorage>("WidgetStorage");
+
+export async function updateWidgetData(
+  current?: Word,
+  now: Date = new Date(),
+  storage: WidgetStorage | null = nativeStorage
+): Promise<void> {
+  if (!storage) return;
+  const [cache, schedule] = await Promise.all([readWordCache(), readWordSchedule()]);
+  const payload = buildWidgetPayload(cache, now, PREFETCH_DAYS, current, schedule);
+  storage.setData(JSON.stringify(payload));
+}
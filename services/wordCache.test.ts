@@ -0,0 +1,275 @@
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("./supabase", () => ({ supabase: { from: jest.fn(), rpc: jest.fn() } }));
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { addDays } from "./dates";
+import { supabase } from "./supabase";
+import { DEFAULT_ROTATION, wordIdForDay, type RotationEpoch } from "./wordRotation";
+import { getDailyWordId, type WordRow } from "./wordService";
+import {
+  getCachedDailyWord,
+  getDailyWord,
+  getWordForDay,
+  readWordCache,
+  readWordSchedule,
+  refreshWordCache,
+} from "./wordCache";
+
+const TODAY = new Date("2026-03-15T12:00:00Z");
+const TODAY_ID = getDailyWordId(TODAY);
+
+function makeRow(id: number, updated_at = "2026-01-01T00:00:00Z"): WordRow {
+  return {
+    id,
+    word: `word${id}`,
+    part_of_speech: "noun",
+    definition: `Definition of word ${id}.`,
+    phonetic: "WURD",
+    examples: [`An example using word${id}.`],
+    origin: "From a mocked Supabase table.",
+    updated_at,
+  };
+}
+
+// In-memory stand-in for public.words that answers `.select(cols).in("id", ids)`,
+// for public.word_rotation, and for get_word_for_date with word_schedule
+// overrides keyed by day.
+let table: Map<number, WordRow>;
+let epochs: RotationEpoch[];
+let schedule: Map<string, number>;
+let offline: boolean;
+const selects: string[] = [];
+
+function mockWordsTable() {
+  (supabase.from as jest.Mock).mockImplementation((name: string) =>
+    name === "word_rotation"
+      ? {
+          select: () => ({
+            order: async () =>
+              offline ? { data: null, error: new Error("Network request failed") } : { data: epochs, error: null },
+          }),
+        }
+      : {
+          select: (columns: string) => ({
+            in: async (_column: string, ids: number[]) => {
+              selects.push(columns);
+              if (offline) return { data: null, error: new Error("Network request failed") };
+              const rows = ids.filter((id) => table.has(id)).map((id) => table.get(id)!);
+              const data =
+                columns === "id, updated_at"
+                  ? rows.map(({ id, updated_at }) => ({ id, updated_at }))
+                  : rows;
+              return { data, error: null };
+            },
+          }),
+        }
+  );
+  const scheduledId = (day: string) => schedule.get(day) ?? wordIdForDay({ version: 0, epochs }, day);
+  (supabase.rpc as jest.Mock).mockImplementation((fn: string, args: Record<string, string>) => {
+    if (fn === "get_word_ids_for_dates") {
+      if (offline) return Promise.resolve({ data: null, error: new Error("Network request failed") });
+      const data = [];
+      for (let day = args.p_from; day <= args.p_to; day = addDays(day, 1)) {
+        data.push({ day, word_id: scheduledId(day) });
+      }
+      return Promise.resolve({ data, error: null });
+    }
+    return {
+      select: () => ({
+        single: async () => {
+          if (offline) return { data: null, error: new Error("Network request failed") };
+          return { data: table.get(scheduledId(args.p_date)), error: null };
+        },
+      }),
+    };
+  });
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  table = new Map();
+  for (let id = 0; id < 9547; id++) table.set(id, makeRow(id));
+  epochs = DEFAULT_ROTATION.epochs;
+  schedule = new Map();
+  offline = false;
+  selects.length = 0;
+  mockWordsTable();
+});
+
+describe("refreshWordCache", () => {
+  it("prefetches today's word and the next 14 days", async () => {
+    const cache = await refreshWordCache(TODAY);
+    expect(Object.keys(cache)).toHaveLength(15);
+    expect(cache[TODAY_ID].word.word).toBe(`word${TODAY_ID}`);
+    expect(cache[TODAY_ID + 14]).toBeDefined();
+  });
+
+  it("only downloads full rows that are missing or changed", async () => {
+    await refreshWordCache(TODAY);
+    selects.length = 0;
+
+    await refreshWordCache(TODAY);
+    expect(selects).toEqual(["id, updated_at"]);
+  });
+
+  it("replaces rows whose content changed server-side", async () => {
+    await refreshWordCache(TODAY);
+    table.set(TODAY_ID, { ...makeRow(TODAY_ID, "2026-03-15T13:00:00Z"), definition: "Edited." });
+
+    const cache = await refreshWordCache(TODAY);
+    expect(cache[TODAY_ID].word.definition).toBe("Edited.");
+    expect((await readWordCache())[TODAY_ID].updatedAt).toBe("2026-03-15T13:00:00Z");
+  });
+
+  it("prefetches the words scheduled over the rotation's", async () => {
+    schedule.set("2026-03-17", 42);
+    const cache = await refreshWordCache(TODAY);
+    expect(cache[42].word.word).toBe("word42");
+    expect(cache[TODAY_ID + 2]).toBeUndefined();
+    expect((await readWordSchedule())?.days["2026-03-17"]).toBe(42);
+  });
+
+  it("drops entries that fall outside the window", async () => {
+    await refreshWordCache(TODAY);
+    const cache = await refreshWordCache(new Date("2026-03-20T12:00:00Z"));
+    expect(cache[TODAY_ID]).toBeUndefined();
+    expect(Object.keys(cache)).toHaveLength(15);
+  });
+});
+
+describe("getDailyWord", () => {
+  it("asks the server for the day in the given time zone", async () => {
+    // 2026-03-15 12:00 UTC is already March 16th in Kiritimati.
+    schedule.set("2026-03-16", 7);
+    expect((await getDailyWord(TODAY, "Pacific/Kiritimati")).id).toBe(7);
+    expect(supabase.rpc).toHaveBeenCalledWith("get_word_for_date", {
+      p_date: "2026-03-16",
+      p_tz: "Pacific/Kiritimati",
+      p_track: "all",
+    });
+  });
+
+  it("falls back to the cached rotation word offline", async () => {
+    await refreshWordCache(TODAY);
+    offline = true;
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect((await getDailyWord(TODAY)).id).toBe(getDailyWordId(TODAY));
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("falls back to the cached override offline", async () => {
+    schedule.set("2026-03-15", 42);
+    await refreshWordCache(TODAY);
+    offline = true;
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect((await getDailyWord(TODAY)).id).toBe(42);
+    warn.mockRestore();
+  });
+
+  it("throws offline when the rotation word isn't cached", async () => {
+    offline = true;
+    await expect(getDailyWord(TODAY)).rejects.toThrow("Network request failed");
+  });
+});
+
+describe("getWordForDay", () => {
+  it("opens an upcoming day's cached word offline, e.g. from a notification", async () => {
+    schedule.set("2026-03-20", 42);
+    await refreshWordCache(TODAY);
+    offline = true;
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect((await getWordForDay("2026-03-20")).id).toBe(42);
+    expect((await getWordForDay("2026-03-21")).id).toBe(wordIdForDay(DEFAULT_ROTATION, "2026-03-21"));
+    warn.mockRestore();
+  });
+
+  it("throws offline for a day outside the cache", async () => {
+    offline = true;
+    await expect(getWordForDay("2026-01-05")).rejects.toThrow("Network request failed");
+  });
+});
+
+describe("getCachedDailyWord", () => {
+  it("fetches and caches on a cold start", async () => {
+    const word = await getCachedDailyWord(TODAY);
+    expect(word.id).toBe(TODAY_ID);
+    expect((await readWordCache())[TODAY_ID]).toBeDefined();
+  });
+
+  it("serves from the cache while offline", async () => {
+    await refreshWordCache(new Date("2026-03-10T12:00:00Z"));
+    offline = true;
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    const word = await getCachedDailyWord(TODAY);
+    expect(word.word).toBe(`word${TODAY_ID}`);
+
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("throws when offline with nothing cached", async () => {
+    offline = true;
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    await expect(getCachedDailyWord(TODAY)).rejects.toThrow("Network request failed");
+    warn.mockRestore();
+  });
+
+  it("reports a newer version found by the background refresh", async () => {
+    await refreshWordCache(TODAY);
+    table.set(TODAY_ID, { ...makeRow(TODAY_ID, "2026-03-15T13:00:00Z"), definition: "Edited." });
+    const onUpdate = jest.fn();
+
+    const word = await getCachedDailyWord(TODAY, onUpdate);
+    expect(word.definition).toBe(`Definition of word ${TODAY_ID}.`);
+
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(onUpdate).toHaveBeenCalledWith(expect.objectContaining({ definition: "Edited." }));
+  });
+
+  it("returns today's override on a cold start", async () => {
+    schedule.set("2026-03-15", 42);
+    expect((await getCachedDailyWord(TODAY)).id).toBe(42);
+  });
+
+  it("reports an override found by the background refresh", async () => {
+    await refreshWordCache(TODAY);
+    schedule.set("2026-03-15", 42);
+    const onUpdate = jest.fn();
+
+    expect((await getCachedDailyWord(TODAY, onUpdate)).id).toBe(TODAY_ID);
+
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(onUpdate).toHaveBeenCalledWith(expect.objectContaining({ id: 42 }));
+  });
+
+  it("doesn't report anything when the scheduled word is the cached one", async () => {
+    await refreshWordCache(TODAY);
+    const onUpdate = jest.fn();
+
+    await getCachedDailyWord(TODAY, onUpdate);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(onUpdate).not.toHaveBeenCalled();
+  });
+
+  // Keep last in the file: the module keeps the adopted rotation in memory.
+  it("switches to the word a new rotation epoch picks", async () => {
+    await refreshWordCache(TODAY);
+    epochs = [...DEFAULT_ROTATION.epochs, { version: 2, track: "all", starts_on: "2026-03-15", start_index: 9547, word_count: 9600 }];
+    table.set(9547, makeRow(9547));
+    const onUpdate = jest.fn();
+
+    const word = await getCachedDailyWord(TODAY, onUpdate);
+    expect(word.id).toBe(TODAY_ID);
+
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(onUpdate).toHaveBeenCalledWith(expect.objectContaining({ id: 9547 }));
+  });
+});
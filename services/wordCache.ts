@@ -0,0 +1,157 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { addDays, deviceTimeZone } from "./dates";
+import { getTrackWords, loadWordRotation, refreshWordRotation, type WordTrack } from "./wordRotation";
+import {
+  fetchScheduledWord,
+  fetchScheduledWordIds,
+  getWordDay,
+  getWordIdForDay,
+  getWordVersions,
+  getWordsByIds,
+  type Word,
+} from "./wordService";
+
+const CACHE_KEY = "@vocabudaily/wordCache";
+const SCHEDULE_KEY = "@vocabudaily/wordSchedule";
+
+// Matches NOTIFICATION_HORIZON_DAYS in notifications.ts, so every word a
+// scheduled notification points at is already on the device.
+export const PREFETCH_DAYS = 14;
+
+interface CacheEntry {
+  word: Word;
+  updatedAt: string;
+}
+
+// Keyed by words.id
+export type WordCache = Record<number, CacheEntry>;
+
+export async function readWordCache(): Promise<WordCache> {
+  const raw = await AsyncStorage.getItem(CACHE_KEY);
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
+
+// The word id the server scheduled for each cached day, editorial overrides
+// included, on the track they were fetched for.
+export interface WordSchedule {
+  track: WordTrack;
+  days: Record<string, number>;
+}
+
+export async function readWordSchedule(): Promise<WordSchedule | null> {
+  const raw = await AsyncStorage.getItem(SCHEDULE_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+// The word id for `day`: the scheduled one if the schedule covers the day on
+// the current track, otherwise the local rotation's.
+export function scheduledWordId(schedule: WordSchedule | null, day: string): number {
+  const scheduled = schedule?.track === getTrackWords().track ? schedule.days[day] : undefined;
+  return scheduled ?? getWordIdForDay(day);
+}
+
+// Syncs the cache with today's word and the next `days` words, as the server
+// schedules them. Only row versions are fetched up front; full rows are
+// downloaded for ids that are missing or whose updated_at changed
+// server-side. Entries outside the window are dropped. The rotation is
+// refreshed first so the window follows any new rotation epoch.
+export async function refreshWordCache(
+  from: Date = new Date(),
+  days: number = PREFETCH_DAYS
+): Promise<WordCache> {
+  await refreshWordRotation();
+  const today = getWordDay(from);
+  const fetched = await fetchScheduledWordIds(today, addDays(today, days));
+  const schedule: WordSchedule = { track: getTrackWords().track, days: {} };
+  for (let offset = 0; offset <= days; offset++) {
+    const day = addDays(today, offset);
+    schedule.days[day] = fetched[day] ?? getWordIdForDay(day);
+  }
+  const ids = [...new Set(Object.values(schedule.days))];
+  const [cache, versions] = await Promise.all([readWordCache(), getWordVersions(ids)]);
+
+  const next: WordCache = {};
+  const stale: number[] = [];
+  for (const { id, updated_at } of versions) {
+    if (cache[id]?.updatedAt === updated_at) {
+      next[id] = cache[id];
+    } else {
+      stale.push(id);
+    }
+  }
+
+  if (stale.length > 0) {
+    for (const { updated_at, ...word } of await getWordsByIds(stale)) {
+      next[word.id] = { word, updatedAt: updated_at };
+    }
+  }
+
+  await AsyncStorage.multiSet([
+    [CACHE_KEY, JSON.stringify(next)],
+    [SCHEDULE_KEY, JSON.stringify(schedule)],
+  ]);
+  return next;
+}
+
+// The cached word for `day`, if the cache holds the day's scheduled word.
+async function readCachedWord(day: string): Promise<CacheEntry | undefined> {
+  const [cache, schedule] = await Promise.all([readWordCache(), readWordSchedule()]);
+  return cache[scheduledWordId(schedule, day)];
+}
+
+// The word for a word day ("YYYY-MM-DD") as the server schedules it,
+// editorial overrides included. Offline, falls back to the cached word for
+// the day, which covers every day a notification or the widget links to.
+export async function getWordForDay(day: string, timeZone: string = deviceTimeZone()): Promise<Word> {
+  try {
+    const { updated_at, ...word } = await fetchScheduledWord(day, timeZone);
+    return word;
+  } catch (error) {
+    await loadWordRotation();
+    const cached = await readCachedWord(day);
+    if (!cached) throw error;
+    console.warn("Scheduled word unavailable, using the cached word:", error);
+    return cached.word;
+  }
+}
+
+// The word for `date` in `timeZone`; see getWordForDay.
+export function getDailyWord(date: Date = new Date(), timeZone: string = deviceTimeZone()): Promise<Word> {
+  return getWordForDay(getWordDay(date, timeZone), timeZone);
+}
+
+// Cache-first lookup of the word for `date`. A cache hit returns immediately
+// and refreshes in the background; `onUpdate` is called if that refresh finds
+// a different word scheduled (an override or a new rotation epoch) or a newer
+// version of the returned one. A miss refreshes the cache, then asks the
+// server.
+export async function getCachedDailyWord(
+  date: Date = new Date(),
+  onUpdate?: (word: Word) => void
+): Promise<Word> {
+  await loadWordRotation();
+  const cached = await readCachedWord(getWordDay(date));
+
+  if (cached) {
+    refreshWordCache(date)
+      .then(() => fetchScheduledWord(getWordDay(date)))
+      .then(({ updated_at, ...fresh }) => {
+        if (fresh.id !== cached.word.id || updated_at !== cached.updatedAt) onUpdate?.(fresh);
+      })
+      .catch((error) => console.warn("Background word refresh failed:", error));
+    return cached.word;
+  }
+
+  await refreshWordCache(date).catch((error) => console.warn("Word cache refresh failed:", error));
+  return getDailyWord(date);
+}
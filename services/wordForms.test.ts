@@ -0,0 +1,73 @@
+import { findWordForms, isInflectionOf, maskWordForms, splitWordForms } from "./wordForms";
+
+describe("isInflectionOf", () => {
+  it.each([
+    ["laconic", "laconic"],
+    ["Laconically", "laconic"],
+    ["ameliorated", "ameliorate"],
+    ["ameliorating", "ameliorate"],
+    ["vilified", "vilify"],
+    ["vilifies", "vilify"],
+    ["abetted", "abet"],
+    ["ineffably", "ineffable"],
+    ["tenaciously", "tenacious"],
+    ["sycophants", "sycophant"],
+    ["quizzes", "quiz"],
+    ["wiser", "wise"],
+    ["avant-garde", "avant-garde"],
+  ])("matches %s as a form of %s", (token, word) => {
+    expect(isInflectionOf(token, word)).toBe(true);
+  });
+
+  it.each([
+    ["lace", "laconic"],
+    ["amelioration", "ameliorate"],
+    ["tenacity", "tenacious"],
+  ])("does not match %s as a form of %s", (token, word) => {
+    expect(isInflectionOf(token, word)).toBe(false);
+  });
+});
+
+describe("findWordForms", () => {
+  it("returns the position of every occurrence", () => {
+    const sentence = "Rest can ameliorate symptoms; fluids ameliorated them further.";
+    expect(findWordForms(sentence, "ameliorate")).toEqual([
+      { start: 9, end: 19, text: "ameliorate" },
+      { start: 37, end: 48, text: "ameliorated" },
+    ]);
+  });
+});
+
+describe("maskWordForms", () => {
+  it("masks the word and its inflections", () => {
+    expect(maskWordForms("The senator vituperated his opponents.", "vituperate")).toBe(
+      "The senator _____ his opponents."
+    );
+  });
+
+  it("leaves sentences without the word untouched", () => {
+    expect(maskWordForms("Nothing to see here.", "laconic")).toBe("Nothing to see here.");
+  });
+});
+
+describe("splitWordForms", () => {
+  it("marks each form of the word", () => {
+    expect(splitWordForms("Laconic people answer laconically.", "laconic")).toEqual([
+      { text: "Laconic", highlight: true },
+      { text: " people answer ", highlight: false },
+      { text: "laconically", highlight: true },
+      { text: ".", highlight: false },
+    ]);
+  });
+
+  it("returns the whole sentence unhighlighted when the word isn't in it", () => {
+    expect(splitWordForms("He said very little.", "laconic")).toEqual([
+      { text: "He said very little.", highlight: false },
+    ]);
+  });
+
+  it("round-trips the sentence", () => {
+    const sentence = "Rest can ameliorate symptoms; fluids ameliorated them further.";
+    expect(splitWordForms(sentence, "ameliorate").map((s) => s.text).join("")).toBe(sentence);
+  });
+});
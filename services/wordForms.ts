@@ -0,0 +1,72 @@
+// Finds a word and its common inflections (laconic → laconically,
+// ameliorate → ameliorating, vilify → vilified) inside a sentence.
+// Heuristic suffix matching: good enough for our own example sentences,
+// not a general-purpose stemmer.
+
+export interface WordMatch {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const SUFFIXES = [
+  "", "s", "es", "d", "ed", "ing", "r", "er", "ers", "est", "ly", "ally", "ness",
+  "ment", "ments", "ity", "ities", "ies", "ied", "ier", "iest", "ily", "iness",
+];
+
+function stems(word: string): string[] {
+  const w = word.toLowerCase();
+  const result = new Set([w]);
+  if (w.endsWith("e")) result.add(w.slice(0, -1)); // ameliorate → ameliorat-ing
+  if (w.endsWith("y")) result.add(w.slice(0, -1)); // vilify → vilif-ied
+  if (/(?:[^aeiou]|qu)[aeiou][bcdfgklmnprstvz]$/.test(w)) result.add(w + w.slice(-1)); // abet → abett-ed, quiz → quizz-es
+  if (w.endsWith("le")) result.add(w.slice(0, -2)); // ineffable → ineffab-ly
+  return [...result];
+}
+
+export function isInflectionOf(token: string, word: string): boolean {
+  const t = token.toLowerCase();
+  return stems(word).some(
+    (stem) => t.startsWith(stem) && SUFFIXES.includes(t.slice(stem.length))
+  );
+}
+
+export function findWordForms(sentence: string, word: string): WordMatch[] {
+  const matches: WordMatch[] = [];
+  for (const token of sentence.matchAll(/[A-Za-z]+(?:-[A-Za-z]+)*/g)) {
+    if (isInflectionOf(token[0], word)) {
+      matches.push({ start: token.index!, end: token.index! + token[0].length, text: token[0] });
+    }
+  }
+  return matches;
+}
+
+export function maskWordForms(sentence: string, word: string, mask = "_____"): string {
+  let masked = "";
+  let cursor = 0;
+  for (const match of findWordForms(sentence, word)) {
+    masked += sentence.slice(cursor, match.start) + mask;
+    cursor = match.end;
+  }
+  return masked + sentence.slice(cursor);
+}
+
+export interface SentenceSegment {
+  text: string;
+  // True for a form of the word, e.g. to render it highlighted.
+  highlight: boolean;
+}
+
+// Splits a sentence into plain and word-form runs, in order. Joining the
+// segments' text gives back the sentence.
+export function splitWordForms(sentence: string, word: string): SentenceSegment[] {
+  const segments: SentenceSegment[] = [];
+  let cursor = 0;
+  for (const match of findWordForms(sentence, word)) {
+    if (match.start > cursor) segments.push({ text: sentence.slice(cursor, match.start), highlight: false });
+    segments.push({ text: match.text, highlight: true });
+    cursor = match.end;
+  }
+  if (cursor < sentence.length) segments.push({ text: sentence.slice(cursor), highlight: false });
+  return segments;
+}
@@ -0,0 +1,284 @@
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("./supabase", () => ({ supabase: { from: jest.fn() } }));
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { addDays, daysBetween } from "./dates";
+import { getPreferences } from "./preferences";
+import {
+  ALL_WORDS,
+  DEFAULT_ROTATION,
+  trackRotationStarted,
+  wordIdForDay,
+  type RotationEpoch,
+  type TrackWords,
+  type WordRotation,
+  type WordTrack,
+} from "./wordRotation";
+
+const V1 = DEFAULT_ROTATION.epochs[0];
+
+function rotationOf(...epochs: RotationEpoch[]): WordRotation {
+  return { version: epochs[epochs.length - 1].version, epochs };
+}
+
+// A new epoch from 2026-07-01 that carries on where version 1 would have
+// been, now over 9600 words — what add_word_rotation_epoch does by default.
+const JULY_1 = "2026-07-01";
+const MID_YEAR: RotationEpoch = {
+  version: 2,
+  track: "all",
+  starts_on: JULY_1,
+  start_index: daysBetween(V1.starts_on, JULY_1) % V1.word_count,
+  word_count: 9600,
+};
+
+describe("wordIdForDay", () => {
+  it("matches the original fixed rotation by default", () => {
+    expect(wordIdForDay(DEFAULT_ROTATION, "2026-01-01")).toBe(0);
+    expect(wordIdForDay(DEFAULT_ROTATION, "2026-01-02")).toBe(1);
+    expect(wordIdForDay(DEFAULT_ROTATION, "2025-12-31")).toBe(9546);
+    expect(wordIdForDay(DEFAULT_ROTATION, addDays("2026-01-01", 9547))).toBe(0);
+  });
+
+  describe("a word count change mid-year", () => {
+    const rotation = rotationOf(V1, MID_YEAR);
+
+    it("keeps every earlier day's word", () => {
+      for (let day = "2025-12-01"; day < JULY_1; day = addDays(day, 1)) {
+        expect(wordIdForDay(rotation, day)).toBe(wordIdForDay(DEFAULT_ROTATION, day));
+      }
+    });
+
+    it("continues the sequence without skipping or repeating", () => {
+      expect(wordIdForDay(rotation, "2026-06-30")).toBe(180);
+      expect(wordIdForDay(rotation, JULY_1)).toBe(181);
+      expect(wordIdForDay(rotation, "2026-07-02")).toBe(182);
+    });
+
+    it("cycles through the new, larger word count", () => {
+      const toNewWords = 9547 - 181;
+      expect(wordIdForDay(rotation, addDays(JULY_1, toNewWords))).toBe(9547);
+      expect(wordIdForDay(rotation, addDays(JULY_1, 9600 - 181 - 1))).toBe(9599);
+      expect(wordIdForDay(rotation, addDays(JULY_1, 9600 - 181))).toBe(0);
+    });
+
+    it("can jump straight to the new words", () => {
+      const jump = rotationOf(V1, { ...MID_YEAR, start_index: 9547 });
+      expect(wordIdForDay(jump, "2026-06-30")).toBe(180);
+      expect(wordIdForDay(jump, JULY_1)).toBe(9547);
+      expect(wordIdForDay(jump, addDays(JULY_1, 53))).toBe(0);
+    });
+  });
+
+  it("picks the latest epoch that has started", () => {
+    const rotation = rotationOf(
+      V1,
+      MID_YEAR,
+      { version: 3, track: "all", starts_on: "2027-01-01", start_index: 100, word_count: 9700 }
+    );
+    expect(wordIdForDay(rotation, "2026-12-31")).toBe(wordIdForDay(rotationOf(V1, MID_YEAR), "2026-12-31"));
+    expect(wordIdForDay(rotation, "2027-01-01")).toBe(100);
+  });
+});
+
+// The SAT track's first epoch: three words from 2026-03-01.
+const SAT: RotationEpoch = { version: 2, track: "sat", starts_on: "2026-03-01", start_index: 0, word_count: 3 };
+const SAT_WORDS: TrackWords = { track: "sat", version: 2, wordIds: [40, 7, 1200] };
+
+describe("wordIdForDay on a track", () => {
+  const rotation = rotationOf(V1, SAT);
+
+  it("rotates through the track's words by position", () => {
+    expect(wordIdForDay(rotation, "2026-03-01", SAT_WORDS)).toBe(40);
+    expect(wordIdForDay(rotation, "2026-03-02", SAT_WORDS)).toBe(7);
+    expect(wordIdForDay(rotation, "2026-03-03", SAT_WORDS)).toBe(1200);
+    expect(wordIdForDay(rotation, "2026-03-04", SAT_WORDS)).toBe(40);
+  });
+
+  it("leaves the full rotation alone", () => {
+    expect(wordIdForDay(rotation, "2026-03-02")).toBe(wordIdForDay(DEFAULT_ROTATION, "2026-03-02"));
+  });
+
+  it("follows the full rotation until the track has an epoch and its words", () => {
+    const expected = wordIdForDay(DEFAULT_ROTATION, "2026-03-02");
+    expect(wordIdForDay(DEFAULT_ROTATION, "2026-03-02", SAT_WORDS)).toBe(expected);
+    expect(wordIdForDay(rotation, "2026-03-02", { ...SAT_WORDS, wordIds: [] })).toBe(expected);
+  });
+
+  it("follows the full rotation until the track's first epoch starts", () => {
+    const scheduled = rotationOf(V1, { ...SAT, starts_on: "2026-04-01" });
+    expect(wordIdForDay(scheduled, "2026-03-31", SAT_WORDS)).toBe(wordIdForDay(DEFAULT_ROTATION, "2026-03-31"));
+    expect(wordIdForDay(scheduled, "2026-04-01", SAT_WORDS)).toBe(40);
+  });
+
+  it("reports whether the track's own rotation has started", () => {
+    expect(trackRotationStarted(rotation, "sat", "2026-02-28")).toBe(false);
+    expect(trackRotationStarted(rotation, "sat", "2026-03-01")).toBe(true);
+    expect(trackRotationStarted(rotation, "gre", "2026-03-01")).toBe(false);
+  });
+});
+
+// Fresh module instances, so the in-memory rotation starts over as it would
+// on a new app launch. AsyncStorage is shared between launches.
+function launchApp() {
+  let modules!: {
+    rotation: typeof import("./wordRotation");
+    wordService: typeof import("./wordService");
+    from: jest.Mock;
+  };
+  jest.isolateModules(() => {
+    modules = {
+      rotation: require("./wordRotation"),
+      wordService: require("./wordService"),
+      from: require("./supabase").supabase.from,
+    };
+  });
+  return modules;
+}
+
+function serveRotation(
+  from: jest.Mock,
+  epochs: RotationEpoch[] | Error,
+  tracks: Partial<Record<WordTrack, number[]>> = {}
+) {
+  from.mockImplementation((table: string) => {
+    if (table === "track_words") {
+      return {
+        select: () => ({
+          eq: (_column: string, track: WordTrack) => ({
+            order: () => ({
+              range: async (start: number, end: number) =>
+                epochs instanceof Error
+                  ? { data: null, error: epochs }
+                  : { data: (tracks[track] ?? []).slice(start, end + 1).map((word_id) => ({ word_id })), error: null },
+            }),
+          }),
+        }),
+      };
+    }
+    expect(table).toBe("word_rotation");
+    return {
+      select: () => ({
+        order: async () => (epochs instanceof Error ? { data: null, error: epochs } : { data: epochs, error: null }),
+      }),
+    };
+  });
+}
+
+describe("refreshWordRotation", () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("uses the bundled rotation before the first fetch", () => {
+    const { rotation } = launchApp();
+    expect(rotation.getWordRotation()).toEqual(DEFAULT_ROTATION);
+  });
+
+  it("adopts and caches a new version", async () => {
+    const { rotation, wordService, from } = launchApp();
+    serveRotation(from, [V1, MID_YEAR]);
+
+    await rotation.refreshWordRotation();
+    expect(rotation.getWordRotation()).toEqual(rotationOf(V1, MID_YEAR));
+    expect(wordService.getWordIdForDay(JULY_1)).toBe(181);
+    expect(JSON.parse((await AsyncStorage.getItem("@vocabudaily/wordRotation"))!)).toEqual(rotationOf(V1, MID_YEAR));
+  });
+
+  it("doesn't rewrite the cache when the version is unchanged", async () => {
+    const { rotation, from } = launchApp();
+    serveRotation(from, [V1]);
+
+    await rotation.refreshWordRotation();
+    expect(await AsyncStorage.getItem("@vocabudaily/wordRotation")).toBeNull();
+  });
+
+  it("restores the cached rotation on the next launch, even offline", async () => {
+    const { rotation, from } = launchApp();
+    await AsyncStorage.setItem("@vocabudaily/wordRotation", JSON.stringify(rotationOf(V1, MID_YEAR)));
+    serveRotation(from, new Error("Network request failed"));
+
+    expect(await rotation.refreshWordRotation()).toEqual(rotationOf(V1, MID_YEAR));
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it("ignores a corrupt cache", async () => {
+    const { rotation } = launchApp();
+    await AsyncStorage.setItem("@vocabudaily/wordRotation", "{not json");
+    expect(await rotation.loadWordRotation()).toEqual(DEFAULT_ROTATION);
+  });
+});
+
+describe("word tracks", () => {
+  // More than one page of track_words.
+  const satIds = Array.from({ length: 2500 }, (_, i) => 9546 - i);
+  const satEpoch: RotationEpoch = { ...SAT, word_count: satIds.length };
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("downloads a track's words when it's chosen", async () => {
+    const { rotation, wordService, from } = launchApp();
+    serveRotation(from, [V1, satEpoch], { sat: satIds });
+    await rotation.refreshWordRotation();
+
+    await rotation.setWordTrack("sat");
+    expect(rotation.getTrackWords()).toEqual({ track: "sat", version: 2, wordIds: satIds });
+    expect(wordService.getWordIdForDay("2026-03-01")).toBe(9546);
+    expect(wordService.getWordIdForDay("2026-03-02")).toBe(9545);
+    expect((await getPreferences()).wordTrack).toBe("sat");
+  });
+
+  it("keeps the current track when its words can't be fetched", async () => {
+    const { rotation, from } = launchApp();
+    serveRotation(from, new Error("Network request failed"));
+
+    await expect(rotation.setWordTrack("sat")).rejects.toThrow("Network request failed");
+    expect(rotation.getTrackWords()).toEqual(ALL_WORDS);
+    expect((await getPreferences()).wordTrack).toBe("all");
+  });
+
+  it("restores the chosen track offline, and refetches its words for a new epoch", async () => {
+    const first = launchApp();
+    serveRotation(first.from, [V1, satEpoch], { sat: satIds });
+    await first.rotation.refreshWordRotation();
+    await first.rotation.setWordTrack("sat");
+
+    const offline = launchApp();
+    serveRotation(offline.from, new Error("Network request failed"));
+    await offline.rotation.refreshWordRotation();
+    expect(offline.wordService.getWordIdForDay("2026-03-01")).toBe(9546);
+
+    const grown = [...satIds, 0, 1];
+    const next = launchApp();
+    serveRotation(
+      next.from,
+      [V1, satEpoch, { ...satEpoch, version: 3, starts_on: "2026-04-01", start_index: 0, word_count: grown.length }],
+      { sat: grown }
+    );
+    await next.rotation.refreshWordRotation();
+    expect(next.rotation.getTrackWords()).toEqual({ track: "sat", version: 3, wordIds: grown });
+  });
+
+  it("goes back to the full rotation", async () => {
+    const { rotation, wordService, from } = launchApp();
+    serveRotation(from, [V1, satEpoch], { sat: satIds });
+    await rotation.setWordTrack("sat");
+    await rotation.setWordTrack("all");
+
+    expect(wordService.getWordIdForDay("2026-03-01")).toBe(wordIdForDay(DEFAULT_ROTATION, "2026-03-01"));
+  });
+});
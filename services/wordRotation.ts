@@ -0,0 +1,191 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { daysBetween } from "./dates";
+import { getPreferences, updatePreferences } from "./preferences";
+import { supabase } from "./supabase";
+
+const ROTATION_KEY = "@vocabudaily/wordRotation";
+const TRACK_WORDS_KEY = "@vocabudaily/trackWords";
+
+const TRACK_PAGE_SIZE = 1000;
+
+// "all" is the original rotation over every word; the others rotate through
+// a subset, see supabase/migrations/0011_word_tracks.sql.
+export type WordTrack = "all" | "sat" | "gre" | "advanced";
+
+export const WORD_TRACKS: { id: WordTrack; label: string; description: string }[] = [
+  { id: "all", label: "Everything", description: "Every word in the dictionary." },
+  { id: "sat", label: "SAT", description: "Words from SAT prep lists." },
+  { id: "gre", label: "GRE", description: "Core and intermediate words from GRE prep lists." },
+  { id: "advanced", label: "Advanced", description: "The rarest words, found on only one prep list." },
+];
+
+// One row of public.word_rotation; see supabase/migrations/0008_word_rotation.sql.
+export interface RotationEpoch {
+  version: number;
+  track: WordTrack;
+  starts_on: string;
+  start_index: number;
+  word_count: number;
+}
+
+export interface WordRotation {
+  // Highest epoch version; a changed version means the epochs changed.
+  version: number;
+  // Oldest first.
+  epochs: RotationEpoch[];
+}
+
+// The rotation shipped with the app, used until the first successful fetch.
+export const DEFAULT_ROTATION: WordRotation = {
+  version: 1,
+  epochs: [{ version: 1, track: "all", starts_on: "2026-01-01", start_index: 0, word_count: 9547 }],
+};
+
+// A track's word ids in rotation order (public.track_words), as of rotation
+// `version`.
+export interface TrackWords {
+  track: WordTrack;
+  version: number;
+  wordIds: number[];
+}
+
+export const ALL_WORDS: TrackWords = { track: "all", version: 0, wordIds: [] };
+
+let current: WordRotation = DEFAULT_ROTATION;
+let currentTrack: TrackWords = ALL_WORDS;
+let loading: Promise<WordRotation> | null = null;
+
+// Days before the first epoch count backwards from it.
+function rotationIndex(epochs: RotationEpoch[], day: string): number {
+  let epoch = epochs[0];
+  for (const candidate of epochs) {
+    if (daysBetween(candidate.starts_on, day) >= 0) epoch = candidate;
+  }
+  const { start_index, word_count } = epoch;
+  const index = start_index + daysBetween(epoch.starts_on, day);
+  return ((index % word_count) + word_count) % word_count;
+}
+
+// Whether `track` has its own rotation on `day`: an operator has added an
+// epoch for it (add_word_rotation_epoch) and the first one has started.
+export function trackRotationStarted(rotation: WordRotation, track: WordTrack, day: string): boolean {
+  return rotation.epochs.some((epoch) => epoch.track === track && daysBetween(epoch.starts_on, day) >= 0);
+}
+
+// A track whose first epoch hasn't started yet, or whose words haven't been
+// downloaded, follows the full rotation, as rotation_word_id does server-side.
+export function wordIdForDay(rotation: WordRotation, day: string, track: TrackWords = ALL_WORDS): number {
+  const epochs = rotation.epochs.filter((epoch) => epoch.track === track.track);
+  if (track.track === "all" || !trackRotationStarted(rotation, track.track, day) || track.wordIds.length === 0) {
+    return rotationIndex(
+      rotation.epochs.filter((epoch) => epoch.track === "all"),
+      day
+    );
+  }
+  // The ids are fetched for the same rotation version, so the index is always
+  // in range; the modulo only guards against a stale cache.
+  return track.wordIds[rotationIndex(epochs, day) % track.wordIds.length];
+}
+
+// The rotation day → word id lookups use right now. Synchronous so ids can be
+// computed anywhere; loadWordRotation / refreshWordRotation keep it current.
+export function getWordRotation(): WordRotation {
+  return current;
+}
+
+// The chosen track's words, or ALL_WORDS. Kept current like the rotation.
+export function getTrackWords(): TrackWords {
+  return currentTrack;
+}
+
+// Rotations cached before tracks existed have no "all" epochs and are refetched.
+function isWordRotation(value: unknown): value is WordRotation {
+  const rotation = value as WordRotation | null;
+  return (
+    typeof rotation?.version === "number" &&
+    Array.isArray(rotation.epochs) &&
+    rotation.epochs.some((epoch) => epoch.track === "all")
+  );
+}
+
+function isTrackWords(value: unknown): value is TrackWords {
+  const track = value as TrackWords | null;
+  return typeof track?.track === "string" && typeof track.version === "number" && Array.isArray(track.wordIds);
+}
+
+// Restores the rotation and the chosen track's words cached on the device.
+// Runs once; later calls share the first result.
+export function loadWordRotation(): Promise<WordRotation> {
+  loading ??= Promise.all([
+    AsyncStorage.getItem(ROTATION_KEY),
+    AsyncStorage.getItem(TRACK_WORDS_KEY),
+    getPreferences(),
+  ])
+    .then(([rawRotation, rawTrack, { wordTrack }]) => {
+      const cached: unknown = rawRotation ? JSON.parse(rawRotation) : null;
+      if (isWordRotation(cached) && cached.version >= current.version) current = cached;
+      const cachedTrack: unknown = rawTrack ? JSON.parse(rawTrack) : null;
+      if (isTrackWords(cachedTrack) && cachedTrack.track === wordTrack) currentTrack = cachedTrack;
+      return current;
+    })
+    .catch(() => current);
+  return loading;
+}
+
+async function fetchTrackWords(track: WordTrack, version: number): Promise<TrackWords> {
+  const wordIds: number[] = [];
+  for (;;) {
+    const { data, error } = await supabase
+      .from("track_words")
+      .select("word_id")
+      .eq("track", track)
+      .order("position")
+      .range(wordIds.length, wordIds.length + TRACK_PAGE_SIZE - 1);
+    if (error) throw error;
+    wordIds.push(...(data as { word_id: number }[]).map((row) => row.word_id));
+    if (data.length < TRACK_PAGE_SIZE) return { track, version, wordIds };
+  }
+}
+
+// Switches the daily word to `track`, downloading its words first; throws,
+// leaving the current track in place, if they can't be fetched.
+export async function setWordTrack(track: WordTrack): Promise<void> {
+  await loadWordRotation();
+  const next = track === "all" ? ALL_WORDS : await fetchTrackWords(track, current.version);
+  await updatePreferences({ wordTrack: track });
+  if (track !== "all") await AsyncStorage.setItem(TRACK_WORDS_KEY, JSON.stringify(next));
+  currentTrack = next;
+}
+
+// Fetches the epochs and caches them if the version moved, then the chosen
+// track's words if they're missing or older than the rotation. Keeps the
+// cached rotation when offline.
+export async function refreshWordRotation(): Promise<WordRotation> {
+  await loadWordRotation();
+  try {
+    const { data, error } = await supabase
+      .from("word_rotation")
+      .select("version, track, starts_on, start_index, word_count")
+      .order("version");
+    if (error) throw error;
+
+    const epochs = data as RotationEpoch[];
+    const next: WordRotation = { version: Math.max(...epochs.map((epoch) => epoch.version)), epochs };
+    if (isWordRotation(next) && next.version !== current.version) {
+      current = next;
+      await AsyncStorage.setItem(ROTATION_KEY, JSON.stringify(next));
+    }
+
+    const { wordTrack } = await getPreferences();
+    if (wordTrack === "all") {
+      currentTrack = ALL_WORDS;
+    } else if (currentTrack.track !== wordTrack || currentTrack.version !== current.version) {
+      currentTrack = await fetchTrackWords(wordTrack, current.version);
+      await AsyncStorage.setItem(TRACK_WORDS_KEY, JSON.stringify(currentTrack));
+    }
+  } catch (error) {
+    console.warn("Word rotation refresh failed, using cached rotation:", error);
+  }
+  return current;
+}
+
@@ -1,12 +1,32 @@
-jest.mock("expo-constants", () => ({
-  expoConfig: { extra: { SUPABASE_URL: "https://test.supabase.co", SUPABASE_ANON_KEY: "test-key" } },
-}));
+jest.mock("expo-linking", () => ({ createURL: (path: string) => `vocabudaily://${path}` }));
+jest.mock("./supabase", () => ({ supabase: { rpc: jest.fn(), from: jest.fn() } }));
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
 
-import { getDailyWordId } from "./wordService";
+import { supabase } from "./supabase";
+import {
+  getArchiveDays,
+  getDailyWordId,
+  getSenses,
+  getWordDay,
+  getWordIdForDay,
+  getWordLink,
+  getWordsForDays,
+  getWordsWithRoot,
+  parseDateKey,
+  parseWordKey,
+  searchWords,
+  toDateKey,
+  WORD_COLUMNS,
+  type Word,
+} from "./wordService";
+
+const NY = "America/New_York";
 
 describe("getDailyWordId", () => {
   it("returns 0 on the epoch date", () => {
-    expect(getDailyWordId(new Date("2026-01-01T00:00:00Z"))).toBe(0);
+    expect(getDailyWordId(new Date("2026-01-01T00:00:00Z"), "UTC")).toBe(0);
   });
 
   it("is deterministic for a fixed date", () => {
@@ -15,14 +35,14 @@ describe("getDailyWordId", () => {
   });
 
   it("advances by one for the next day", () => {
-    const day1 = getDailyWordId(new Date("2026-06-01T00:00:00Z"));
-    const day2 = getDailyWordId(new Date("2026-06-02T00:00:00Z"));
+    const day1 = getDailyWordId(new Date("2026-06-01T00:00:00Z"), "UTC");
+    const day2 = getDailyWordId(new Date("2026-06-02T00:00:00Z"), "UTC");
     expect(day2).toBe(day1 + 1);
   });
 
-  it("wraps around after WORD_COUNT days", () => {
-    const start = getDailyWordId(new Date("2026-01-01T00:00:00Z"));
-    const wrapped = getDailyWordId(new Date(Date.UTC(2026, 0, 1) + 9547 * 86_400_000));
+  it("wraps around after word_count days", () => {
+    const start = getDailyWordId(new Date("2026-01-01T00:00:00Z"), "UTC");
+    const wrapped = getDailyWordId(new Date(Date.UTC(2026, 0, 1) + 9547 * 86_400_000), "UTC");
     expect(wrapped).toBe(start);
   });
 
@@ -31,4 +51,245 @@ describe("getDailyWordId", () => {
     expect(id).toBeGreaterThanOrEqual(0);
     expect(id).toBeLessThan(9547);
   });
+
+  it("changes at local midnight, not UTC midnight", () => {
+    // 5:30 PM in Los Angeles is already tomorrow in UTC.
+    const afternoon = new Date("2026-03-15T17:30:00-07:00");
+    expect(getDailyWordId(afternoon, "America/Los_Angeles")).toBe(getWordIdForDay("2026-03-15"));
+    expect(getDailyWordId(afternoon, "UTC")).toBe(getWordIdForDay("2026-03-16"));
+  });
+
+  it("wraps days before the epoch into range", () => {
+    expect(getWordIdForDay("2025-12-31")).toBe(9546);
+  });
+});
+
+describe("getWordDay", () => {
+  it("rolls over at local midnight", () => {
+    expect(getWordDay(new Date("2026-03-16T03:59:00Z"), NY)).toBe("2026-03-15");
+    expect(getWordDay(new Date("2026-03-16T04:00:00Z"), NY)).toBe("2026-03-16");
+  });
+
+  it("uses the device zone by default", () => {
+    expect(getWordDay(new Date("2026-03-16T03:59:00Z"))).toBe("2026-03-15");
+  });
+
+  it("rolls over at midnight on both sides of spring-forward", () => {
+    // EST (-05:00) until 2 AM on 2026-03-08, EDT (-04:00) after.
+    expect(getWordDay(new Date("2026-03-08T04:59:00Z"), NY)).toBe("2026-03-07");
+    expect(getWordDay(new Date("2026-03-08T05:00:00Z"), NY)).toBe("2026-03-08");
+    expect(getWordDay(new Date("2026-03-09T03:59:00Z"), NY)).toBe("2026-03-08");
+    expect(getWordDay(new Date("2026-03-09T04:00:00Z"), NY)).toBe("2026-03-09");
+  });
+
+  it("keeps the 25-hour fall-back day as one word day", () => {
+    const start = new Date("2026-11-01T04:00:00Z"); // 00:00 EDT
+    const end = new Date("2026-11-02T04:59:00Z"); // 23:59 EST
+    expect(getWordDay(start, NY)).toBe("2026-11-01");
+    expect(getWordDay(end, NY)).toBe("2026-11-01");
+    expect(getWordDay(new Date("2026-11-02T05:00:00Z"), NY)).toBe("2026-11-02");
+    expect(getDailyWordId(end, NY) - getDailyWordId(start, NY)).toBe(0);
+  });
+
+  it("gives a word day on each side of the date line", () => {
+    const instant = new Date("2026-03-15T12:00:00Z");
+    expect(getWordDay(instant, "Pacific/Kiritimati")).toBe("2026-03-16"); // UTC+14
+    expect(getWordDay(instant, "Pacific/Pago_Pago")).toBe("2026-03-15"); // UTC-11
+    expect(getDailyWordId(instant, "Pacific/Kiritimati") - getDailyWordId(instant, "Pacific/Pago_Pago")).toBe(1);
+  });
+
+  it("handles half-hour offsets", () => {
+    // India is UTC+05:30.
+    expect(getWordDay(new Date("2026-03-15T18:29:00Z"), "Asia/Kolkata")).toBe("2026-03-15");
+    expect(getWordDay(new Date("2026-03-15T18:30:00Z"), "Asia/Kolkata")).toBe("2026-03-16");
+  });
+});
+
+describe("getArchiveDays", () => {
+  it("starts with yesterday and goes back one day at a time", () => {
+    expect(getArchiveDays("2026-03-15", 0, 3)).toEqual(["2026-03-14", "2026-03-13", "2026-03-12"]);
+  });
+
+  it("pages with an offset", () => {
+    expect(getArchiveDays("2026-03-15", 3, 2)).toEqual(["2026-03-11", "2026-03-10"]);
+  });
+
+  it("stops at the epoch", () => {
+    expect(getArchiveDays("2026-01-03", 0, 30)).toEqual(["2026-01-02", "2026-01-01"]);
+    expect(getArchiveDays("2026-01-03", 2, 30)).toEqual([]);
+  });
+
+  it("steps whole days across DST changes", () => {
+    expect(getArchiveDays("2026-03-10", 0, 3)).toEqual(["2026-03-09", "2026-03-08", "2026-03-07"]);
+  });
+});
+
+describe("parseDateKey", () => {
+  it("round-trips with toDateKey", () => {
+    expect(toDateKey(parseDateKey("2026-10-19")!)).toBe("2026-10-19");
+  });
+
+  it("rejects malformed and impossible dates", () => {
+    expect(parseDateKey("2026-1-5")).toBeNull();
+    expect(parseDateKey("2026-02-30")).toBeNull();
+    expect(parseDateKey("ephemeral")).toBeNull();
+  });
+});
+
+describe("parseWordKey", () => {
+  it("reads date keys as word days", () => {
+    expect(parseWordKey("2026-10-19")).toEqual({ day: "2026-10-19" });
+  });
+
+  it("reads anything else as word text", () => {
+    expect(parseWordKey("ephemeral")).toEqual({ word: "ephemeral" });
+    expect(parseWordKey("Laissez-faire")).toEqual({ word: "laissez-faire" });
+    expect(parseWordKey("bon vivant")).toEqual({ word: "bon vivant" });
+  });
+
+  it("rejects invalid dates and non-word text", () => {
+    expect(parseWordKey("2026-02-30")).toBeNull();
+    expect(parseWordKey("2026-1-1")).toBeNull();
+    expect(parseWordKey("")).toBeNull();
+    expect(parseWordKey("100%")).toBeNull();
+    expect(parseWordKey("e_m")).toBeNull();
+  });
+});
+
+describe("getSenses", () => {
+  const word: Word = {
+    id: 1,
+    word: "sanguine",
+    part_of_speech: "adjective",
+    definition: "Optimistic, especially in a difficult situation.",
+    phonetic: "SANG-gwin",
+    examples: ["She stayed sanguine."],
+    origin: "From Latin 'sanguis' (blood).",
+  };
+
+  it("returns the senses when the row has them", () => {
+    const senses = [
+      { part_of_speech: "adjective", definition: word.definition, examples: word.examples },
+      { part_of_speech: "adjective", definition: "Blood-red.", examples: [] },
+    ];
+    expect(getSenses({ ...word, senses })).toEqual(senses);
+  });
+
+  it("falls back to the primary sense for older rows", () => {
+    const primary = [{ part_of_speech: "adjective", definition: word.definition, examples: word.examples }];
+    expect(getSenses(word)).toEqual(primary);
+    expect(getSenses({ ...word, senses: null })).toEqual(primary);
+    expect(getSenses({ ...word, senses: [] })).toEqual(primary);
+  });
+});
+
+describe("getWordLink", () => {
+  it("links to the word route", () => {
+    expect(getWordLink("Bon Vivant")).toBe("vocabudaily://word/bon%20vivant");
+  });
+});
+
+describe("searchWords", () => {
+  const select = jest.fn();
+
+  beforeEach(() => {
+    select.mockReset().mockResolvedValue({ data: [{ id: 1, word: "ephemeral" }], error: null });
+    (supabase.rpc as jest.Mock).mockReset().mockReturnValue({ select });
+  });
+
+  it("calls the search_words RPC with the trimmed query and page", async () => {
+    const results = await searchWords("  ephem ", { limit: 10, offset: 30 });
+    expect(supabase.rpc).toHaveBeenCalledWith("search_words", {
+      query: "ephem",
+      result_limit: 10,
+      result_offset: 30,
+    });
+    expect(select).toHaveBeenCalledWith(WORD_COLUMNS);
+    expect(results).toEqual([{ id: 1, word: "ephemeral" }]);
+  });
+
+  it("defaults to the first page of 20", async () => {
+    await searchWords("ephem");
+    expect(supabase.rpc).toHaveBeenCalledWith("search_words", { query: "ephem", result_limit: 20, result_offset: 0 });
+  });
+
+  it("skips the request for a blank query", async () => {
+    expect(await searchWords("   ")).toEqual([]);
+    expect(supabase.rpc).not.toHaveBeenCalled();
+  });
+
+  it("throws the Supabase error", async () => {
+    select.mockResolvedValue({ data: null, error: new Error("boom") });
+    await expect(searchWords("ephem")).rejects.toThrow("boom");
+  });
+});
+
+describe("getWordsWithRoot", () => {
+  const eqRoot = jest.fn();
+  const eqLanguage = jest.fn(() => ({ eq: eqRoot }));
+  const select = jest.fn(() => ({ eq: eqLanguage }));
+
+  beforeEach(() => {
+    eqRoot.mockReset().mockResolvedValue({
+      data: [
+        { meaning: "mind, spirit", words: { id: 3, word: "unanimous", definition: "Fully in agreement." } },
+        { meaning: "mind", words: { id: 8, word: "equanimity", definition: "Calmness." } },
+        { meaning: "mind", words: { id: 5, word: "animosity", definition: "Hostility." } },
+        { meaning: null, words: { id: 9, word: "magnanimous", definition: "Generous." } },
+      ],
+      error: null,
+    });
+    (supabase.from as jest.Mock).mockReset().mockReturnValue({ select });
+  });
+
+  it("lists the words alphabetically with each distinct meaning once", async () => {
+    const result = await getWordsWithRoot("Latin", "Animus");
+    expect(supabase.from).toHaveBeenCalledWith("word_roots");
+    expect(eqLanguage).toHaveBeenCalledWith("language", "Latin");
+    expect(eqRoot).toHaveBeenCalledWith("root", "animus");
+    expect(result.meanings).toEqual(["mind, spirit", "mind"]);
+    expect(result.words.map((w) => w.word)).toEqual(["animosity", "equanimity", "magnanimous", "unanimous"]);
+  });
+
+  it("throws the Supabase error", async () => {
+    eqRoot.mockResolvedValue({ data: null, error: new Error("boom") });
+    await expect(getWordsWithRoot("Latin", "animus")).rejects.toThrow("boom");
+  });
+});
+
+describe("getWordsForDays", () => {
+  const inIds = jest.fn();
+
+  beforeEach(() => {
+    (supabase.rpc as jest.Mock).mockReset().mockResolvedValue({
+      data: [
+        { day: "2026-03-13", word_id: 5 },
+        { day: "2026-03-14", word_id: 42 },
+      ],
+      error: null,
+    });
+    inIds.mockReset().mockImplementation(async (_column: string, ids: number[]) => ({
+      data: ids.map((id) => ({ id, word: `word${id}`, updated_at: "2026-01-01T00:00:00Z" })),
+      error: null,
+    }));
+    (supabase.from as jest.Mock).mockReset().mockReturnValue({ select: () => ({ in: inIds }) });
+  });
+
+  it("lists the words the server scheduled, overrides included", async () => {
+    const days = await getWordsForDays(["2026-03-14", "2026-03-13"]);
+    expect(supabase.rpc).toHaveBeenCalledWith("get_word_ids_for_dates", {
+      p_from: "2026-03-13",
+      p_to: "2026-03-14",
+      p_track: "all",
+    });
+    expect(days.map(({ day, word }) => [day, word.id])).toEqual([
+      ["2026-03-14", 42],
+      ["2026-03-13", 5],
+    ]);
+  });
+
+  it("uses the rotation for days the server leaves out", async () => {
+    const days = await getWordsForDays(["2026-03-15", "2026-03-14"]);
+    expect(days.map(({ word }) => word.id)).toEqual([getWordIdForDay("2026-03-15"), 42]);
+  });
 });
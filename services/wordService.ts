@@ -1,29 +1,228 @@
+import * as Linking from "expo-linking";
+import { addDays, daysBetween, deviceTimeZone, toDayKey } from "./dates";
 import { supabase } from "./supabase";
+import { getTrackWords, getWordRotation, loadWordRotation, wordIdForDay } from "./wordRotation";
+
+export interface WordSense {
+  part_of_speech: string;
+  definition: string;
+  examples: string[];
+}
 
 export interface Word {
+  id: number;
   word: string;
+  // The primary sense; the same as senses[0] when senses is set.
   part_of_speech: string;
   definition: string;
   phonetic: string;
   examples: string[];
   origin: string;
+  // Curated recording; overrides text-to-speech when present. Words cached
+  // before the column existed don't have it.
+  audio_url?: string | null;
+  // Every sense, most common first. Null on older rows and missing from
+  // words cached before the column existed; use getSenses.
+  senses?: WordSense[] | null;
+  synonyms?: string[];
+  antonyms?: string[];
+  related?: string[];
+}
+
+export interface WordVersion {
+  id: number;
+  updated_at: string;
+}
+
+export type WordRow = Word & WordVersion;
+
+export interface DatedWord {
+  day: string;
+  word: Word;
+}
+
+// What a /word/[key] route points at: a word day or the word itself.
+export type WordKey = { day: string } | { word: string };
+
+export const WORD_COLUMNS =
+  "id, word, part_of_speech, definition, phonetic, examples, origin, audio_url, senses, synonyms, antonyms, related";
+
+// A word's senses, falling back to the single primary sense for rows that
+// predate the senses column.
+export function getSenses(word: Word): WordSense[] {
+  if (word.senses && word.senses.length > 0) return word.senses;
+  return [{ part_of_speech: word.part_of_speech, definition: word.definition, examples: word.examples ?? [] }];
 }
 
-const WORD_COUNT = 9547;
-const EPOCH = Date.UTC(2026, 0, 1); // 2026-01-01 UTC
+// A word day is a calendar date ("YYYY-MM-DD") and rolls over at local
+// midnight: everyone gets the 2026-03-15 word on their own March 15th.
+// Everything that decides "today's word" (the fetcher, the AppState refresh,
+// notifications, the widget) goes through this.
+export function getWordDay(date: Date = new Date(), timeZone: string = deviceTimeZone()): string {
+  return toDayKey(date, timeZone);
+}
 
-export function getDailyWordId(date: Date = new Date()): number {
-  const days = Math.floor((date.getTime() - EPOCH) / 86_400_000);
-  return ((days % WORD_COUNT) + WORD_COUNT) % WORD_COUNT;
+// Uses the rotation currently loaded on the device (see wordRotation.ts);
+// async callers should await loadWordRotation() first.
+export function getWordIdForDay(day: string): number {
+  return wordIdForDay(getWordRotation(), day, getTrackWords());
 }
 
-export async function getDailyWord(date: Date = new Date()): Promise<Word> {
-  const id = getDailyWordId(date);
+export function getDailyWordId(date: Date = new Date(), timeZone: string = deviceTimeZone()): number {
+  return getWordIdForDay(getWordDay(date, timeZone));
+}
+
+// "YYYY-MM-DD" keys name a word day in routes, e.g. /word/2026-01-01. For a
+// Date at UTC midnight this is the day it stands for.
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function parseDateKey(key: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(key)) return null;
+  const date = new Date(`${key}T00:00:00Z`);
+  if (isNaN(date.getTime()) || toDateKey(date) !== key) return null;
+  return date;
+}
+
+// Parses a /word/[key] route key, e.g. vocabudaily://word/2026-10-19 or
+// vocabudaily://word/ephemeral. Returns null for anything that is neither a
+// valid date nor plausible word text.
+export function parseWordKey(key: string): WordKey | null {
+  if (/^\d/.test(key)) {
+    return parseDateKey(key) ? { day: key } : null;
+  }
+  const word = key.trim().toLowerCase();
+  return /^[a-z][a-z' -]*$/.test(word) ? { word } : null;
+}
+
+// Deep link to a word by its text, which stays valid as the rotation moves on.
+export function getWordLink(word: string): string {
+  return Linking.createURL(`word/${encodeURIComponent(word.toLowerCase())}`);
+}
+
+// Word days before `today`, newest first, never earlier than the first
+// rotation epoch. `offset` and `limit` page through the archive.
+export function getArchiveDays(today: string, offset: number, limit: number): string[] {
+  const firstDay = getWordRotation().epochs[0].starts_on;
+  const days: string[] = [];
+  for (let back = 1 + offset; days.length < limit; back++) {
+    const day = addDays(today, -back);
+    if (daysBetween(firstDay, day) < 0) break;
+    days.push(day);
+  }
+  return days;
+}
+
+// The word the server schedules for `day`: its editorial override from
+// word_schedule if there is one, otherwise the word on the track whose words
+// are loaded. See supabase/migrations/0009_word_schedule.sql and
+// 0011_word_tracks.sql.
+export async function fetchScheduledWord(day: string, timeZone: string = deviceTimeZone()): Promise<WordRow> {
   const { data, error } = await supabase
-    .from("words")
-    .select("word, part_of_speech, definition, phonetic, examples, origin")
-    .eq("id", id)
+    .rpc("get_word_for_date", { p_date: day, p_tz: timeZone, p_track: getTrackWords().track })
+    .select(`${WORD_COLUMNS}, updated_at`)
     .single();
   if (error) throw error;
+  return data as WordRow;
+}
+
+// Word ids the server schedules for each day from `from` through `to`
+// ("YYYY-MM-DD", inclusive), overrides included, keyed by day. See
+// supabase/migrations/0015_word_ids_for_dates.sql.
+export async function fetchScheduledWordIds(from: string, to: string): Promise<Record<string, number>> {
+  const { data, error } = await supabase.rpc("get_word_ids_for_dates", {
+    p_from: from,
+    p_to: to,
+    p_track: getTrackWords().track,
+  });
+  if (error) throw error;
+  return Object.fromEntries((data as { day: string; word_id: number }[]).map((row) => [row.day, row.word_id]));
+}
+
+// Case-insensitive exact match; callers validate the text with parseWordKey,
+// so it never contains LIKE wildcards.
+export async function getWordByText(text: string): Promise<Word | null> {
+  const { data, error } = await supabase
+    .from("words")
+    .select(WORD_COLUMNS)
+    .ilike("word", text)
+    .maybeSingle();
+  if (error) throw error;
   return data;
 }
+
+export interface RootWords {
+  // The distinct glosses the words' origins give the root.
+  meanings: string[];
+  // Alphabetical.
+  words: Pick<Word, "id" | "word" | "definition">[];
+}
+
+// Every word whose origin names `root` in `language`; see
+// supabase/migrations/0013_word_roots.sql and services/etymology.ts.
+export async function getWordsWithRoot(language: string, root: string): Promise<RootWords> {
+  const { data, error } = await supabase
+    .from("word_roots")
+    .select("meaning, words(id, word, definition)")
+    .eq("language", language)
+    .eq("root", root.toLowerCase());
+  if (error) throw error;
+  const rows = data as unknown as { meaning: string | null; words: RootWords["words"][number] }[];
+  return {
+    meanings: [...new Set(rows.flatMap((row) => (row.meaning ? [row.meaning] : [])))],
+    words: rows.map((row) => row.words).sort((a, b) => a.word.localeCompare(b.word)),
+  };
+}
+
+export interface SearchOptions {
+  limit?: number;
+  offset?: number;
+}
+
+// Full-text and typo-tolerant search over the whole dictionary; see
+// supabase/migrations/0006_word_search.sql for the ranking.
+export async function searchWords(query: string, { limit = 20, offset = 0 }: SearchOptions = {}): Promise<Word[]> {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+  const { data, error } = await supabase
+    .rpc("search_words", { query: trimmed, result_limit: limit, result_offset: offset })
+    .select(WORD_COLUMNS);
+  if (error) throw error;
+  return data as Word[];
+}
+
+export async function getWordsByIds(ids: number[]): Promise<WordRow[]> {
+  const { data, error } = await supabase
+    .from("words")
+    .select(`${WORD_COLUMNS}, updated_at`)
+    .in("id", ids);
+  if (error) throw error;
+  return data;
+}
+
+// Cheap check used by the cache: only the row versions, not the content.
+export async function getWordVersions(ids: number[]): Promise<WordVersion[]> {
+  const { data, error } = await supabase
+    .from("words")
+    .select("id, updated_at")
+    .in("id", ids);
+  if (error) throw error;
+  return data;
+}
+
+// The words the server scheduled for `days`, overrides included, in the
+// same order. Days the server doesn't answer for use the local rotation.
+export async function getWordsForDays(days: string[]): Promise<DatedWord[]> {
+  if (days.length === 0) return [];
+  await loadWordRotation();
+  const sorted = [...days].sort();
+  const scheduled = await fetchScheduledWordIds(sorted[0], sorted[sorted.length - 1]);
+  const idFor = (day: string) => scheduled[day] ?? getWordIdForDay(day);
+  const rows = await getWordsByIds([...new Set(days.map(idFor))]);
+  const byId = new Map<number, Word>(rows.map(({ updated_at, ...word }) => [word.id, word]));
+  return days.flatMap((day) => {
+    const word = byId.get(idFor(day));
+    return word ? [{ day, word }] : [];
+  });
+}
@@ -0,0 +1,15 @@
+-- Lets clients detect edited rows and refresh their offline word cache.
+alter table public.words
+  add column updated_at timestamptz not null default now();
+
+create function public.touch_updated_at() returns trigger
+  language plpgsql as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger words_touch_updated_at
+  before update on public.words
+  for each row execute function public.touch_updated_at();
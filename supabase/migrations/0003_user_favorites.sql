@@ -0,0 +1,17 @@
+create table public.user_favorites (
+  user_id  uuid        not null default auth.uid() references auth.users on delete cascade,
+  word_id  integer     not null references public.words on delete cascade,
+  saved_at timestamptz not null default now(),
+  primary key (user_id, word_id)
+);
+
+alter table public.user_favorites enable row level security;
+
+create policy "own favorites" on public.user_favorites
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- user_favorites embeds words(...) in its selects
+create policy "authenticated read" on public.words
+  for select to authenticated using (true);
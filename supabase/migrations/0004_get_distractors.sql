@@ -0,0 +1,13 @@
+-- Random wrong answers for quiz questions: words sharing the target's part
+-- of speech first, then any others if that part of speech is too small.
+create function public.get_distractors(target_id integer, pos text, n integer default 3)
+  returns setof public.words
+  language sql stable as $$
+  select *
+  from public.words
+  where id <> target_id
+  order by (part_of_speech = pos) desc, random()
+  limit n;
+$$;
+
+grant execute on function public.get_distractors(integer, text, integer) to anon, authenticated;
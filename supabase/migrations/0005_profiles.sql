@@ -0,0 +1,45 @@
+-- One profile per auth user (anonymous or permanent), created and kept in
+-- step with auth.users by triggers. User-owned tables reference auth.uid().
+create table public.profiles (
+  id           uuid        primary key references auth.users on delete cascade,
+  email        text,
+  is_anonymous boolean     not null default true,
+  display_name text,
+  created_at   timestamptz not null default now(),
+  updated_at   timestamptz not null default now()
+);
+
+alter table public.profiles enable row level security;
+
+create policy "read own profile" on public.profiles
+  for select to authenticated using (id = auth.uid());
+
+create policy "update own profile" on public.profiles
+  for update to authenticated
+  using (id = auth.uid())
+  with check (id = auth.uid());
+
+create trigger profiles_touch_updated_at
+  before update on public.profiles
+  for each row execute function public.touch_updated_at();
+
+create function public.handle_auth_user_change() returns trigger
+  language plpgsql security definer set search_path = '' as $$
+begin
+  insert into public.profiles (id, email, is_anonymous)
+  values (new.id, new.email, coalesce(new.is_anonymous, false))
+  on conflict (id) do update
+    set email = excluded.email,
+        is_anonymous = excluded.is_anonymous;
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_auth_user_change();
+
+-- Fires when an anonymous user confirms an email and becomes permanent.
+create trigger on_auth_user_updated
+  after update of email, is_anonymous on auth.users
+  for each row execute function public.handle_auth_user_change();
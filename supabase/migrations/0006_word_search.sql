@@ -0,0 +1,41 @@
+-- Dictionary search: weighted full-text over word, definition and origin,
+-- plus trigram matching on the word itself so typos and partial prefixes
+-- still find it.
+create extension if not exists pg_trgm with schema extensions;
+
+alter table public.words
+  add column search tsvector generated always as (
+    setweight(to_tsvector('english', word), 'A') ||
+    setweight(to_tsvector('english', definition), 'B') ||
+    setweight(to_tsvector('english', origin), 'C')
+  ) stored;
+
+create index words_search_idx on public.words using gin (search);
+create index words_word_trgm_idx on public.words using gin (word extensions.gin_trgm_ops);
+
+-- Exact and prefix matches on the word first, then full-text rank, then
+-- closest spelling. Paged with result_limit/result_offset.
+create function public.search_words(query text, result_limit integer default 20, result_offset integer default 0)
+  returns setof public.words
+  language sql stable as $$
+  with q as (
+    select
+      websearch_to_tsquery('english', query) as ts,
+      replace(replace(replace(lower(query), '\', '\\'), '%', '\%'), '_', '\_') || '%' as prefix
+  )
+  select w.*
+  from public.words w, q
+  where w.search @@ q.ts
+     or lower(w.word) like q.prefix
+     or query operator(extensions.<%) w.word
+  order by
+    lower(w.word) = lower(query) desc,
+    lower(w.word) like q.prefix desc,
+    ts_rank(w.search, q.ts) desc,
+    extensions.word_similarity(query, w.word) desc,
+    w.word
+  limit result_limit
+  offset result_offset;
+$$;
+
+grant execute on function public.search_words(text, integer, integer) to anon, authenticated;
@@ -0,0 +1,4 @@
+-- Optional curated pronunciation recording per word. When null the app falls
+-- back to on-device text-to-speech.
+alter table public.words
+  add column audio_url text;
@@ -0,0 +1,69 @@
+-- The daily rotation, in versioned epochs. From starts_on until the next
+-- epoch begins, the word for a day is
+--   (start_index + days since starts_on) mod word_count
+-- Adding words never rewrites an epoch: a new one is added starting on a
+-- future date, so every day before it keeps the word it showed. Clients
+-- cache these rows and compare version to pick up changes.
+create table public.word_rotation (
+  version     integer primary key,
+  starts_on   date    not null unique,
+  start_index integer not null check (start_index >= 0),
+  word_count  integer not null check (word_count > 0),
+  created_at  timestamptz not null default now(),
+  check (start_index < word_count)
+);
+
+alter table public.word_rotation enable row level security;
+
+create policy "public read" on public.word_rotation
+  for select to anon, authenticated using (true);
+
+-- The original rotation: 9547 words from 2026-01-01.
+insert into public.word_rotation (version, starts_on, start_index, word_count)
+values (1, '2026-01-01', 0, 9547);
+
+-- Starts a new epoch covering every row in public.words (ids must be
+-- 0..count-1, which the seed uploader guarantees). By default the rotation
+-- carries on from where the current epoch would have been on p_starts_on;
+-- pass p_start_index to jump elsewhere, e.g. to the first new id. Schedule it
+-- a week or more ahead so devices fetch it before it takes effect.
+create function public.add_word_rotation_epoch(p_starts_on date, p_start_index integer default null)
+  returns public.word_rotation
+  language plpgsql as $$
+declare
+  current_epoch public.word_rotation;
+  new_epoch public.word_rotation;
+  total integer;
+begin
+  if p_starts_on <= current_date + 1 then
+    raise exception 'epoch must start after tomorrow so no one''s current word changes';
+  end if;
+
+  select * into current_epoch
+  from public.word_rotation
+  order by version desc
+  limit 1;
+
+  if p_starts_on <= current_epoch.starts_on then
+    raise exception 'epoch must start after the current one (%)', current_epoch.starts_on;
+  end if;
+
+  select count(*) into total from public.words;
+
+  insert into public.word_rotation (version, starts_on, start_index, word_count)
+  values (
+    current_epoch.version + 1,
+    p_starts_on,
+    coalesce(
+      p_start_index,
+      (current_epoch.start_index + (p_starts_on - current_epoch.starts_on)) % current_epoch.word_count
+    ),
+    total
+  )
+  returning * into new_epoch;
+
+  return new_epoch;
+end;
+$$;
+
+revoke execute on function public.add_word_rotation_epoch(date, integer) from public, anon, authenticated;
@@ -0,0 +1,41 @@
+-- Editorial overrides for the daily word, e.g. a themed word pinned to a
+-- holiday. No read policy: clients read overrides only through
+-- get_word_for_date, which takes any date, so an override is visible ahead
+-- of its day; don't schedule anything that must stay secret until then.
+create table public.word_schedule (
+  day        date        primary key,
+  word_id    integer     not null references public.words on delete cascade,
+  note       text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.word_schedule enable row level security;
+
+-- The rotation's word for a day, as services/wordRotation.ts computes it:
+-- the latest epoch that has started, or the first one for earlier days.
+create function public.rotation_word_id(p_day date)
+  returns integer
+  language sql stable set search_path = '' as $$
+  select ((r.start_index + (p_day - r.starts_on)) % r.word_count + r.word_count) % r.word_count
+  from public.word_rotation r
+  order by r.starts_on <= p_day desc, abs(p_day - r.starts_on)
+  limit 1;
+$$;
+
+-- The word for a calendar day: its word_schedule override if there is one,
+-- otherwise the rotation's. p_date defaults to today in p_tz.
+create function public.get_word_for_date(p_date date default null, p_tz text default 'UTC')
+  returns setof public.words
+  language sql stable security definer set search_path = '' as $$
+  with d as (
+    select coalesce(p_date, (now() at time zone p_tz)::date) as day
+  )
+  select w.*
+  from public.words w, d
+  where w.id = coalesce(
+    (select s.word_id from public.word_schedule s where s.day = d.day),
+    public.rotation_word_id(d.day)
+  );
+$$;
+
+grant execute on function public.get_word_for_date(date, text) to anon, authenticated;
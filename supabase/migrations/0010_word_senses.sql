@@ -0,0 +1,11 @@
+-- Words with more than one meaning ("sanguine": optimistic / blood-red), and
+-- synonyms, antonyms and related words. senses is an ordered array of
+-- {part_of_speech, definition, examples}; the existing part_of_speech,
+-- definition and examples columns stay as the first sense, so search, the
+-- quiz and older app versions are unaffected. Rows uploaded before this have
+-- senses = null until the seed uploader backfills them.
+alter table public.words
+  add column senses   jsonb  check (senses is null or jsonb_typeof(senses) = 'array'),
+  add column synonyms text[] not null default '{}',
+  add column antonyms text[] not null default '{}',
+  add column related  text[] not null default '{}';
@@ -0,0 +1,132 @@
+-- Difficulty tiers, source-list tags and per-track rotations.
+--
+-- difficulty and tags come from scripts/seed/build-wordlist.js: tags are the
+-- prep lists a word appears in ('gre', 'sat', 'barron', ...), difficulty is
+-- 1 (core) to 3 (advanced), by how many lists share the word.
+--
+-- A track is a subset of words with its own daily rotation. Its words are
+-- numbered 0..n-1 in track_words, the way words.id numbers the full list,
+-- and word_rotation epochs with that track map days to those positions. The
+-- 'all' track is the original rotation over words.id.
+alter table public.words
+  add column difficulty smallint check (difficulty between 1 and 3),
+  add column tags       text[]   not null default '{}';
+
+create table public.track_words (
+  track    text    not null check (track in ('sat', 'gre', 'advanced')),
+  position integer not null check (position >= 0),
+  word_id  integer not null references public.words on delete cascade,
+  primary key (track, position),
+  unique (track, word_id)
+);
+
+alter table public.track_words enable row level security;
+
+create policy "public read" on public.track_words
+  for select to anon, authenticated using (true);
+
+-- version stays global, so clients notice a new epoch on any track.
+alter table public.word_rotation
+  add column track text not null default 'all' check (track in ('all', 'sat', 'gre', 'advanced')),
+  drop constraint word_rotation_starts_on_key,
+  add unique (track, starts_on);
+
+drop function public.add_word_rotation_epoch(date, integer);
+
+-- As before, per track: the epoch covers every word in the track (all of
+-- public.words for 'all', track_words otherwise). A track's first epoch
+-- starts at position 0 unless p_start_index says otherwise.
+create function public.add_word_rotation_epoch(
+  p_starts_on date,
+  p_start_index integer default null,
+  p_track text default 'all'
+)
+  returns public.word_rotation
+  language plpgsql as $$
+declare
+  current_epoch public.word_rotation;
+  new_epoch public.word_rotation;
+  total integer;
+begin
+  if p_starts_on <= current_date + 1 then
+    raise exception 'epoch must start after tomorrow so no one''s current word changes';
+  end if;
+
+  select * into current_epoch
+  from public.word_rotation
+  where track = p_track
+  order by version desc
+  limit 1;
+
+  if found and p_starts_on <= current_epoch.starts_on then
+    raise exception 'epoch must start after the current one (%)', current_epoch.starts_on;
+  end if;
+
+  if p_track = 'all' then
+    select count(*) into total from public.words;
+  else
+    select count(*) into total from public.track_words where track = p_track;
+  end if;
+
+  insert into public.word_rotation (version, track, starts_on, start_index, word_count)
+  values (
+    (select max(version) + 1 from public.word_rotation),
+    p_track,
+    p_starts_on,
+    coalesce(
+      p_start_index,
+      (current_epoch.start_index + (p_starts_on - current_epoch.starts_on)) % current_epoch.word_count,
+      0
+    ),
+    total
+  )
+  returning * into new_epoch;
+
+  return new_epoch;
+end;
+$$;
+
+revoke execute on function public.add_word_rotation_epoch(date, integer, text) from public, anon, authenticated;
+
+drop function public.get_word_for_date(date, text);
+drop function public.rotation_word_id(date);
+
+-- The rotation's word for a day on a track, as services/wordRotation.ts
+-- computes it. A track with no epochs yet follows the 'all' rotation.
+create function public.rotation_word_id(p_day date, p_track text default 'all')
+  returns integer
+  language sql stable set search_path = '' as $$
+  with epoch as (
+    select r.*, ((r.start_index + (p_day - r.starts_on)) % r.word_count + r.word_count) % r.word_count as position
+    from public.word_rotation r
+    where r.track = case
+      when exists (select 1 from public.word_rotation t where t.track = p_track) then p_track
+      else 'all'
+    end
+    order by r.starts_on <= p_day desc, abs(p_day - r.starts_on)
+    limit 1
+  )
+  select case
+    when e.track = 'all' then e.position
+    else (select tw.word_id from public.track_words tw where tw.track = e.track and tw.position = e.position)
+  end
+  from epoch e;
+$$;
+
+-- As in 0009, with the track to rotate through. Overrides in word_schedule
+-- apply to every track.
+create function public.get_word_for_date(p_date date default null, p_tz text default 'UTC', p_track text default 'all')
+  returns setof public.words
+  language sql stable security definer set search_path = '' as $$
+  with d as (
+    select coalesce(p_date, (now() at time zone p_tz)::date) as day
+  )
+  select w.*
+  from public.words w, d
+  where w.id = coalesce(
+    (select s.word_id from public.word_schedule s where s.day = d.day),
+    public.rotation_word_id(d.day, p_track)
+  );
+$$;
+
+grant execute on function public.get_word_for_date(date, text, text) to anon, authenticated;
@@ -0,0 +1,32 @@
+-- Themed word packs ("Words from Greek myth", "Latin roots"), browsed from
+-- the Packs tab and stepped through in order. Packs are readable by anyone
+-- and written only with the service role: scripts/seed/build-packs.ts
+-- generates packs from words.origin, and curated packs can be added by hand
+-- with their own slugs.
+create table public.packs (
+  id          integer generated always as identity primary key,
+  slug        text    not null unique check (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  title       text    not null,
+  description text    not null default '',
+  sort_order  integer not null default 0,
+  created_at  timestamptz not null default now()
+);
+
+create table public.pack_words (
+  pack_id  integer not null references public.packs on delete cascade,
+  position integer not null check (position >= 0),
+  word_id  integer not null references public.words on delete cascade,
+  primary key (pack_id, position),
+  unique (pack_id, word_id)
+);
+
+create index pack_words_word_id_idx on public.pack_words (word_id);
+
+alter table public.packs enable row level security;
+alter table public.pack_words enable row level security;
+
+create policy "public read" on public.packs
+  for select to anon, authenticated using (true);
+
+create policy "public read" on public.pack_words
+  for select to anon, authenticated using (true);
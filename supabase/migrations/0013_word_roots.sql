@@ -0,0 +1,21 @@
+-- The roots each word's origin names, e.g. 'aequus' (equal) and 'animus'
+-- (mind) for equanimity, as parsed by services/etymology.ts. Filled by
+-- scripts/seed/extract-roots.ts; the Root screen lists every word sharing a
+-- (language, root) pair. root is lowercased; an affix keeps its hyphen
+-- ('ad-'). meaning is the gloss given in that word's origin, if any.
+create table public.word_roots (
+  word_id  integer  not null references public.words on delete cascade,
+  position smallint not null check (position >= 0),
+  language text     not null,
+  root     text     not null check (root = lower(root)),
+  meaning  text,
+  primary key (word_id, position),
+  unique (word_id, language, root)
+);
+
+create index word_roots_root_idx on public.word_roots (language, root);
+
+alter table public.word_roots enable row level security;
+
+create policy "public read" on public.word_roots
+  for select to anon, authenticated using (true);
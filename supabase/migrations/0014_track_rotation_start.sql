@@ -0,0 +1,22 @@
+-- A track whose first epoch is scheduled for a later date follows the 'all'
+-- rotation until that date, instead of counting backwards from it the day
+-- the epoch is added. Matches wordIdForDay in services/wordRotation.ts.
+create or replace function public.rotation_word_id(p_day date, p_track text default 'all')
+  returns integer
+  language sql stable set search_path = '' as $$
+  with epoch as (
+    select r.*, ((r.start_index + (p_day - r.starts_on)) % r.word_count + r.word_count) % r.word_count as position
+    from public.word_rotation r
+    where r.track = case
+      when exists (select 1 from public.word_rotation t where t.track = p_track and t.starts_on <= p_day) then p_track
+      else 'all'
+    end
+    order by r.starts_on <= p_day desc, abs(p_day - r.starts_on)
+    limit 1
+  )
+  select case
+    when e.track = 'all' then e.position
+    else (select tw.word_id from public.track_words tw where tw.track = e.track and tw.position = e.position)
+  end
+  from epoch e;
+$$;
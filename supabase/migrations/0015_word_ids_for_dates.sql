@@ -0,0 +1,15 @@
+-- The word id for each day from p_from through p_to, as get_word_for_date
+-- picks it: the word_schedule override if there is one, otherwise the
+-- track's rotation word. The app caches these for the days ahead
+-- (notifications, the widget) and uses them to list the archive, so every
+-- surface shows the word the server scheduled. At most a year per call.
+create function public.get_word_ids_for_dates(p_from date, p_to date, p_track text default 'all')
+  returns table (day date, word_id integer)
+  language sql stable security definer set search_path = '' as $$
+  select g.day::date, coalesce(s.word_id, public.rotation_word_id(g.day::date, p_track))
+  from generate_series(p_from::timestamp, least(p_to, p_from + 366)::timestamp, interval '1 day') as g(day)
+  left join public.word_schedule s on s.day = g.day::date
+  order by g.day;
+$$;
+
+grant execute on function public.get_word_ids_for_dates(date, date, text) to anon, authenticated;
@@ -0,0 +1,13 @@
+-- Replaces a pack's word list in one transaction, so the app never reads a
+-- pack that is empty or half rebuilt while scripts/seed/build-packs.ts runs.
+-- p_word_ids is in pack order. Service role only, like the tables' writes.
+create function public.replace_pack_words(p_pack_id integer, p_word_ids integer[])
+  returns void
+  language sql set search_path = '' as $$
+  delete from public.pack_words where pack_id = p_pack_id;
+  insert into public.pack_words (pack_id, position, word_id)
+  select p_pack_id, (u.ordinality - 1)::integer, u.word_id
+  from unnest(p_word_ids) with ordinality as u(word_id, ordinality);
+$$;
+
+revoke execute on function public.replace_pack_words(integer, integer[]) from public, anon, authenticated;
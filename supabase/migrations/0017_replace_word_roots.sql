@@ -0,0 +1,15 @@
+-- Replaces every row of word_roots in one transaction, so the Root screen
+-- never reads an empty or half-filled table while
+-- scripts/seed/extract-roots.ts runs or after one of its requests fails.
+-- p_rows is a JSON array of word_roots rows. Service role only.
+create function public.replace_word_roots(p_rows jsonb)
+  returns void
+  language sql set search_path = '' as $$
+  -- "where true": pg-safeupdate rejects a DELETE without a WHERE clause.
+  delete from public.word_roots where true;
+  insert into public.word_roots (word_id, position, language, root, meaning)
+  select r.word_id, r.position, r.language, r.root, r.meaning
+  from jsonb_to_recordset(p_rows) as r(word_id integer, position smallint, language text, root text, meaning text);
+$$;
+
+revoke execute on function public.replace_word_roots(jsonb) from public, anon, authenticated;